@@ -0,0 +1,90 @@
+// Service worker: caches the app shell so Intake opens without a connection.
+// API calls are never cached; meals logged offline wait in the log instead.
+const CACHE_NAME = 'intake-shell-v1';
+const SHELL_URLS = ['/', '/manifest.webmanifest', '/icon.svg'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(CACHE_NAME).then((cache) => cache.addAll(SHELL_URLS)));
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  // Drop caches from older versions of this worker
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Network first, falling back to the cache, and keep the cache fresh
+const networkFirst = async (request) => {
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (err) {
+    const cached = (await cache.match(request)) || (request.mode === 'navigate' && (await cache.match('/')));
+    if (cached) return cached;
+    throw err;
+  }
+};
+
+// Build assets have content hashes in their names, so a cached copy never goes stale
+const cacheFirst = async (request) => {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+};
+
+// The first page loads its scripts and styles before this worker controls it, so they
+// never pass through the fetch handler. The page sends their URLs once the worker is
+// active, and any not cached yet are cached so the app can start offline next time.
+self.addEventListener('message', (event) => {
+  if (event.data?.type !== 'cache-assets' || !Array.isArray(event.data.urls)) return;
+  const urls = event.data.urls.filter((url) => {
+    try {
+      const parsed = new URL(url, self.location.origin);
+      return parsed.origin === self.location.origin && parsed.pathname.startsWith('/_next/static/');
+    } catch {
+      return false;
+    }
+  });
+  event.waitUntil(
+    caches.open(CACHE_NAME).then((cache) =>
+      Promise.all(
+        urls.map(async (url) => {
+          if (await cache.match(url)) return;
+          await cache.add(url).catch((err) => console.warn('Failed to cache', url, err));
+        })
+      )
+    )
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+  if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(cacheFirst(request));
+    return;
+  }
+  event.respondWith(networkFirst(request));
+});
+
+// Tapping a reminder or summary focuses an open Intake tab, or opens one
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const existing = windows.find((client) => new URL(client.url).origin === self.location.origin);
+      return existing ? existing.focus() : self.clients.openWindow('/');
+    })
+  );
+});
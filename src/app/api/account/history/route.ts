@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AccountHistory, AccountRevision, DailyHistoryEntry } from '@/lib/types';
+import { requireUser } from '@/lib/auth';
+import { MAX_ACCOUNT_BODY_BYTES, loadHistoryDays, saveHistoryDays, validateHistoryDays } from '@/lib/accountData';
+import { jsonError, readJsonBody } from '@/lib/apiRequest';
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = requireUser(request);
+    if ('response' in auth) return auth.response;
+    return NextResponse.json<AccountHistory>({ days: loadHistoryDays(auth.user.id) });
+  } catch (err) {
+    console.error('Error in GET /api/account/history:', err);
+    return jsonError('Failed to load history', 500);
+  }
+}
+
+// Save days by date. With `replace: true` every other stored day is removed first.
+export async function PUT(request: NextRequest) {
+  try {
+    const auth = requireUser(request);
+    if ('response' in auth) return auth.response;
+    const result = await readJsonBody(request, MAX_ACCOUNT_BODY_BYTES);
+    if ('response' in result) return result.response;
+
+    const { days, replace } = result.body;
+    const validationError = validateHistoryDays(days);
+    if (validationError) return jsonError(validationError, 400);
+
+    const revision = saveHistoryDays(auth.user.id, days as DailyHistoryEntry[], replace === true);
+    return NextResponse.json<AccountRevision>({ revision });
+  } catch (err) {
+    console.error('Error in PUT /api/account/history:', err);
+    return jsonError('Failed to save history', 500);
+  }
+}
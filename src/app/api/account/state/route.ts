@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AccountRevision } from '@/lib/types';
+import { SyncedState } from '@/lib/storage';
+import { requireUser } from '@/lib/auth';
+import { MAX_ACCOUNT_BODY_BYTES, loadSyncedState, saveSyncedState, validateSyncedState } from '@/lib/accountData';
+import { jsonError, readJsonBody } from '@/lib/apiRequest';
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = requireUser(request);
+    if ('response' in auth) return auth.response;
+    return NextResponse.json<AccountRevision & { state: SyncedState }>(loadSyncedState(auth.user.id));
+  } catch (err) {
+    console.error('Error in GET /api/account/state:', err);
+    return jsonError('Failed to load account data', 500);
+  }
+}
+
+// Save some or all synced fields; fields left out keep their stored value
+export async function PUT(request: NextRequest) {
+  try {
+    const auth = requireUser(request);
+    if ('response' in auth) return auth.response;
+    const result = await readJsonBody(request, MAX_ACCOUNT_BODY_BYTES);
+    if ('response' in result) return result.response;
+
+    const { state } = result.body;
+    const validationError = validateSyncedState(state);
+    if (validationError) return jsonError(validationError, 400);
+
+    return NextResponse.json<AccountRevision>({ revision: saveSyncedState(auth.user.id, state as SyncedState) });
+  } catch (err) {
+    console.error('Error in PUT /api/account/state:', err);
+    return jsonError('Failed to save account data', 500);
+  }
+}
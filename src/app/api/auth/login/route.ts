@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { AccountUser } from '@/lib/types';
+import { authenticate, startSession } from '@/lib/auth';
+import { jsonError, readGuardedJson, tooManyRequests } from '@/lib/apiRequest';
+import { checkLoginThrottle, clearFailedLogins, recordFailedLogin } from '@/lib/rateLimit';
+
+export async function POST(request: Request) {
+  const result = await readGuardedJson(request, 'login');
+  if ('response' in result) return result.response;
+
+  const { username, password } = result.body;
+  if (typeof username !== 'string' || typeof password !== 'string') {
+    return jsonError('Enter a username and password.', 400);
+  }
+
+  const throttle = checkLoginThrottle(username);
+  if (!throttle.allowed) {
+    return tooManyRequests(throttle.retryAfterSeconds, 'Too many failed sign-ins for this account. Please try again later.');
+  }
+
+  try {
+    const user = await authenticate(username, password);
+    if (!user) {
+      recordFailedLogin(username);
+      return jsonError('Incorrect username or password.', 401);
+    }
+    clearFailedLogins(username);
+    const response = NextResponse.json<AccountUser>({ username: user.username });
+    startSession(response, user);
+    return response;
+  } catch (err) {
+    console.error('Error in /api/auth/login:', err);
+    return jsonError('Failed to sign in', 500);
+  }
+}
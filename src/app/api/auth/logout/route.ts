@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AccountSession } from '@/lib/types';
+import { endSession } from '@/lib/auth';
+import { jsonError } from '@/lib/apiRequest';
+
+export async function POST(request: NextRequest) {
+  try {
+    const response = NextResponse.json<AccountSession>({ user: null });
+    endSession(request, response);
+    return response;
+  } catch (err) {
+    console.error('Error in /api/auth/logout:', err);
+    return jsonError('Failed to sign out', 500);
+  }
+}
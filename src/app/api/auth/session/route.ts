@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AccountSession } from '@/lib/types';
+import { getSessionUser } from '@/lib/auth';
+import { jsonError } from '@/lib/apiRequest';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = getSessionUser(request);
+    return NextResponse.json<AccountSession>({ user: user ? { username: user.username } : null });
+  } catch (err) {
+    console.error('Error in /api/auth/session:', err);
+    return jsonError('Failed to read the session', 500);
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { AccountUser } from '@/lib/types';
+import { createUser, startSession, validateCredentials } from '@/lib/auth';
+import { jsonError, readGuardedJson } from '@/lib/apiRequest';
+
+export async function POST(request: Request) {
+  const result = await readGuardedJson(request, 'signup');
+  if ('response' in result) return result.response;
+
+  const { username, password } = result.body;
+  const validationError = validateCredentials(username, password);
+  if (validationError) return jsonError(validationError, 400);
+
+  try {
+    const user = await createUser(username as string, password as string);
+    if (!user) return jsonError('That username is taken.', 409);
+    const response = NextResponse.json<AccountUser>({ username: user.username }, { status: 201 });
+    startSession(response, user);
+    return response;
+  } catch (err) {
+    console.error('Error in /api/auth/signup:', err);
+    return jsonError('Failed to create the account', 500);
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { MealDescription } from '@/lib/types';
+import { describeMealImage, OpenAIError } from '@/lib/openai';
+import { jsonError, readGuardedJson, validateImage } from '@/lib/apiRequest';
+
+export async function POST(request: Request) {
+  const result = await readGuardedJson(request, 'describe');
+  if ('response' in result) return result.response;
+
+  const { image } = result.body;
+  if (!image) return jsonError('An image is required.', 400);
+  const validationError = validateImage(image);
+  if (validationError) return jsonError(validationError, 400);
+
+  try {
+    const description = await describeMealImage(image as string);
+    return NextResponse.json<MealDescription>({ description });
+  } catch (err) {
+    console.error('Error in /api/describe:', err);
+    if (err instanceof OpenAIError) return jsonError(err.message, err.status);
+    return jsonError('Failed to generate meal description', 500);
+  }
+}
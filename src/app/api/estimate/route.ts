@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { NutritionEstimate } from '@/lib/types';
+import { estimateNutrition, OpenAIError } from '@/lib/openai';
+import { jsonError, readGuardedJson, validateImage, validateMealText } from '@/lib/apiRequest';
+
+export async function POST(request: Request) {
+  const result = await readGuardedJson(request, 'estimate');
+  if ('response' in result) return result.response;
+
+  const { text, image } = result.body;
+  const validationError = validateMealText(text) || validateImage(image);
+  if (validationError) return jsonError(validationError, 400);
+
+  const mealText = typeof text === 'string' ? text.trim() : '';
+  const imageBase64 = typeof image === 'string' ? image : undefined;
+  if (!mealText && !imageBase64) {
+    return jsonError('Provide a meal description or an image.', 400);
+  }
+
+  try {
+    const estimate = await estimateNutrition(mealText, imageBase64);
+    return NextResponse.json<NutritionEstimate>(estimate);
+  } catch (err) {
+    console.error('Error in /api/estimate:', err);
+    if (err instanceof OpenAIError) return jsonError(err.message, err.status);
+    return jsonError('Failed to fetch calorie estimate', 500);
+  }
+}
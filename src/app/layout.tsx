@@ -1,6 +1,7 @@
-import type { Metadata } from 'next';
+import type { Metadata, Viewport } from 'next';
 import { Poppins } from 'next/font/google';
 import './globals.css';
+import ServiceWorkerRegistration from '@/components/ServiceWorkerRegistration';
 
 const poppins = Poppins({
   subsets: ['latin'],
@@ -10,6 +11,12 @@ const poppins = Poppins({
 export const metadata: Metadata = {
   title: 'Intake',
   description: 'A simple calorie tracking app',
+  icons: { icon: '/icon.svg', apple: '/icon.svg' },
+  appleWebApp: { capable: true, title: 'Intake' },
+};
+
+export const viewport: Viewport = {
+  themeColor: '#0891b2',
 };
 
 export default function RootLayout({
@@ -19,7 +26,10 @@ export default function RootLayout({
 }) {
   return (
     <html lang="en">
-      <body className={`${poppins.className} bg-slate-50 text-slate-800 antialiased`}>{children}</body>
+      <body className={`${poppins.className} bg-slate-50 text-slate-800 antialiased`}>
+        <ServiceWorkerRegistration />
+        {children}
+      </body>
     </html>
   );
 } 
\ No newline at end of file
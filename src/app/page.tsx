@@ -1,7 +1,7 @@
 /* eslint-disable @next/next/no-img-element */
 'use client';
 
-import React, { useState, useEffect, useRef, ChangeEvent } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useReducer, useRef, ChangeEvent } from 'react';
 import {
   Chart as ChartJS,
   CategoryScale,
@@ -15,6 +15,106 @@ import {
 } from 'chart.js';
 import { Line } from 'react-chartjs-2';
 import { DateTime } from 'luxon';
+import { AccountUser, BodyStats, CurrentDay, DailyHistoryEntry, ExerciseEntry, Food, GoalSchedule, LogEntry, MacroData, MacroProfile, MealSlot, NutrientGoals, NutrientKey, Product, Recipe, ReminderSettings, SlotBudgets, VolumeUnit, WaterEntry, WeightEntry } from '@/lib/types';
+import { getAccountSession, logIn, logOut, NetworkError, requestMealDescription, requestNutritionEstimate, signUp } from '@/lib/api';
+import { sumCalories, sumMacros } from '@/lib/nutrition';
+import { NUTRIENTS, sumNutrients } from '@/lib/nutrients';
+import { detectBarcode } from '@/lib/barcode';
+import { saveRecipeVersion } from '@/lib/recipes';
+import { estimateMaintenance, getLatestWeightKg, getWeightTrend, suggestAdaptiveGoal, upsertWeightEntry } from '@/lib/weight';
+import { getDailyBudget, getNetCalories, sumExerciseCalories } from '@/lib/exercise';
+import { DEFAULT_WATER_GOAL_ML, formatVolume, getHydrationMl, getMealHydrationMl, sumWaterMl } from '@/lib/water';
+import { getQuickAddSuggestions, QuickAddSuggestion } from '@/lib/suggestions';
+import { DateRange } from '@/lib/analytics';
+import { EMPTY_GOAL_SCHEDULE, getEffectiveGoal, getWeekBudget, pruneOverrides } from '@/lib/goalSchedule';
+import { DEFAULT_REMINDER_SETTINGS, ReminderContext, scheduleNotifications, showLocalNotification } from '@/lib/reminders';
+import {
+  downloadAccountData,
+  getSyncedUsername,
+  markSignedOut,
+  pushPendingChanges,
+  setSyncErrorListener,
+  startAccountSync,
+  stopAccountSync,
+  syncOnOpen,
+  uploadLocalData,
+} from '@/lib/accountSync';
+import { getBudgetedPercent, getSlotBudget, groupEntriesBySlot, MEAL_SLOT_LABELS } from '@/lib/mealSlots';
+import { MEAL_SLOTS } from '@/lib/validators';
+import {
+  createPendingEntry,
+  estimatePendingEntry,
+  getQueuedEntries,
+  giveUpPendingEntry,
+  isTransientError,
+  MAX_PENDING_ATTEMPTS,
+} from '@/lib/pendingMeals';
+import { describeLogEdit, initialLogState, logReducer } from '@/lib/logReducer';
+import {
+  BUILT_IN_PROFILES,
+  DEFAULT_PROFILE_ID,
+  describeProfileTargets,
+  findProfile,
+  getMacroGramTargets,
+  getMacroPercentTargets,
+} from '@/lib/profiles';
+import { StorageIssue, loadPersistedState, removeFromStorage, saveToStorage } from '@/lib/storage';
+import {
+  HISTORY_PAGE_SIZE,
+  importLegacyHistory,
+  loadAllHistory,
+  loadHistoryPage,
+  loadHistoryRange,
+  mergeHistoryDays,
+  putHistoryDay,
+  replaceAllHistory,
+} from '@/lib/historyDb';
+import {
+  BackupError,
+  BackupFile,
+  RestoreMode,
+  createBackup,
+  downloadFile,
+  historyToDailyTotalsCsv,
+  historyToEntriesCsv,
+  mergeCustomFoods,
+  mergeCustomProducts,
+  mergeCustomProfiles,
+  mergeWeightLog,
+  mergeExerciseLogs,
+  mergeWaterLogs,
+  mergeRecipes,
+  mergeHistoryDay,
+  mergeHistoryDayLists,
+  mergeLogs,
+  parseBackup,
+} from '@/lib/backup';
+import {
+  DEFAULT_DAY_START_HOUR,
+  formatEntryTime,
+  getCurrentDay,
+  getNextDayStart,
+  planRestoredRollover,
+  planRollover,
+} from '@/lib/dayBoundary';
+import LogEntryEditor from '@/components/LogEntryEditor';
+import MealItemList from '@/components/MealItemList';
+import EstimateConfidenceNote from '@/components/EstimateConfidenceNote';
+import PendingEstimateNote from '@/components/PendingEstimateNote';
+import FoodSearch from '@/components/FoodSearch';
+import BarcodeProductPanel from '@/components/BarcodeProductPanel';
+import RecipesPanel from '@/components/RecipesPanel';
+import QuickAddSuggestions from '@/components/QuickAddSuggestions';
+import NutrientsPanel from '@/components/NutrientsPanel';
+import ProfileEditor from '@/components/ProfileEditor';
+import GoalWizard from '@/components/GoalWizard';
+import WeightLogPanel from '@/components/WeightLogPanel';
+import ExerciseLogPanel from '@/components/ExerciseLogPanel';
+import HydrationTracker from '@/components/HydrationTracker';
+import AnalyticsDashboard from '@/components/AnalyticsDashboard';
+import GoalSchedulePanel from '@/components/GoalSchedulePanel';
+import ReminderSettingsPanel from '@/components/ReminderSettingsPanel';
+import AccountPanel from '@/components/AccountPanel';
 
 ChartJS.register(
   CategoryScale,
@@ -27,109 +127,7 @@ ChartJS.register(
 );
 
 const DEFAULT_DAILY_GOAL = 2000;
-const OPENAI_API_KEY = process.env.NEXT_PUBLIC_OPENAI_KEY;
-
-// Profile types and their ideal macro percentages
-type ProfileType = 'General' | 'Weight Loss' | 'Muscle Building' | 'Endurance Athletes';
-
-const PROFILE_MACRO_PERCENTAGES: Record<ProfileType, { carbs: number; protein: number; fat: number }> = {
-  'General': {
-    carbs: 45, // 45% of calories from carbs
-    protein: 25, // 25% of calories from protein  
-    fat: 30, // 30% of calories from fat
-  },
-  'Weight Loss': {
-    carbs: 35, // Lower carbs for weight loss
-    protein: 35, // Higher protein to preserve muscle
-    fat: 30, // Moderate fat
-  },
-  'Muscle Building': {
-    carbs: 40, // Moderate carbs for energy
-    protein: 35, // High protein for muscle synthesis
-    fat: 25, // Lower fat to prioritize protein
-  },
-  'Endurance Athletes': {
-    carbs: 55, // High carbs for endurance performance
-    protein: 20, // Moderate protein
-    fat: 25, // Lower fat
-  },
-};
-
-interface MacroData {
-  carbs: number;
-  protein: number;
-  fat: number;
-}
-
-interface LogEntry {
-  id: string;
-  text: string;
-  calories: number;
-  macros: MacroData;
-  timestamp: number;
-}
-
-// New interface for daily history entries
-interface DailyHistoryEntry {
-  date: string; // Format: YYYY-MM-DD
-  totalCalories: number;
-  mealLog: LogEntry[];
-  dailyGoalAtTheTime: number; // Store the goal active for that day
-}
-
-// Define a type for the content array elements
-type OpenAIPromptContent = 
-  | { type: 'text'; text: string }
-  | { type: 'image_url'; image_url: { url: string } };
-
-// Function to generate a short meal description from an image
-const generateMealDescriptionFromImage = async (imageBase64: string): Promise<string | null> => {
-  if (!OPENAI_API_KEY) {
-    console.error('OpenAI API key is not configured for description generation.');
-    return null;
-  }
-  const descriptionSystemMessage = "You are an image analysis assistant. Your task is to provide a very short, concise description of the food in an image, suitable for a food log. Describe the main food item(s) in 2-5 words. For example: 'Chicken salad sandwich' or 'Bowl of mixed berries'. If you cannot clearly identify the food, respond with 'Processed food image'.";
-  const userPromptForDescription = "Describe the food in the provided image.";
-  try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o',
-        messages: [
-          { role: 'system', content: descriptionSystemMessage },
-          {
-            role: 'user',
-            content: [
-              { type: 'text', text: userPromptForDescription },
-              { type: 'image_url', image_url: { url: imageBase64 } },
-            ],
-          },
-        ],
-        max_tokens: 25, 
-        temperature: 0.4,
-      }),
-    });
-    if (!response.ok) {
-      const errorData = await response.json();
-      console.error('OpenAI API Error (Description Generation):', errorData);
-      return null;
-    }
-    const data = await response.json();
-    const description = data.choices?.[0]?.message?.content?.trim();
-    if (description && description.toLowerCase() !== 'processed food image') {
-      return description;
-    }    
-    console.warn('Failed to get a distinct description or got fallback:', description);
-    return null; 
-  } catch (err) {
-    console.error('Error in generateMealDescriptionFromImage:', err);
-    return null;
-  }
-};
+const PENDING_RETRY_DELAY_MS = 60 * 1000; // Wait before retrying pending meals after a failed attempt
 
 // Helper to resize image to max dimension (e.g., 512px)
 const resizeImage = (file: File, maxSize = 512): Promise<string> => {
@@ -167,10 +165,27 @@ const resizeImage = (file: File, maxSize = 512): Promise<string> => {
   });
 };
 
+// Insert or replace a day in a newest-first history list
+const upsertHistoryDay = (history: DailyHistoryEntry[], day: DailyHistoryEntry): DailyHistoryEntry[] =>
+  [day, ...history.filter(entry => entry.date !== day.date)].sort((a, b) => 
+    DateTime.fromFormat(b.date, 'yyyy-MM-dd').toMillis() - DateTime.fromFormat(a.date, 'yyyy-MM-dd').toMillis()
+  );
+
 // Add this new component before the HomePage component
-const CalorieHistoryGraph = ({ history }: { history: DailyHistoryEntry[] }) => {
+const CalorieHistoryGraph = ({
+  history,
+  weightLog,
+  showNetCalories,
+}: {
+  history: DailyHistoryEntry[];
+  weightLog: WeightEntry[];
+  showNetCalories: boolean; // Also plot intake minus exercise
+}) => {
   // Sort history by date ascending for the graph
   const sortedHistory = [...history].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  // Weigh-ins on the days shown, drawn against a second axis; days without one are gaps
+  const trendByDate = new Map(getWeightTrend(weightLog).map(point => [point.date, point]));
+  const hasWeights = sortedHistory.some(entry => trendByDate.has(entry.date));
   
   const data: ChartData<'line'> = {
     labels: sortedHistory.map(entry => new Date(entry.date).toLocaleDateString([], { month: 'short', day: 'numeric' })),
@@ -182,6 +197,17 @@ const CalorieHistoryGraph = ({ history }: { history: DailyHistoryEntry[] }) => {
         backgroundColor: 'rgba(14, 165, 233, 0.5)',
         tension: 0.4,
       },
+      ...(showNetCalories
+        ? [
+            {
+              label: 'Net Calories',
+              data: sortedHistory.map(entry => getNetCalories(entry)),
+              borderColor: 'rgb(16, 185, 129)', // emerald-500
+              backgroundColor: 'rgba(16, 185, 129, 0.5)',
+              tension: 0.4,
+            },
+          ]
+        : []),
       {
         label: 'Daily Goal',
         data: sortedHistory.map(entry => entry.dailyGoalAtTheTime),
@@ -190,6 +216,28 @@ const CalorieHistoryGraph = ({ history }: { history: DailyHistoryEntry[] }) => {
         borderDash: [5, 5],
         tension: 0,
       },
+      ...(hasWeights
+        ? [
+            {
+              label: 'Weight',
+              data: sortedHistory.map(entry => trendByDate.get(entry.date)?.weightKg ?? null),
+              borderColor: 'rgba(249, 115, 22, 0.5)', // orange-500
+              backgroundColor: 'rgba(249, 115, 22, 0.5)',
+              showLine: false,
+              yAxisID: 'weight',
+            },
+            {
+              label: 'Weight Trend',
+              data: sortedHistory.map(entry => trendByDate.get(entry.date)?.trendKg ?? null),
+              borderColor: 'rgb(234, 88, 12)', // orange-600
+              backgroundColor: 'rgba(234, 88, 12, 0.5)',
+              pointRadius: 0,
+              spanGaps: true,
+              tension: 0.4,
+              yAxisID: 'weight',
+            },
+          ]
+        : []),
     ],
   };
 
@@ -213,6 +261,17 @@ const CalorieHistoryGraph = ({ history }: { history: DailyHistoryEntry[] }) => {
           text: 'Calories',
         },
       },
+      weight: {
+        display: hasWeights,
+        position: 'right' as const,
+        grid: {
+          drawOnChartArea: false,
+        },
+        title: {
+          display: true,
+          text: 'Weight (kg)',
+        },
+      },
     },
   };
 
@@ -226,245 +285,459 @@ const CalorieHistoryGraph = ({ history }: { history: DailyHistoryEntry[] }) => {
 export default function HomePage() {
   const [dailyGoal, setDailyGoal] = useState<number>(DEFAULT_DAILY_GOAL);
   const [dailyGoalInput, setDailyGoalInput] = useState<string>(DEFAULT_DAILY_GOAL.toString());
-  const [consumedCalories, setConsumedCalories] = useState<number>(0);
-  const [consumedMacros, setConsumedMacros] = useState<MacroData>({ carbs: 0, protein: 0, fat: 0 });
-  const [selectedProfile, setSelectedProfile] = useState<ProfileType>('General');
+  const [selectedProfile, setSelectedProfile] = useState<string>(DEFAULT_PROFILE_ID); // Macro profile id
+  const [customProfiles, setCustomProfiles] = useState<MacroProfile[]>([]);
+  const [editingProfileId, setEditingProfileId] = useState<string | null>(null); // Profile id, or 'new'
+  const [bodyStats, setBodyStats] = useState<BodyStats | null>(null); // Goal wizard answers, kept for recalculating
+  const [showGoalWizard, setShowGoalWizard] = useState<boolean>(false);
+  const [goalSchedule, setGoalSchedule] = useState<GoalSchedule>(EMPTY_GOAL_SCHEDULE); // Per-weekday and one-off goals
+  const [weightLog, setWeightLog] = useState<WeightEntry[]>([]);
+  const [exerciseLog, setExerciseLog] = useState<ExerciseEntry[]>([]); // Today's exercise
+  const [addExerciseToBudget, setAddExerciseToBudget] = useState<boolean>(false);
+  const [showNetCalories, setShowNetCalories] = useState<boolean>(false);
+  const [waterLog, setWaterLog] = useState<WaterEntry[]>([]); // Today's water
+  const [waterGoalMl, setWaterGoalMl] = useState<number>(DEFAULT_WATER_GOAL_ML);
+  const [volumeUnit, setVolumeUnit] = useState<VolumeUnit>('ml');
+  const [reminderSettings, setReminderSettings] = useState<ReminderSettings>(DEFAULT_REMINDER_SETTINGS);
+  const [notificationPermission, setNotificationPermission] = useState<NotificationPermission | 'unsupported'>('default');
+  const [account, setAccount] = useState<AccountUser | null>(null); // Null when using the app without an account
   const [mealInput, setMealInput] = useState<string>('');
-  const [log, setLog] = useState<LogEntry[]>([]);
+  const [{ log, past: undoSteps, future: redoSteps }, dispatchLog] = useReducer(logReducer, initialLogState);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [calorieHistory, setCalorieHistory] = useState<DailyHistoryEntry[]>([]); // State for history
   const [showHistory, setShowHistory] = useState<boolean>(false); // State to toggle history view
+  const [showAnalytics, setShowAnalytics] = useState<boolean>(false);
   const [expandedHistoryDate, setExpandedHistoryDate] = useState<string | null>(null);
+  const [editingEntry, setEditingEntry] = useState<{ date: string; id: string } | null>(null); // date is 'today' or a history date
+  const [addingToHistoryDate, setAddingToHistoryDate] = useState<string | null>(null);
+  const [hasMoreHistory, setHasMoreHistory] = useState<boolean>(false); // Older days not loaded yet
+  const [isLoadingHistory, setIsLoadingHistory] = useState<boolean>(false);
   const [manualCalories, setManualCalories] = useState<string>(''); // New state for manual calorie input
+  const [storageIssues, setStorageIssues] = useState<StorageIssue[]>([]); // Problems found while loading saved data
+  const backupInputRef = useRef<HTMLInputElement>(null);
+  const [pendingBackup, setPendingBackup] = useState<BackupFile | null>(null); // Parsed backup waiting for merge/replace choice
+  const [isRestoring, setIsRestoring] = useState<boolean>(false);
+  const [dayStartHour, setDayStartHour] = useState<number>(DEFAULT_DAY_START_HOUR); // Hour at which a new day begins
+  const [slotBudgets, setSlotBudgets] = useState<SlotBudgets>({}); // Percent of the daily goal per meal slot
+  const [nutrientGoals, setNutrientGoals] = useState<NutrientGoals>({});
+  const [currentDay, setCurrentDay] = useState<CurrentDay | null>(null); // Day today's log belongs to, set once loaded
+  const [pendingRetryCount, setPendingRetryCount] = useState<number>(0); // Bumped to retry estimating pending meals
+  const isEstimatingPendingRef = useRef<boolean>(false);
+  const pendingAttemptsRef = useRef<Map<string, number>>(new Map()); // Failed attempts per pending entry id
+  const [customFoods, setCustomFoods] = useState<Food[]>([]);
+  const [showFoodSearch, setShowFoodSearch] = useState<boolean>(false);
+  const [customProducts, setCustomProducts] = useState<Product[]>([]);
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [showRecipes, setShowRecipes] = useState<boolean>(false);
+  const [scannedPhoto, setScannedPhoto] = useState<{ barcode: string; image: string } | null>(null); // Photo with a barcode, awaiting servings
 
   // Load data from localStorage on initial render and check for date change
   useEffect(() => {
-    const storedDailyGoal = localStorage.getItem('dailyGoal');
-    if (storedDailyGoal) {
-      const goal = JSON.parse(storedDailyGoal);
-      setDailyGoal(goal);
-      setDailyGoalInput(goal.toString());
-    }
-    const storedProfile = localStorage.getItem('selectedProfile');
-    if (storedProfile) {
-      setSelectedProfile(JSON.parse(storedProfile) as ProfileType);
-    }
-    const storedCalories = localStorage.getItem('consumedCalories');
-    if (storedCalories) setConsumedCalories(JSON.parse(storedCalories));
-    const storedMacros = localStorage.getItem('consumedMacros');
-    if (storedMacros) setConsumedMacros(JSON.parse(storedMacros));
-    const storedLog = localStorage.getItem('calorieLog');
-    if (storedLog) {
-      const parsedLog = JSON.parse(storedLog);
-      // Migrate old entries that might not have macro data
-      const migratedLog = parsedLog.map((entry: any) => ({
-        ...entry,
-        macros: entry.macros || { carbs: 0, protein: 0, fat: 0 }
-      }));
-      setLog(migratedLog);
-    }
-    const storedHistory = localStorage.getItem('calorieHistory');
-    if (storedHistory) {
-      const parsedHistory = JSON.parse(storedHistory);
-      // Migrate old history entries that might not have macro data
-      const migratedHistory = parsedHistory.map((day: any) => ({
-        ...day,
-        mealLog: day.mealLog.map((entry: any) => ({
-          ...entry,
-          macros: entry.macros || { carbs: 0, protein: 0, fat: 0 }
-        }))
-      }));
-      setCalorieHistory(migratedHistory);
+    const { state: stored, issues } = loadPersistedState();
+    if (issues.length > 0) setStorageIssues(issues);
+    if (stored.dailyGoal !== undefined) {
+      setDailyGoal(stored.dailyGoal);
+      setDailyGoalInput(stored.dailyGoal.toString());
     }
+    if (stored.selectedProfile) setSelectedProfile(stored.selectedProfile);
+    if (stored.customProfiles) setCustomProfiles(stored.customProfiles);
+    if (stored.bodyStats) setBodyStats(stored.bodyStats);
+    if (stored.weightLog) setWeightLog(stored.weightLog);
+    if (stored.addExerciseToBudget !== undefined) setAddExerciseToBudget(stored.addExerciseToBudget);
+    if (stored.waterGoalMl) setWaterGoalMl(stored.waterGoalMl);
+    if (stored.volumeUnit) setVolumeUnit(stored.volumeUnit);
+    if (stored.reminderSettings) setReminderSettings(stored.reminderSettings);
+    setNotificationPermission(typeof Notification === 'undefined' ? 'unsupported' : Notification.permission);
+    // Offer the goal wizard on first run, before any goal has been chosen
+    if (stored.dailyGoal === undefined && !stored.bodyStats) setShowGoalWizard(true);
+    if (stored.slotBudgets) setSlotBudgets(stored.slotBudgets);
+    if (stored.nutrientGoals) setNutrientGoals(stored.nutrientGoals);
+    if (stored.customFoods) setCustomFoods(stored.customFoods);
+    if (stored.customProducts) setCustomProducts(stored.customProducts);
+    if (stored.recipes) setRecipes(stored.recipes);
 
-    // --- Updated: Date check using Luxon ---
-    const getFormattedDate = (date: DateTime): string => date.toFormat('yyyy-MM-dd');
-    const today = DateTime.now();
-    const todayStr = getFormattedDate(today);
-    
-    const lastLog = storedLog ? JSON.parse(storedLog) : [];
-    // Find the most recent non-reset log entry
-    const lastEntry = lastLog.find((entry: any) => entry.text !== 'Daily Reset for new day');
-    let lastEntryDate = null;
-    if (lastEntry) {
-      lastEntryDate = getFormattedDate(DateTime.fromMillis(lastEntry.timestamp));
+    const storedDayStartHour = stored.dayStartHour ?? DEFAULT_DAY_START_HOUR;
+    const storedLog = stored.log ?? [];
+    const storedExerciseLog = stored.exerciseLog ?? [];
+    const storedWaterLog = stored.waterLog ?? [];
+    const storedCurrentDay = stored.currentDay ?? getCurrentDay(storedDayStartHour);
+    setDayStartHour(storedDayStartHour);
+
+    // Archive every day that ended while the app was closed, including empty ones
+    const rollover = planRollover({
+      log: storedLog,
+      exerciseLog: storedExerciseLog,
+      waterLog: storedWaterLog,
+      currentDay: storedCurrentDay,
+      dayStartHour: storedDayStartHour,
+      goalForDate: (date) =>
+        getEffectiveGoal(
+          date,
+          stored.goalSchedule ?? EMPTY_GOAL_SCHEDULE,
+          { dailyGoal: stored.dailyGoal ?? DEFAULT_DAILY_GOAL, profileId: stored.selectedProfile ?? DEFAULT_PROFILE_ID },
+          stored.customProfiles ?? []
+        ),
+    });
+    dispatchLog({ type: 'reset', log: rollover ? rollover.remainingLog : storedLog });
+    setExerciseLog(rollover ? rollover.remainingExerciseLog : storedExerciseLog);
+    setWaterLog(rollover ? rollover.remainingWaterLog : storedWaterLog);
+    setCurrentDay(rollover ? rollover.currentDay : storedCurrentDay);
+    // Overrides for days now in history are no longer needed
+    if (stored.goalSchedule) {
+      setGoalSchedule(pruneOverrides(stored.goalSchedule, (rollover ? rollover.currentDay : storedCurrentDay).date));
     }
-    // If there are no entries, or the last entry is from a previous day, trigger a reset
-    if (lastEntryDate && lastEntryDate !== todayStr) {
-      // Save yesterday's log to history
-      const storedCaloriesNum = storedCalories ? JSON.parse(storedCalories) : 0;
-      const storedDailyGoalNum = storedDailyGoal ? JSON.parse(storedDailyGoal) : dailyGoal;
-      const newHistoryEntry = {
-        date: lastEntryDate,
-        totalCalories: storedCaloriesNum,
-        mealLog: lastLog.filter((entry: any) => entry.text !== 'Daily Reset for new day'),
-        dailyGoalAtTheTime: storedDailyGoalNum,
-      };
-      const prevHistory = storedHistory ? JSON.parse(storedHistory) : [];
-      const filteredHistory = prevHistory.filter((entry: any) => entry.date !== lastEntryDate);
-      const updatedHistory = [newHistoryEntry, ...filteredHistory].sort((a, b) => 
-        DateTime.fromFormat(b.date, 'yyyy-MM-dd').toMillis() - DateTime.fromFormat(a.date, 'yyyy-MM-dd').toMillis()
-      );
-      setCalorieHistory(updatedHistory);
-      localStorage.setItem('calorieHistory', JSON.stringify(updatedHistory));
-      // Reset log and calories for today
-      setConsumedCalories(0);
-      setConsumedMacros({ carbs: 0, protein: 0, fat: 0 });
-      setLog([
-        {
-          id: DateTime.now().toMillis().toString(),
-          text: 'Daily Reset for new day',
-          calories: 0,
-          macros: { carbs: 0, protein: 0, fat: 0 },
-          timestamp: DateTime.now().toMillis(),
-        },
-      ]);
-      localStorage.setItem('consumedCalories', '0');
-      localStorage.setItem('consumedMacros', JSON.stringify({ carbs: 0, protein: 0, fat: 0 }));
-      localStorage.setItem('calorieLog', JSON.stringify([
-        {
-          id: DateTime.now().toMillis().toString(),
-          text: 'Daily Reset for new day',
-          calories: 0,
-          timestamp: DateTime.now().toMillis(),
-        },
-      ]));
+
+    // Move any legacy localStorage history into IndexedDB, then load the newest page
+    const initHistory = async () => {
+      try {
+        if (stored.calorieHistory) {
+          await importLegacyHistory(stored.calorieHistory);
+          removeFromStorage('calorieHistory');
+        }
+        if (rollover) await mergeHistoryDays(rollover.archivedDays, mergeHistoryDay);
+        const { days, hasMore } = await loadHistoryPage();
+        setCalorieHistory(days);
+        setHasMoreHistory(hasMore);
+      } catch (err) {
+        console.error('Failed to load history from IndexedDB:', err);
+        // Fall back to whatever was still in localStorage so the user can at least see it
+        let fallbackHistory = stored.calorieHistory ?? [];
+        rollover?.archivedDays.forEach(day => {
+          fallbackHistory = upsertHistoryDay(fallbackHistory, day);
+        });
+        setCalorieHistory(fallbackHistory);
+        setStorageIssues(prev => [
+          ...prev,
+          { key: 'history', message: 'The history database could not be opened, so history changes will not be saved.' },
+        ]);
+      }
+    };
+    initHistory();
+  }, []);
+
+  // Keep this browser in step with the signed-in account. Saves made while loading are
+  // held back until we know no other device has changed the account in the meantime.
+  useEffect(() => {
+    const syncedUsername = getSyncedUsername();
+    setSyncErrorListener(err => {
+      setError(`Changes couldn't be saved to your account: ${err.message} Intake will try again next time it opens.`);
+    });
+    if (syncedUsername) {
+      setAccount({ username: syncedUsername });
+      startAccountSync(syncedUsername, true);
     }
+    getAccountSession()
+      .then(async user => {
+        setAccount(user);
+        if (!user) {
+          // Signed out elsewhere or expired: unsent changes stay listed for the next sign-in
+          stopAccountSync();
+          markSignedOut();
+          return;
+        }
+        if ((await syncOnOpen(user.username)) === 'pulled') {
+          window.location.reload();
+          return;
+        }
+        startAccountSync(user.username);
+      })
+      .catch(err => {
+        // Keep working locally. Changes that fail to upload are retried on the next open.
+        console.error('Failed to sync with your account:', err);
+        if (!(err instanceof NetworkError)) setError(`Couldn't sync with your account: ${err.message}`);
+        if (syncedUsername) startAccountSync(syncedUsername);
+      });
+    return () => {
+      stopAccountSync();
+      setSyncErrorListener(null);
+    };
   }, []);
 
   // Save data to localStorage whenever states change
   useEffect(() => {
-    localStorage.setItem('dailyGoal', JSON.stringify(dailyGoal));
+    saveToStorage('dailyGoal', dailyGoal);
   }, [dailyGoal]);
 
   useEffect(() => {
-    localStorage.setItem('selectedProfile', JSON.stringify(selectedProfile));
+    saveToStorage('selectedProfile', selectedProfile);
   }, [selectedProfile]);
 
   useEffect(() => {
-    localStorage.setItem('consumedCalories', JSON.stringify(consumedCalories));
-  }, [consumedCalories]);
+    saveToStorage('customProfiles', customProfiles);
+  }, [customProfiles]);
 
   useEffect(() => {
-    localStorage.setItem('consumedMacros', JSON.stringify(consumedMacros));
-  }, [consumedMacros]);
+    if (bodyStats) saveToStorage('bodyStats', bodyStats);
+  }, [bodyStats]);
 
   useEffect(() => {
-    localStorage.setItem('calorieLog', JSON.stringify(log));
-  }, [log]);
+    saveToStorage('goalSchedule', goalSchedule);
+  }, [goalSchedule]);
 
   useEffect(() => {
-    localStorage.setItem('calorieHistory', JSON.stringify(calorieHistory));
-  }, [calorieHistory]);
+    saveToStorage('weightLog', weightLog);
+  }, [weightLog]);
 
-  // Reset at midnight and save daily summary
   useEffect(() => {
-    const getFormattedDate = (date: DateTime): string => {
-      return date.toFormat('yyyy-MM-dd');
-    };
+    saveToStorage('exerciseLog', exerciseLog);
+  }, [exerciseLog]);
 
-    const checkMidnight = () => {
-      const now = DateTime.now();
-      const tomorrow = now.plus({ days: 1 }).startOf('day');
-      const timeToMidnight = tomorrow.toMillis() - now.toMillis();
-
-      const timerId = setTimeout(() => {
-        // Save the current day's summary before resetting
-        const todayStr = getFormattedDate(now);
-        // Avoid saving if no calories were consumed or if a summary for today already exists
-        if (consumedCalories > 0 || log.length > 0) {
-          const newHistoryEntry: DailyHistoryEntry = {
-            date: todayStr,
-            totalCalories: consumedCalories,
-            mealLog: log,
-            dailyGoalAtTheTime: dailyGoal,
-          };
-
-          setCalorieHistory(prevHistory => {
-            // Filter out any existing entry for the same date to prevent duplicates
-            const filteredHistory = prevHistory.filter(entry => entry.date !== todayStr);
-            return [newHistoryEntry, ...filteredHistory].sort((a, b) => 
-              DateTime.fromFormat(b.date, 'yyyy-MM-dd').toMillis() - DateTime.fromFormat(a.date, 'yyyy-MM-dd').toMillis()
-            );
-          });
-        }
-        
-        // Reset for the new day
-        setConsumedCalories(0);
-        setConsumedMacros({ carbs: 0, protein: 0, fat: 0 });
-        setLog([
-          {
-            id: DateTime.now().toMillis().toString(),
-            text: 'Daily Reset for new day',
-            calories: 0,
-            macros: { carbs: 0, protein: 0, fat: 0 },
-            timestamp: DateTime.now().toMillis(),
-          },
-        ]);
-        
-        checkMidnight(); // Schedule the next check
-      }, timeToMidnight);
+  useEffect(() => {
+    saveToStorage('addExerciseToBudget', addExerciseToBudget);
+  }, [addExerciseToBudget]);
 
-      return () => clearTimeout(timerId);
+  useEffect(() => {
+    saveToStorage('waterLog', waterLog);
+  }, [waterLog]);
+
+  useEffect(() => {
+    saveToStorage('waterGoalMl', waterGoalMl);
+  }, [waterGoalMl]);
+
+  useEffect(() => {
+    saveToStorage('volumeUnit', volumeUnit);
+  }, [volumeUnit]);
+
+  useEffect(() => {
+    saveToStorage('reminderSettings', reminderSettings);
+  }, [reminderSettings]);
+
+  useEffect(() => {
+    saveToStorage('customFoods', customFoods);
+  }, [customFoods]);
+
+  useEffect(() => {
+    saveToStorage('customProducts', customProducts);
+  }, [customProducts]);
+
+  useEffect(() => {
+    saveToStorage('recipes', recipes);
+  }, [recipes]);
+
+  useEffect(() => {
+    saveToStorage('dayStartHour', dayStartHour);
+  }, [dayStartHour]);
+
+  useEffect(() => {
+    saveToStorage('slotBudgets', slotBudgets);
+  }, [slotBudgets]);
+
+  useEffect(() => {
+    saveToStorage('nutrientGoals', nutrientGoals);
+  }, [nutrientGoals]);
+
+  useEffect(() => {
+    if (currentDay) saveToStorage('currentDay', currentDay);
+  }, [currentDay]);
+
+  useEffect(() => {
+    saveToStorage('log', log);
+  }, [log]);
+
+  // Every total is derived from the log so it can never drift from the entries
+  const consumedCalories = useMemo(() => sumCalories(log), [log]);
+  const consumedMacros = useMemo(() => sumMacros(log), [log]);
+  const consumedNutrients = useMemo(() => sumNutrients(log), [log]);
+  const activeProfile = findProfile(selectedProfile, customProfiles);
+  // Goal and profile for a date once the schedule is applied to the base goal and selected profile
+  const getGoalForDate = (date: string) =>
+    getEffectiveGoal(date, goalSchedule, { dailyGoal, profileId: selectedProfile }, customProfiles);
+  const todaysGoal = currentDay ? getGoalForDate(currentDay.date) : { dailyGoal, profile: activeProfile, dayType: null };
+  // Maintenance calories from archived days only, as today's intake is still incomplete
+  const maintenanceEstimate = useMemo(
+    () => (currentDay ? estimateMaintenance(calorieHistory, weightLog, currentDay.date) : null),
+    [calorieHistory, weightLog, currentDay]
+  );
+  const macroGramTargets = getMacroGramTargets(todaysGoal.profile, todaysGoal.dailyGoal);
+  const pendingEntries = useMemo(() => log.filter(entry => entry.pending), [log]);
+  const todaySlotGroups = useMemo(() => groupEntriesBySlot(log, currentDay?.timeZone), [log, currentDay]);
+  // Ranked from the history days loaded so far plus today's log
+  const quickAddSuggestions = useMemo(
+    () => getQuickAddSuggestions([...calorieHistory, { mealLog: log, timeZone: currentDay?.timeZone }]),
+    [calorieHistory, log, currentDay]
+  );
+
+  // Archive finished days and start a new one. Kept in a ref so the timer below
+  // always sees the latest state without being rescheduled on every change.
+  const rolloverRef = useRef<() => void>(() => {});
+  rolloverRef.current = () => {
+    if (!currentDay) return;
+    const rollover = planRollover({
+      log,
+      exerciseLog,
+      waterLog,
+      currentDay,
+      dayStartHour,
+      goalForDate: getGoalForDate,
+    });
+    if (!rollover) return;
+    dispatchLog({ type: 'reset', log: rollover.remainingLog });
+    setExerciseLog(rollover.remainingExerciseLog);
+    setWaterLog(rollover.remainingWaterLog);
+    setCurrentDay(rollover.currentDay);
+    setEditingEntry(null);
+    mergeHistoryDays(rollover.archivedDays, mergeHistoryDay)
+      .then(writtenDays => {
+        setCalorieHistory(prevHistory => writtenDays.reduce(upsertHistoryDay, prevHistory));
+      })
+      .catch(err => {
+        console.error('Failed to archive finished days:', err);
+        setError('Failed to save yesterday to history.');
+      });
+  };
+
+  // Roll over at the start of each day, and whenever the tab comes back after sleeping
+  useEffect(() => {
+    let timerId: ReturnType<typeof setTimeout>;
+    const scheduleRollover = () => {
+      timerId = setTimeout(() => {
+        rolloverRef.current();
+        scheduleRollover();
+      }, getNextDayStart(dayStartHour) - Date.now());
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') rolloverRef.current();
+    };
+    scheduleRollover();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      clearTimeout(timerId);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
     };
+  }, [dayStartHour]);
 
-    const clearTimer = checkMidnight();
-    return clearTimer;
-  }, [consumedCalories, log, dailyGoal]);
+  // Today's figures for reminders, read when a notification fires. A ref for the same
+  // reason as rolloverRef: logging a meal shouldn't reschedule every reminder.
+  const reminderContextRef = useRef<ReminderContext>(null);
+  reminderContextRef.current = {
+    log,
+    consumedCalories,
+    dailyGoal: todaysGoal.dailyGoal,
+    consumedMacros,
+    macroTargets: macroGramTargets,
+    dayStartHour,
+  };
+
+  useEffect(() => {
+    if (notificationPermission !== 'granted') return;
+    return scheduleNotifications(reminderSettings, () => reminderContextRef.current, content => {
+      showLocalNotification(content).catch(err => console.error('Failed to show notification:', err));
+    });
+  }, [reminderSettings, notificationPermission]);
 
-  const parseNutritionFromResponse = (responseText: string): { calories: number; macros: MacroData } | null => {
-    console.log('OpenAI Response for parsing:', responseText);
+  const handleSignUp = async (username: string, password: string) => {
+    const user = await signUp(username, password);
+    setAccount(user);
     try {
-      // Try to parse as JSON first
-      const jsonData = JSON.parse(responseText.trim());
-      if (jsonData.calories !== undefined && jsonData.carbs !== undefined && 
-          jsonData.protein !== undefined && jsonData.fat !== undefined) {
-        return {
-          calories: parseInt(jsonData.calories) || 0,
-          macros: {
-            carbs: parseInt(jsonData.carbs) || 0,
-            protein: parseInt(jsonData.protein) || 0,
-            fat: parseInt(jsonData.fat) || 0
-          }
-        };
-      }
-    } catch (e) {
-      // Fallback for old format - just calories
-      const specificPattern = /(\d+)\s*(?:calories|kcal)/i;
-      const specificMatch = responseText.match(specificPattern);
-      if (specificMatch && specificMatch[1]) {
-        const calories = parseInt(specificMatch[1], 10);
-        return {
-          calories,
-          macros: { carbs: 0, protein: 0, fat: 0 } // Default to 0 if no macro data
-        };
-      }
-      const generalNumberPattern = /\b(\d+)\b/;
-      const generalMatch = responseText.match(generalNumberPattern);
-      if (generalMatch && generalMatch[1]) {
-        const potentialCalories = parseInt(generalMatch[1], 10);
-        if (potentialCalories > 0 && potentialCalories < 5000) {
-          return {
-            calories: potentialCalories,
-            macros: { carbs: 0, protein: 0, fat: 0 }
-          };
-        }
-      }
+      await uploadLocalData(user.username);
+    } catch (err) {
+      console.error('Failed to upload local data:', err);
+      setError("Your account was created, but this browser's data couldn't be uploaded yet. Intake will try again next time it opens.");
     }
-    console.warn('Could not parse nutrition data from response:', responseText);
-    return null;
+    startAccountSync(user.username);
   };
 
-  const handleMealSubmit = async (text: string, imageBase64?: string) => {
-    if (!OPENAI_API_KEY && !manualCalories) {
-      setError(
-        'OpenAI API key is not configured. Please set NEXT_PUBLIC_OPENAI_KEY in your .env.local file.'
-      );
-      setIsLoading(false);
+  const handleLogIn = async (username: string, password: string) => {
+    const user = await logIn(username, password);
+    await downloadAccountData(user.username);
+    window.location.reload();
+  };
+
+  const handleLogOut = async () => {
+    await pushPendingChanges();
+    await logOut();
+    stopAccountSync();
+    markSignedOut();
+    setAccount(null);
+  };
+
+  const handleRequestNotificationPermission = async () => {
+    try {
+      setNotificationPermission(await Notification.requestPermission());
+    } catch (err) {
+      console.error('Failed to request notification permission:', err);
+    }
+  };
+
+  // Estimate meals logged while offline, one at a time. Each resolved entry
+  // changes the log, which runs this again for the next one.
+  useEffect(() => {
+    if (!currentDay || isEstimatingPendingRef.current) return;
+    // Today's meals first, then any archived to a past day before they were estimated
+    const entry = getQueuedEntries(log)[0]
+      ?? calorieHistory.map(day => getQueuedEntries(day.mealLog)[0]).find(Boolean);
+    if (!entry || !navigator.onLine) return;
+    isEstimatingPendingRef.current = true;
+    estimatePendingEntry(entry)
+      .then(resolvedEntry => {
+        isEstimatingPendingRef.current = false;
+        resolvePendingRef.current(resolvedEntry);
+      })
+      .catch(err => {
+        isEstimatingPendingRef.current = false;
+        console.warn('Pending meal not estimated yet:', err);
+        const attempts = (pendingAttemptsRef.current.get(entry.id) ?? 0) + 1;
+        if (attempts >= MAX_PENDING_ATTEMPTS) {
+          pendingAttemptsRef.current.delete(entry.id);
+          resolvePendingRef.current(giveUpPendingEntry(entry));
+          return;
+        }
+        pendingAttemptsRef.current.set(entry.id, attempts);
+        setTimeout(() => setPendingRetryCount(count => count + 1), PENDING_RETRY_DELAY_MS);
+      });
+  }, [log, calorieHistory, currentDay, pendingRetryCount]);
+
+  // Put an updated pending entry back wherever it is now: today's log, or the history day
+  // a rollover archived it to while it waited. Read through a ref so an estimate that
+  // finishes after a rollover still finds it.
+  const resolvePendingRef = useRef<(entry: LogEntry) => void>(() => {});
+  resolvePendingRef.current = (resolvedEntry: LogEntry) => {
+    if (log.some(entry => entry.id === resolvedEntry.id)) {
+      dispatchLog({ type: 'resolve', entry: resolvedEntry });
       return;
     }
+    const day = calorieHistory.find(historyDay => historyDay.mealLog.some(entry => entry.id === resolvedEntry.id));
+    if (!day) return;
+    const mealLog = day.mealLog.map(entry => entry.id === resolvedEntry.id ? resolvedEntry : entry);
+    saveHistoryDay({ ...day, mealLog, totalCalories: sumCalories(mealLog) });
+    // Keeps undo steps for this day from bringing back the pending version
+    dispatchLog({ type: 'resolve', entry: resolvedEntry });
+  };
+
+  // Retry pending meals as soon as the connection comes back
+  useEffect(() => {
+    const handleOnline = () => setPendingRetryCount(count => count + 1);
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, []);
+
+  // Store a finished day in IndexedDB and merge it into the loaded history
+  const saveHistoryDay = (day: DailyHistoryEntry) => {
+    setCalorieHistory(prevHistory => upsertHistoryDay(prevHistory, day));
+    putHistoryDay(day).catch(err => {
+      console.error('Failed to save history day:', err);
+      setError('Failed to save history for ' + day.date + '.');
+    });
+  };
+
+  const handleLoadOlderHistory = async () => {
+    const oldestLoaded = calorieHistory[calorieHistory.length - 1];
+    if (!oldestLoaded) return;
+    setIsLoadingHistory(true);
+    try {
+      const { days, hasMore } = await loadHistoryPage(HISTORY_PAGE_SIZE, oldestLoaded.date);
+      setCalorieHistory(prevHistory => [...prevHistory, ...days]);
+      setHasMoreHistory(hasMore);
+    } catch (err) {
+      console.error('Failed to load older history:', err);
+      setError('Failed to load older history.');
+    }
+    setIsLoadingHistory(false);
+  };
+
+  const handleMealSubmit = async (text: string, imageBase64?: string) => {
     if (!text && !imageBase64) return;
     setIsLoading(true);
     setError(null);
@@ -475,7 +748,7 @@ export default function HomePage() {
       let entryText = text.trim();
       if (imageBase64 && !entryText) {
         setIsLoading(true);
-        const imageDescription = await generateMealDescriptionFromImage(imageBase64);
+        const imageDescription = await requestMealDescription(imageBase64);
         if (imageDescription) {
           entryText = imageDescription;
         } else {
@@ -489,9 +762,7 @@ export default function HomePage() {
         macros: { carbs: 0, protein: 0, fat: 0 }, // Manual entries default to 0 macros
         timestamp: DateTime.now().toMillis(),
       };
-      setLog(prevLog => [newEntry, ...prevLog]);
-      setConsumedCalories(prev => prev + caloriesNum);
-      // Manual entries don't have macro data, so no macro update needed
+      dispatchLog({ type: 'add', entry: newEntry });
       setIsLoading(false);
       setMealInput('');
       setManualCalories('');
@@ -501,83 +772,55 @@ export default function HomePage() {
       return;
     }
 
-    let promptContent: OpenAIPromptContent[] = [];
-    const systemMessage = "You are a nutrition estimation assistant. Your task is to estimate the calories and macros (carbohydrates, protein, fat) in the provided meal description or image. Respond with ONLY a JSON object in this exact format: {\"calories\": 350, \"carbs\": 45, \"protein\": 25, \"fat\": 8}. The numbers should represent grams for macros and total calories. If you cannot estimate, respond with {\"calories\": 0, \"carbs\": 0, \"protein\": 0, \"fat\": 0}.";
-    if (text) {
-      promptContent.push({ type: 'text', text: `Meal: ${text}` });
-    }
-    if (imageBase64) {
-      promptContent.push({
-        type: 'image_url',
-        image_url: { url: imageBase64 },
-      });
-      if (!text) {
-        promptContent.unshift({ type: 'text', text: "Estimate calories for the following image:"});
+    // No connection: keep the meal as a pending entry and estimate it later
+    if (!navigator.onLine) {
+      dispatchLog({ type: 'add', entry: createPendingEntry(text.trim(), imageBase64) });
+      setIsLoading(false);
+      setMealInput('');
+      setManualCalories('');
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
       }
+      return;
     }
+
     try {
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${OPENAI_API_KEY}`,
-        },
-        body: JSON.stringify({
-          model: 'gpt-4o',
-          messages: [
-            { role: 'system', content: systemMessage },
-            {
-              role: 'user',
-              content: promptContent,
-            },
-          ],
-          max_tokens: 50, 
-          temperature: 0.2,
-        }),
-      });
-      if (!response.ok) {
-        const errorData = await response.json();
-        console.error('OpenAI API Error:', errorData);
-        throw new Error(errorData.error?.message || 'Failed to fetch calorie estimate');
-      }
-      const data = await response.json();
-      const choice = data.choices?.[0]?.message?.content;
-      if (choice) {
-        const nutritionData = parseNutritionFromResponse(choice);
-        if (nutritionData !== null) {
-          let entryText = text.trim();
-          if (imageBase64 && !entryText) {
-            setIsLoading(true); 
-            const imageDescription = await generateMealDescriptionFromImage(imageBase64);
-            if (imageDescription) {
-              entryText = imageDescription;
-            } else {
-              entryText = 'Meal from image';
-            }
-          }
-          const newEntry: LogEntry = {
-            id: DateTime.now().toMillis().toString(),
-            text: entryText || (imageBase64 ? 'Meal from image' : 'Logged Meal'),
-            calories: nutritionData.calories,
-            macros: nutritionData.macros,
-            timestamp: DateTime.now().toMillis(),
-          };
-          setLog(prevLog => [newEntry, ...prevLog]);
-          setConsumedCalories(prev => prev + nutritionData.calories);
-          setConsumedMacros(prev => ({
-            carbs: prev.carbs + nutritionData.macros.carbs,
-            protein: prev.protein + nutritionData.macros.protein,
-            fat: prev.fat + nutritionData.macros.fat,
-          }));
+      const nutritionData = await requestNutritionEstimate(text, imageBase64);
+      let entryText = text.trim();
+      if (imageBase64 && !entryText) {
+        setIsLoading(true); 
+        const imageDescription = await requestMealDescription(imageBase64);
+        if (imageDescription) {
+          entryText = imageDescription;
         } else {
-          setError('Could not parse calorie estimate from response: ' + choice);
+          entryText = 'Meal from image';
         }
-      } else {
-        setError('No response content from OpenAI.');
       }
+      const newEntry: LogEntry = {
+        id: DateTime.now().toMillis().toString(),
+        text: entryText || (imageBase64 ? 'Meal from image' : 'Logged Meal'),
+        calories: nutritionData.calories,
+        macros: nutritionData.macros,
+        nutrients: nutritionData.nutrients,
+        timestamp: DateTime.now().toMillis(),
+        items: nutritionData.items,
+        confidence: nutritionData.confidence,
+      };
+      dispatchLog({ type: 'add', entry: newEntry });
     } catch (err) {
       console.error(err);
-      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      if (isTransientError(err)) {
+        dispatchLog({ type: 'add', entry: createPendingEntry(text.trim(), imageBase64) });
+      } else {
+        // Keep what was typed so it can be fixed and sent again. The file input is still
+        // reset, or picking the same photo again wouldn't trigger another upload.
+        setError(err instanceof Error ? err.message : 'An unknown error occurred');
+        setIsLoading(false);
+        if (fileInputRef.current) {
+          fileInputRef.current.value = '';
+        }
+        return;
+      }
     }
     setIsLoading(false);
     setMealInput('');
@@ -599,7 +842,20 @@ export default function HomePage() {
     if (file) {
       try {
         setIsLoading(true);
+        // Packaged food: read the barcode locally instead of asking the AI
+        const barcode = await detectBarcode(file).catch(err => {
+          console.warn('Barcode detection failed:', err);
+          return null;
+        });
         const base64String = await resizeImage(file, 512); // Resize before sending
+        if (barcode) {
+          setScannedPhoto({ barcode, image: base64String });
+          setIsLoading(false);
+          if (fileInputRef.current) {
+            fileInputRef.current.value = '';
+          }
+          return;
+        }
         handleMealSubmit(mealInput.trim(), base64String);
       } catch (err) {
         setError('Failed to process image.');
@@ -633,37 +889,140 @@ export default function HomePage() {
     }
   };
 
+  const handleApplyGoalProposal = (stats: BodyStats, goal: number, profileId: string) => {
+    setBodyStats(stats);
+    setDailyGoal(goal);
+    setDailyGoalInput(goal.toString());
+    setSelectedProfile(profileId);
+    setShowGoalWizard(false);
+  };
+
+  const handleLogWeight = (entry: WeightEntry) => {
+    setWeightLog(prevLog => upsertWeightEntry(prevLog, entry));
+  };
+
+  const handleDeleteWeight = (date: string) => {
+    setWeightLog(prevLog => prevLog.filter(entry => entry.date !== date));
+  };
+
+  const handleAddExercise = (fields: Omit<ExerciseEntry, 'id' | 'timestamp'>) => {
+    const entry: ExerciseEntry = {
+      id: 'exercise-' + Date.now().toString() + Math.random().toString(36).substr(2, 9),
+      timestamp: Date.now(),
+      ...fields,
+    };
+    setExerciseLog(prevLog => [...prevLog, entry]);
+  };
+
+  const handleDeleteExercise = (id: string) => {
+    setExerciseLog(prevLog => prevLog.filter(entry => entry.id !== id));
+  };
+
+  const handleAddWater = (amountMl: number) => {
+    const entry: WaterEntry = {
+      id: 'water-' + Date.now().toString() + Math.random().toString(36).substr(2, 9),
+      amountMl,
+      timestamp: Date.now(),
+    };
+    setWaterLog(prevLog => [...prevLog, entry]);
+  };
+
+  const handleUndoWater = () => {
+    setWaterLog(prevLog => prevLog.slice(0, -1));
+  };
+
+  const handleApplyAdaptiveGoal = (goal: number) => {
+    setDailyGoal(goal);
+    setDailyGoalInput(goal.toString());
+  };
+
+  // Percentages are capped so the budgets never add up to more than the whole goal
+  const handleSlotBudgetChange = (slot: MealSlot, value: string) => {
+    const percent = parseInt(value, 10);
+    setSlotBudgets(prevBudgets => {
+      const otherBudgets = { ...prevBudgets };
+      delete otherBudgets[slot];
+      if (isNaN(percent) || percent <= 0) return otherBudgets;
+      return { ...otherBudgets, [slot]: Math.min(percent, 100 - getBudgetedPercent(otherBudgets)) };
+    });
+  };
+
+  const handleNutrientGoalChange = (key: NutrientKey, amount: number | null) => {
+    setNutrientGoals(prevGoals => {
+      const goals = { ...prevGoals };
+      if (amount === null) delete goals[key];
+      else goals[key] = amount;
+      return goals;
+    });
+  };
+
+  const handleSaveProfile = (profile: MacroProfile) => {
+    setCustomProfiles(prevProfiles =>
+      prevProfiles.some(p => p.id === profile.id)
+        ? prevProfiles.map(p => (p.id === profile.id ? profile : p))
+        : [...prevProfiles, profile]
+    );
+    setSelectedProfile(profile.id);
+    setEditingProfileId(null);
+  };
+
+  // Days already archived keep their own copy of the profile, so deleting one only affects today
+  const handleDeleteProfile = (id: string) => {
+    setCustomProfiles(prevProfiles => prevProfiles.filter(profile => profile.id !== id));
+    if (selectedProfile === id) setSelectedProfile(DEFAULT_PROFILE_ID);
+  };
+
+  const handleAddFoodEntry = (entry: LogEntry) => {
+    dispatchLog({ type: 'add', entry });
+  };
+
+  const handleSaveCustomFood = (food: Food) => {
+    setCustomFoods(prevFoods => [food, ...prevFoods]);
+  };
+
+  const handleDeleteCustomFood = (id: string) => {
+    setCustomFoods(prevFoods => prevFoods.filter(food => food.id !== id));
+  };
+
+  const handleAddProductEntry = (entry: LogEntry) => {
+    dispatchLog({ type: 'add', entry });
+    setScannedPhoto(null);
+    setMealInput('');
+  };
+
+  const handleSaveCustomProduct = (product: Product) => {
+    setCustomProducts(prevProducts => [product, ...prevProducts.filter(p => p.barcode !== product.barcode)]);
+  };
+
+  // The barcode was wrong or the user prefers an estimate: run the normal AI flow on the photo
+  const handleEstimateScannedPhoto = () => {
+    if (!scannedPhoto) return;
+    const { image } = scannedPhoto;
+    setScannedPhoto(null);
+    handleMealSubmit(mealInput.trim(), image);
+  };
+
+  // Saving bumps the recipe's version; entries already logged keep their own copy of the nutrition
+  const handleSaveRecipe = (previous: Recipe | null, fields: Pick<Recipe, 'name' | 'ingredients' | 'servings'>) => {
+    const recipe = saveRecipeVersion(previous, fields);
+    setRecipes(prevRecipes => [recipe, ...prevRecipes.filter(r => r.id !== recipe.id)]);
+  };
+
+  const handleDeleteRecipe = (id: string) => {
+    setRecipes(prevRecipes => prevRecipes.filter(recipe => recipe.id !== id));
+  };
+
   const handleDeleteLogEntry = (entryId: string) => {
-    const entryToDelete = log.find(entry => entry.id === entryId);
-    if (entryToDelete) {
-      setConsumedCalories(prevCalories => prevCalories - entryToDelete.calories);
-      setConsumedMacros(prev => ({
-        carbs: prev.carbs - entryToDelete.macros.carbs,
-        protein: prev.protein - entryToDelete.macros.protein,
-        fat: prev.fat - entryToDelete.macros.fat,
-      }));
-      setLog(prevLog => prevLog.filter(entry => entry.id !== entryId));
-    }
+    dispatchLog({ type: 'delete', id: entryId });
   };
 
   const handleDuplicateLogEntry = (entryId: string) => {
-    const entryToDuplicate = log.find(entry => entry.id === entryId);
-    if (entryToDuplicate) {
-      const newEntry: LogEntry = {
-        id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
-        text: entryToDuplicate.text,
-        calories: entryToDuplicate.calories,
-        macros: entryToDuplicate.macros,
-        timestamp: Date.now(),
-      };
-      setLog(prevLog => [...prevLog, newEntry]);
-      setConsumedCalories(prevCalories => prevCalories + newEntry.calories);
-      setConsumedMacros(prev => ({
-        carbs: prev.carbs + newEntry.macros.carbs,
-        protein: prev.protein + newEntry.macros.protein,
-        fat: prev.fat + newEntry.macros.fat,
-      }));
-    }
+    dispatchLog({
+      type: 'duplicate',
+      id: entryId,
+      newId: Date.now().toString() + Math.random().toString(36).substr(2, 9),
+      timestamp: Date.now(),
+    });
   };
 
   const handleDuplicateFromHistory = (entry: LogEntry) => {
@@ -672,18 +1031,233 @@ export default function HomePage() {
       text: entry.text,
       calories: entry.calories,
       macros: entry.macros,
+      nutrients: entry.nutrients,
       timestamp: Date.now(),
+      items: entry.items,
+      confidence: entry.confidence,
+      recipe: entry.recipe,
+    };
+    dispatchLog({ type: 'add', entry: newEntry });
+  };
+
+  const handleQuickAdd = (suggestion: QuickAddSuggestion) => {
+    handleDuplicateFromHistory(suggestion.entry);
+  };
+
+  // Put a pending meal that failed back in the queue
+  const handleRetryPendingEntry = (entry: LogEntry) => {
+    if (!entry.pending) return;
+    resolvePendingRef.current({ ...entry, pending: { ...entry.pending, error: undefined } });
+  };
+
+  const handleUpdateLogEntry = (updatedEntry: LogEntry) => {
+    dispatchLog({ type: 'edit', entry: updatedEntry });
+    setEditingEntry(null);
+  };
+
+  // Undo and redo cover edits to finished days too; those days are written back here
+  const handleUndo = () => {
+    const step = undoSteps[undoSteps.length - 1];
+    if (step?.action.type === 'editHistoryDay') saveHistoryDay(step.action.before);
+    dispatchLog({ type: 'undo' });
+  };
+
+  const handleRedo = () => {
+    const step = redoSteps[0];
+    if (step?.action.type === 'editHistoryDay') saveHistoryDay(step.action.after);
+    dispatchLog({ type: 'redo' });
+  };
+
+  // Edit an entry in a past day, or backfill a new one, and recompute that day's total
+  const handleSaveHistoryEntry = (date: string, savedEntry: LogEntry) => {
+    const day = calorieHistory.find(historyDay => historyDay.date === date);
+    if (!day) return;
+    const isExisting = day.mealLog.some(entry => entry.id === savedEntry.id);
+    const mealLog = isExisting
+      ? day.mealLog.map(entry => entry.id === savedEntry.id ? savedEntry : entry)
+      : [...day.mealLog, savedEntry];
+    const updatedDay = { ...day, mealLog, totalCalories: sumCalories(mealLog) };
+    dispatchLog({ type: 'editHistoryDay', entry: savedEntry, isNew: !isExisting, before: day, after: updatedDay });
+    saveHistoryDay(updatedDay);
+    setEditingEntry(null);
+    setAddingToHistoryDate(null);
+  };
+
+  // Today's log in the same shape as a finished history day
+  const getTodayAsHistoryEntry = (): DailyHistoryEntry => {
+    const today = currentDay ?? getCurrentDay(dayStartHour);
+    return {
+      date: today.date,
+      totalCalories: consumedCalories,
+      mealLog: log,
+      exerciseLog,
+      waterLog,
+      dailyGoalAtTheTime: todaysGoal.dailyGoal,
+      profileAtTheTime: todaysGoal.profile,
+      timeZone: today.timeZone,
     };
-    setLog(prevLog => [...prevLog, newEntry]);
-    setConsumedCalories(prevCalories => prevCalories + newEntry.calories);
-    setConsumedMacros(prev => ({
-      carbs: prev.carbs + newEntry.macros.carbs,
-      protein: prev.protein + newEntry.macros.protein,
-      fat: prev.fat + newEntry.macros.fat,
-    }));
   };
 
-  const progressPercentage = Math.min((consumedCalories / dailyGoal) * 100, 100);
+  // Analytics ranges can reach past the loaded pages, so they read history directly.
+  // Recreated when loaded history changes so the dashboard picks up edits.
+  const loadAnalyticsDays = useCallback(async (range: DateRange): Promise<DailyHistoryEntry[]> => {
+    try {
+      return await loadHistoryRange(range.from, range.to);
+    } catch (err) {
+      console.error('Failed to read history range, using loaded days only:', err);
+      return calorieHistory.filter(day => day.date >= range.from && day.date <= range.to);
+    }
+  }, [calorieHistory]);
+
+  // Exports need every day, not just the pages loaded in the history panel
+  const loadHistoryForExport = async (): Promise<DailyHistoryEntry[]> => {
+    try {
+      return await loadAllHistory();
+    } catch (err) {
+      console.error('Failed to read full history, exporting loaded days only:', err);
+      return calorieHistory;
+    }
+  };
+
+  const handleExportBackup = async () => {
+    const backup = createBackup({
+      dailyGoal,
+      selectedProfile,
+      customProfiles,
+      bodyStats,
+      goalSchedule,
+      weightLog,
+      slotBudgets,
+      nutrientGoals,
+      dayStartHour,
+      log,
+      exerciseLog,
+      addExerciseToBudget,
+      waterLog,
+      waterGoalMl,
+      volumeUnit,
+      reminderSettings,
+      calorieHistory: await loadHistoryForExport(),
+      customFoods,
+      customProducts,
+      recipes,
+    });
+    downloadFile(
+      `intake-backup-${DateTime.now().toFormat('yyyy-MM-dd')}.json`,
+      JSON.stringify(backup, null, 2),
+      'application/json'
+    );
+  };
+
+  const handleExportCsv = async (kind: 'entries' | 'totals') => {
+    const days = [getTodayAsHistoryEntry(), ...(await loadHistoryForExport())];
+    const csv = kind === 'entries' ? historyToEntriesCsv(days) : historyToDailyTotalsCsv(days);
+    downloadFile(`intake-${kind}-${DateTime.now().toFormat('yyyy-MM-dd')}.csv`, csv, 'text/csv');
+  };
+
+  const handleBackupFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      setPendingBackup(parseBackup(await file.text()));
+      setError(null);
+    } catch (err) {
+      console.error('Failed to read backup:', err);
+      setPendingBackup(null);
+      setError(err instanceof BackupError ? err.message : 'Failed to read backup file.');
+    }
+  };
+
+  const handleRestoreBackup = async (mode: RestoreMode) => {
+    if (!pendingBackup) return;
+    setIsRestoring(true);
+    const backup = pendingBackup;
+    const isReplace = mode === 'replace';
+    let restoredLog = isReplace ? backup.log : mergeLogs(log, backup.log);
+    let restoredExerciseLog = isReplace ? backup.exerciseLog : mergeExerciseLogs(exerciseLog, backup.exerciseLog);
+    let restoredWaterLog = isReplace ? backup.waterLog : mergeWaterLogs(waterLog, backup.waterLog);
+    let restoredDays = backup.calorieHistory;
+    // The backup's open day may be long over: its entries go to the days they belong to
+    const rollover = planRestoredRollover({
+      log: restoredLog,
+      exerciseLog: restoredExerciseLog,
+      waterLog: restoredWaterLog,
+      dayStartHour: isReplace ? backup.dayStartHour : dayStartHour,
+      goalForDate: isReplace
+        ? (date: string) => getEffectiveGoal(
+          date,
+          backup.goalSchedule,
+          { dailyGoal: backup.dailyGoal, profileId: backup.selectedProfile },
+          backup.customProfiles
+        )
+        : getGoalForDate,
+    });
+    if (rollover) {
+      restoredDays = mergeHistoryDayLists(restoredDays, rollover.archivedDays);
+      restoredLog = rollover.remainingLog;
+      restoredExerciseLog = rollover.remainingExerciseLog;
+      restoredWaterLog = rollover.remainingWaterLog;
+    }
+
+    // History is written in a single transaction before any state changes, so a failure leaves everything as it was
+    try {
+      if (isReplace) {
+        await replaceAllHistory(restoredDays);
+      } else {
+        await mergeHistoryDays(restoredDays, mergeHistoryDay);
+      }
+    } catch (err) {
+      console.error('Failed to restore backup:', err);
+      setError('Failed to restore backup. Your existing data was not changed.');
+      setIsRestoring(false);
+      return;
+    }
+
+    if (isReplace) {
+      setDailyGoal(backup.dailyGoal);
+      setDailyGoalInput(backup.dailyGoal.toString());
+      setSelectedProfile(backup.selectedProfile);
+      setCustomProfiles(backup.customProfiles);
+      setBodyStats(backup.bodyStats);
+      setGoalSchedule(backup.goalSchedule);
+      setWeightLog(backup.weightLog);
+      setAddExerciseToBudget(backup.addExerciseToBudget);
+      setWaterGoalMl(backup.waterGoalMl);
+      setVolumeUnit(backup.volumeUnit);
+      setReminderSettings(backup.reminderSettings);
+      setSlotBudgets(backup.slotBudgets);
+      setNutrientGoals(backup.nutrientGoals);
+      setDayStartHour(backup.dayStartHour);
+      setCustomFoods(backup.customFoods);
+      setCustomProducts(backup.customProducts);
+      setRecipes(backup.recipes);
+    } else {
+      setCustomFoods(prevFoods => mergeCustomFoods(prevFoods, backup.customFoods));
+      setCustomProducts(prevProducts => mergeCustomProducts(prevProducts, backup.customProducts));
+      setRecipes(prevRecipes => mergeRecipes(prevRecipes, backup.recipes));
+      setCustomProfiles(prevProfiles => mergeCustomProfiles(prevProfiles, backup.customProfiles));
+      setWeightLog(prevLog => mergeWeightLog(prevLog, backup.weightLog));
+    }
+    dispatchLog({ type: 'reset', log: restoredLog });
+    setExerciseLog(restoredExerciseLog);
+    setWaterLog(restoredWaterLog);
+    setPendingBackup(null);
+
+    try {
+      const { days, hasMore } = await loadHistoryPage();
+      setCalorieHistory(days);
+      setHasMoreHistory(hasMore);
+    } catch (err) {
+      console.error('Failed to reload history after restore:', err);
+      setError('Backup restored, but the history list could not be refreshed. Reload the page to see it.');
+    }
+    setIsRestoring(false);
+  };
+
+  const burnedCalories = sumExerciseCalories(exerciseLog);
+  const dailyBudget = getDailyBudget(todaysGoal.dailyGoal, burnedCalories, addExerciseToBudget);
+  const progressPercentage = Math.min((consumedCalories / dailyBudget) * 100, 100);
 
   // Calculate macro percentages based on consumed calories
   const getMacroPercentages = () => {
@@ -704,19 +1278,7 @@ export default function HomePage() {
   const macroPercentages = getMacroPercentages();
 
   // Get the ideal macro percentages for the selected profile
-  const getIdealMacroPercentages = () => PROFILE_MACRO_PERCENTAGES[selectedProfile];
-
-  // Calculate total macros for a day's meals
-  const getDayMacros = (mealLog: LogEntry[]): MacroData => {
-    return mealLog.filter(entry => entry.text !== 'Daily Reset for new day').reduce(
-      (totals, entry) => ({
-        carbs: totals.carbs + entry.macros.carbs,
-        protein: totals.protein + entry.macros.protein,
-        fat: totals.fat + entry.macros.fat,
-      }),
-      { carbs: 0, protein: 0, fat: 0 }
-    );
-  };
+  const getIdealMacroPercentages = () => getMacroPercentTargets(todaysGoal.profile, todaysGoal.dailyGoal);
 
   // Calculate macro percentages for a specific day
   const getDayMacroPercentages = (totalCalories: number, macros: MacroData) => {
@@ -752,23 +1314,78 @@ export default function HomePage() {
             <p className="text-slate-600 text-sm ml-1">kcal</p>
           </div>
         </div>
+        {todaysGoal.dayType && (
+          <p className="text-right text-xs text-slate-500 mt-1">
+            Today: {todaysGoal.dayType.name}, {todaysGoal.dailyGoal} kcal
+          </p>
+        )}
+        {!showGoalWizard && (
+          <div className="flex justify-end mt-1">
+            <button
+              onClick={() => setShowGoalWizard(true)}
+              className="text-xs font-medium text-cyan-700 hover:text-cyan-900"
+            >
+              {bodyStats ? 'Recalculate goal' : 'Calculate my goal'}
+            </button>
+          </div>
+        )}
       </header>
 
+      {showGoalWizard && (
+        <GoalWizard
+          bodyStats={bodyStats}
+          customProfiles={customProfiles}
+          onApply={handleApplyGoalProposal}
+          onCancel={() => setShowGoalWizard(false)}
+        />
+      )}
+
       <div className="w-full mb-6">
         <div className="flex justify-between text-sm text-slate-600 mb-1.5">
           <span>{consumedCalories} kcal consumed</span>
-          <span>{Math.max(0, dailyGoal - consumedCalories)} kcal remaining</span>
+          <span>
+            {Math.max(0, dailyBudget - consumedCalories)} kcal remaining
+            {addExerciseToBudget && burnedCalories > 0 && (
+              <span className="text-xs text-slate-400"> (incl. {burnedCalories} burned)</span>
+            )}
+          </span>
         </div>
-        <div className="w-full bg-slate-200 rounded-full h-5 shadow-inner overflow-hidden">
+        <div className="w-full bg-slate-200 rounded-full h-5 shadow-inner overflow-hidden flex">
           <div
             className="bg-cyan-500 h-full rounded-full transition-all duration-500 ease-out text-xs font-medium text-white flex items-center justify-center"
             style={{ width: `${progressPercentage}%` }}
           >
             {progressPercentage > 5 ? `${progressPercentage.toFixed(0)}%` : ''}
           </div>
+          {pendingEntries.length > 0 && progressPercentage < 100 && (
+            // Pending calories are unknown, so this striped segment only marks that more is coming
+            <div
+              className="h-full bg-[repeating-linear-gradient(45deg,#fbbf24_0,#fbbf24_4px,#fde68a_4px,#fde68a_8px)] animate-pulse"
+              style={{ width: `${Math.min(pendingEntries.length * 5, 100 - progressPercentage)}%` }}
+              title="Calories still pending"
+            />
+          )}
         </div>
+        {pendingEntries.length > 0 && (
+          <p className="text-xs text-amber-700 mt-1.5">
+            {pendingEntries.length} {pendingEntries.length === 1 ? 'meal' : 'meals'} pending estimation, not yet counted above
+          </p>
+        )}
       </div>
 
+      <HydrationTracker
+        waterMl={sumWaterMl(waterLog)}
+        drinksMl={getMealHydrationMl(log)}
+        goalMl={waterGoalMl}
+        unit={volumeUnit}
+        onAddWater={handleAddWater}
+        onUndoWater={waterLog.length > 0 ? handleUndoWater : undefined}
+        onChangeGoal={setWaterGoalMl}
+        onChangeUnit={setVolumeUnit}
+      />
+
+      <QuickAddSuggestions suggestions={quickAddSuggestions} onAdd={handleQuickAdd} disabled={isLoading} />
+
       <form onSubmit={handleTextSubmit} className="w-full mb-5 space-y-3">
         <textarea
           rows={2}
@@ -833,6 +1450,85 @@ export default function HomePage() {
         />
       </div>
 
+      {/* Saved Recipes */}
+      <div className="w-full mb-4">
+        <button
+          onClick={() => setShowRecipes(!showRecipes)}
+          className="text-sm font-medium text-cyan-700 hover:text-cyan-900"
+        >
+          {showRecipes ? 'Hide recipes' : `Recipes${recipes.length > 0 ? ` (${recipes.length})` : ''}`}
+        </button>
+        {showRecipes && (
+          <div className="mt-2 p-3 bg-slate-100 rounded-lg">
+            <RecipesPanel
+              recipes={recipes}
+              customFoods={customFoods}
+              onSaveCustomFood={handleSaveCustomFood}
+              onDeleteCustomFood={handleDeleteCustomFood}
+              onSaveRecipe={handleSaveRecipe}
+              onDeleteRecipe={handleDeleteRecipe}
+              onAddEntry={handleAddFoodEntry}
+            />
+          </div>
+        )}
+      </div>
+
+      {scannedPhoto && (
+        <div className="w-full mb-4">
+          <BarcodeProductPanel
+            key={scannedPhoto.barcode}
+            barcode={scannedPhoto.barcode}
+            customProducts={customProducts}
+            onAddEntry={handleAddProductEntry}
+            onSaveProduct={handleSaveCustomProduct}
+            onUseAi={handleEstimateScannedPhoto}
+            onCancel={() => setScannedPhoto(null)}
+          />
+        </div>
+      )}
+
+      {/* Food Database Search */}
+      <div className="w-full mb-4">
+        <button
+          onClick={() => setShowFoodSearch(!showFoodSearch)}
+          className="text-sm font-medium text-cyan-700 hover:text-cyan-900"
+        >
+          {showFoodSearch ? 'Hide food search' : 'Pick from food database (no AI)'}
+        </button>
+        {showFoodSearch && (
+          <div className="mt-2 p-3 bg-slate-100 rounded-lg">
+            <FoodSearch
+              customFoods={customFoods}
+              onAddEntry={handleAddFoodEntry}
+              onSaveCustomFood={handleSaveCustomFood}
+              onDeleteCustomFood={handleDeleteCustomFood}
+            />
+          </div>
+        )}
+      </div>
+
+      {storageIssues.length > 0 && (
+        <div className="w-full p-3 mb-4 text-sm text-amber-800 bg-amber-50 rounded-lg border border-amber-300 shadow" role="alert">
+          <div className="flex justify-between items-start">
+            <span className="font-semibold">Some saved data could not be loaded</span>
+            <button
+              onClick={() => setStorageIssues([])}
+              className="text-amber-700 hover:text-amber-900 text-xs font-medium"
+            >
+              Dismiss
+            </button>
+          </div>
+          <ul className="mt-1 list-disc pl-5 text-xs">
+            {storageIssues.map((issue, index) => (
+              <li key={`${issue.key}-${index}`}>
+                <code>{issue.key}</code>: {issue.message}
+                {issue.quarantineKey && <> Original kept as <code>{issue.quarantineKey}</code>.</>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {error && (
         <div className="w-full p-3 mb-4 text-sm text-red-700 bg-red-100 rounded-lg border border-red-300 shadow" role="alert">
           <span className="font-semibold">Error:</span> {error}
@@ -844,20 +1540,22 @@ export default function HomePage() {
         <div className="flex justify-between items-center mb-3">
           <h3 className="text-lg font-semibold text-slate-700">Macros</h3>
           <span className="text-sm font-medium text-cyan-600 bg-cyan-50 px-2 py-1 rounded-md">
-            {selectedProfile}
+            {todaysGoal.profile.name}
           </span>
         </div>
         <div className="space-y-3">
           {/* Carbohydrates */}
           <div>
             <div className="flex justify-between text-sm text-slate-600 mb-1">
-              <span>Carbs ({consumedMacros.carbs}g)</span>
+              <span>
+                Carbs ({consumedMacros.carbs}g of {macroGramTargets.carbs}g, {Math.max(0, macroGramTargets.carbs - consumedMacros.carbs)}g left)
+              </span>
               <span>{macroPercentages.carbs}% (ideal: {getIdealMacroPercentages().carbs}%)</span>
             </div>
             <div className="w-full bg-slate-200 rounded-full h-3 shadow-inner overflow-hidden">
               <div
                 className="bg-green-500 h-full rounded-full transition-all duration-500 ease-out"
-                style={{ width: `${Math.min((macroPercentages.carbs / getIdealMacroPercentages().carbs) * 100, 100)}%` }}
+                style={{ width: `${macroGramTargets.carbs > 0 ? Math.min((consumedMacros.carbs / macroGramTargets.carbs) * 100, 100) : 0}%` }}
               />
             </div>
           </div>
@@ -865,13 +1563,15 @@ export default function HomePage() {
           {/* Protein */}
           <div>
             <div className="flex justify-between text-sm text-slate-600 mb-1">
-              <span>Protein ({consumedMacros.protein}g)</span>
+              <span>
+                Protein ({consumedMacros.protein}g of {macroGramTargets.protein}g, {Math.max(0, macroGramTargets.protein - consumedMacros.protein)}g left)
+              </span>
               <span>{macroPercentages.protein}% (ideal: {getIdealMacroPercentages().protein}%)</span>
             </div>
             <div className="w-full bg-slate-200 rounded-full h-3 shadow-inner overflow-hidden">
               <div
                 className="bg-red-500 h-full rounded-full transition-all duration-500 ease-out"
-                style={{ width: `${Math.min((macroPercentages.protein / getIdealMacroPercentages().protein) * 100, 100)}%` }}
+                style={{ width: `${macroGramTargets.protein > 0 ? Math.min((consumedMacros.protein / macroGramTargets.protein) * 100, 100) : 0}%` }}
               />
             </div>
           </div>
@@ -879,73 +1579,179 @@ export default function HomePage() {
           {/* Fat */}
           <div>
             <div className="flex justify-between text-sm text-slate-600 mb-1">
-              <span>Fat ({consumedMacros.fat}g)</span>
+              <span>
+                Fat ({consumedMacros.fat}g of {macroGramTargets.fat}g, {Math.max(0, macroGramTargets.fat - consumedMacros.fat)}g left)
+              </span>
               <span>{macroPercentages.fat}% (ideal: {getIdealMacroPercentages().fat}%)</span>
             </div>
             <div className="w-full bg-slate-200 rounded-full h-3 shadow-inner overflow-hidden">
               <div
                 className="bg-yellow-500 h-full rounded-full transition-all duration-500 ease-out"
-                style={{ width: `${Math.min((macroPercentages.fat / getIdealMacroPercentages().fat) * 100, 100)}%` }}
+                style={{ width: `${macroGramTargets.fat > 0 ? Math.min((consumedMacros.fat / macroGramTargets.fat) * 100, 100) : 0}%` }}
               />
             </div>
           </div>
         </div>
       </div>
 
+      <NutrientsPanel totals={consumedNutrients} goals={nutrientGoals} onChangeGoal={handleNutrientGoalChange} />
+
       <div className="w-full mb-10">
-        <h2 className="text-3xl font-semibold text-slate-700 mb-5">Today&apos;s Log</h2>
-        {log.length === 0 || log.every(entry => entry.text === 'Daily Reset for new day') && !isLoading ? (
+        <div className="flex justify-between items-center mb-5">
+          <h2 className="text-3xl font-semibold text-slate-700">Today&apos;s Log</h2>
+          <div className="flex items-center space-x-1">
+            <button
+              onClick={handleUndo}
+              disabled={undoSteps.length === 0}
+              className="px-2.5 py-1.5 text-xs font-medium text-slate-600 bg-slate-100 rounded-md hover:bg-slate-200 disabled:opacity-40 disabled:cursor-not-allowed"
+              title={undoSteps.length > 0 ? `Undo ${describeLogEdit(undoSteps[undoSteps.length - 1])}` : 'Nothing to undo'}
+            >
+              Undo
+            </button>
+            <button
+              onClick={handleRedo}
+              disabled={redoSteps.length === 0}
+              className="px-2.5 py-1.5 text-xs font-medium text-slate-600 bg-slate-100 rounded-md hover:bg-slate-200 disabled:opacity-40 disabled:cursor-not-allowed"
+              title={redoSteps.length > 0 ? `Redo ${describeLogEdit(redoSteps[0])}` : 'Nothing to redo'}
+            >
+              Redo
+            </button>
+          </div>
+        </div>
+        {log.length === 0 && !isLoading ? (
           <p className="text-slate-500 text-center py-6">No meals logged yet for today.</p>
         ) : (
-          <ul className="space-y-3.5">
-            {log.filter(entry => entry.text !== 'Daily Reset for new day').map((entry) => (
-              <li key={entry.id} className="p-4 bg-white rounded-xl shadow-lg transition-shadow hover:shadow-xl">
-                <div className="flex justify-between items-start mb-2">
-                  <div className="flex-grow mr-3">
-                    <p className="font-medium text-slate-800 text-lg">{entry.text}</p>
-                    <p className="text-xs text-slate-500">{new Date(entry.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</p>
-                  </div>
-                  <div className="flex items-center space-x-3">
-                    <span className="font-semibold text-lg text-cyan-600">{entry.calories} kcal</span>
-                    <div className="flex items-center space-x-1">
-                      <button 
-                        onClick={() => handleDuplicateLogEntry(entry.id)}
-                        className="p-1.5 text-blue-500 hover:text-blue-700 hover:bg-blue-100 rounded-full transition-colors duration-150"
-                        aria-label="Duplicate meal entry"
-                      >
-                        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
-                          <path strokeLinecap="round" strokeLinejoin="round" d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0 3.181 3.183a8.25 8.25 0 0 0 13.803-3.7M4.031 9.865a8.25 8.25 0 0 1 13.803-3.7l3.181 3.182m0-4.991v4.99" />
-                        </svg>
-                      </button>
-                      <button 
-                        onClick={() => handleDeleteLogEntry(entry.id)}
-                        className="p-1.5 text-red-500 hover:text-red-700 hover:bg-red-100 rounded-full transition-colors duration-150"
-                        aria-label="Delete meal entry"
-                      >
-                        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
-                          <path strokeLinecap="round" strokeLinejoin="round" d="M6 18 18 6M6 6l12 12" />
-                        </svg>
-                      </button>
-                    </div>
+          <div className="space-y-5">
+            {todaySlotGroups.map((group) => {
+              const budget = getSlotBudget(group.slot, slotBudgets, todaysGoal.dailyGoal);
+              return (
+                <section key={group.slot}>
+                  <div className="flex justify-between items-baseline mb-2 px-1">
+                    <h3 className="text-lg font-semibold text-slate-600">{MEAL_SLOT_LABELS[group.slot]}</h3>
+                    <span className={`text-sm ${budget !== null && group.calories > budget ? 'text-red-600' : 'text-slate-500'}`}>
+                      {group.calories}{budget !== null && ` / ${budget}`} kcal
+                    </span>
                   </div>
-                </div>
-                                {/* Macro information */}
-                {(entry.macros.carbs > 0 || entry.macros.protein > 0 || entry.macros.fat > 0) && (
-                  <div className="flex justify-between text-xs text-slate-500 mt-2 pt-2 border-t border-slate-100">
-                    <span>C: {entry.macros.carbs}g ({Math.round((entry.macros.carbs * 4 / entry.calories) * 100)}%)</span>
-                    <span>P: {entry.macros.protein}g ({Math.round((entry.macros.protein * 4 / entry.calories) * 100)}%)</span>
-                    <span>F: {entry.macros.fat}g ({Math.round((entry.macros.fat * 9 / entry.calories) * 100)}%)</span>
-                  </div>
-                )}
-              </li>
-            ))}
-          </ul>
+                  <ul className="space-y-3.5">
+                    {group.entries.map((entry) => (
+                      <li key={entry.id} className="p-4 bg-white rounded-xl shadow-lg transition-shadow hover:shadow-xl">
+                        {editingEntry?.date === 'today' && editingEntry.id === entry.id ? (
+                          <LogEntryEditor
+                            entry={entry}
+                            date={(currentDay ?? getCurrentDay(dayStartHour)).date}
+                            dayStartHour={dayStartHour}
+                            timeZone={currentDay?.timeZone}
+                            onSave={handleUpdateLogEntry}
+                            onCancel={() => setEditingEntry(null)}
+                          />
+                        ) : (
+                          <>
+                            <div className="flex justify-between items-start mb-2">
+                              <div className="flex-grow mr-3">
+                                <p className="font-medium text-slate-800 text-lg">{entry.text}</p>
+                                <p className="text-xs text-slate-500">{formatEntryTime(entry.timestamp, currentDay?.timeZone)}</p>
+                                {entry.confidence && <EstimateConfidenceNote confidence={entry.confidence} />}
+                                {entry.pending && (
+                                  <PendingEstimateNote pending={entry.pending} onRetry={() => handleRetryPendingEntry(entry)} />
+                                )}
+                              </div>
+                              <div className="flex items-center space-x-3">
+                                <span className="font-semibold text-lg text-cyan-600">{entry.calories} kcal</span>
+                                <div className="flex items-center space-x-1">
+                                  <button 
+                                    onClick={() => setEditingEntry({ date: 'today', id: entry.id })}
+                                    className="p-1.5 text-slate-500 hover:text-slate-700 hover:bg-slate-100 rounded-full transition-colors duration-150"
+                                    aria-label="Edit meal entry"
+                                  >
+                                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
+                                      <path strokeLinecap="round" strokeLinejoin="round" d="m16.862 4.487 1.687-1.688a1.875 1.875 0 1 1 2.652 2.652L10.582 16.07a4.5 4.5 0 0 1-1.897 1.13L6 18l.8-2.685a4.5 4.5 0 0 1 1.13-1.897l8.932-8.931Zm0 0L19.5 7.125M18 14v4.75A2.25 2.25 0 0 1 15.75 21H5.25A2.25 2.25 0 0 1 3 18.75V8.25A2.25 2.25 0 0 1 5.25 6H10" />
+                                    </svg>
+                                  </button>
+                                  <button 
+                                    onClick={() => handleDuplicateLogEntry(entry.id)}
+                                    className="p-1.5 text-blue-500 hover:text-blue-700 hover:bg-blue-100 rounded-full transition-colors duration-150"
+                                    aria-label="Duplicate meal entry"
+                                  >
+                                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
+                                      <path strokeLinecap="round" strokeLinejoin="round" d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0 3.181 3.183a8.25 8.25 0 0 0 13.803-3.7M4.031 9.865a8.25 8.25 0 0 1 13.803-3.7l3.181 3.182m0-4.991v4.99" />
+                                    </svg>
+                                  </button>
+                                  <button 
+                                    onClick={() => handleDeleteLogEntry(entry.id)}
+                                    className="p-1.5 text-red-500 hover:text-red-700 hover:bg-red-100 rounded-full transition-colors duration-150"
+                                    aria-label="Delete meal entry"
+                                  >
+                                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
+                                      <path strokeLinecap="round" strokeLinejoin="round" d="M6 18 18 6M6 6l12 12" />
+                                    </svg>
+                                  </button>
+                                </div>
+                              </div>
+                            </div>
+                            {/* Macro information */}
+                            {(entry.macros.carbs > 0 || entry.macros.protein > 0 || entry.macros.fat > 0) && (
+                              <div className="flex justify-between text-xs text-slate-500 mt-2 pt-2 border-t border-slate-100">
+                                <span>C: {entry.macros.carbs}g ({Math.round((entry.macros.carbs * 4 / entry.calories) * 100)}%)</span>
+                                <span>P: {entry.macros.protein}g ({Math.round((entry.macros.protein * 4 / entry.calories) * 100)}%)</span>
+                                <span>F: {entry.macros.fat}g ({Math.round((entry.macros.fat * 9 / entry.calories) * 100)}%)</span>
+                              </div>
+                            )}
+                            {entry.items && entry.items.length > 0 && (
+                              <MealItemList items={entry.items} className="mt-2 pt-2 border-t border-slate-100" />
+                            )}
+                          </>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+              );
+            })}
+          </div>
         )}
          {isLoading && log.length === 0 && (
             <p className="text-slate-500 text-center py-4">Loading first entry...</p>
         )}
       </div>
 
+      {currentDay && (
+        <ExerciseLogPanel
+          exerciseLog={exerciseLog}
+          weightKg={getLatestWeightKg(weightLog) ?? bodyStats?.weightKg ?? null}
+          timeZone={currentDay.timeZone}
+          addExerciseToBudget={addExerciseToBudget}
+          onAddExercise={handleAddExercise}
+          onDeleteExercise={handleDeleteExercise}
+        />
+      )}
+
+      {currentDay && (
+        <WeightLogPanel
+          weightLog={weightLog}
+          today={currentDay.date}
+          estimate={maintenanceEstimate}
+          suggestedGoal={maintenanceEstimate ? suggestAdaptiveGoal(maintenanceEstimate, dailyGoal, bodyStats) : null}
+          onLogWeight={handleLogWeight}
+          onDeleteWeight={handleDeleteWeight}
+          onApplyGoal={handleApplyAdaptiveGoal}
+        />
+      )}
+
+      <div className="w-full mb-5">
+        <button
+          onClick={() => setShowAnalytics(!showAnalytics)}
+          className="w-full mb-5 px-4 py-2.5 bg-slate-200 text-slate-700 font-semibold rounded-lg shadow hover:bg-slate-300 focus:outline-none focus:ring-2 focus:ring-slate-400 transition duration-150 flex justify-between items-center"
+        >
+          <span>{showAnalytics ? 'Hide' : 'Show'} Analytics</span>
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={`w-5 h-5 transition-transform duration-300 ${showAnalytics ? 'rotate-180' : ''}`}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="m19.5 8.25-7.5 7.5-7.5-7.5" />
+          </svg>
+        </button>
+        {showAnalytics && currentDay && (
+          <AnalyticsDashboard today={currentDay.date} profile={activeProfile} loadDays={loadAnalyticsDays} />
+        )}
+      </div>
+
       <div className="w-full">
         <button 
           onClick={() => setShowHistory(!showHistory)}
@@ -963,9 +1769,24 @@ export default function HomePage() {
               <p className="text-slate-500 text-center py-4">No history recorded yet.</p>
             ) : (
               <>
-                <CalorieHistoryGraph history={calorieHistory} />
+                <CalorieHistoryGraph history={calorieHistory} weightLog={weightLog} showNetCalories={showNetCalories} />
+                {calorieHistory.some(day => (day.exerciseLog ?? []).length > 0) && (
+                  <label className="flex items-center justify-end -mt-4 text-xs text-slate-500">
+                    <input
+                      type="checkbox"
+                      className="mr-1.5"
+                      checked={showNetCalories}
+                      onChange={(e) => setShowNetCalories(e.target.checked)}
+                    />
+                    Show net calories (intake minus exercise)
+                  </label>
+                )}
                 {calorieHistory.map((day) => {
-                  const dayMacros = getDayMacros(day.mealLog);
+                  const dayMacros = sumMacros(day.mealLog);
+                  const dayNutrients = sumNutrients(day.mealLog);
+                  // Days archived before profiles were recorded fall back to the current one
+                  const dayProfile = day.profileAtTheTime ?? activeProfile;
+                  const dayIdealPercentages = getMacroPercentTargets(dayProfile, day.dailyGoalAtTheTime);
                   const dayMacroPercentages = getDayMacroPercentages(day.totalCalories, dayMacros);
                   
                   return (
@@ -977,12 +1798,39 @@ export default function HomePage() {
                       <div>
                         <h3 className="text-xl font-semibold text-cyan-700">{new Date(day.date + 'T00:00:00').toLocaleDateString([], { year: 'numeric', month: 'long', day: 'numeric' })}</h3>
                         <p className="text-sm text-slate-600">Total: {day.totalCalories} kcal (Goal: {day.dailyGoalAtTheTime} kcal)</p>
+                        {day.mealLog.length > 0 && (
+                          <p className="text-xs text-slate-500 mt-1">
+                            {groupEntriesBySlot(day.mealLog, day.timeZone)
+                              .map(group => `${MEAL_SLOT_LABELS[group.slot]}: ${group.calories}`)
+                              .join(' • ')}
+                          </p>
+                        )}
                         {(dayMacros.carbs > 0 || dayMacros.protein > 0 || dayMacros.fat > 0) && (
                           <p className="text-xs text-slate-500 mt-1">
                             Macros: C: {dayMacroPercentages.carbs}% ({dayMacros.carbs}g) • P: {dayMacroPercentages.protein}% ({dayMacros.protein}g) • F: {dayMacroPercentages.fat}% ({dayMacros.fat}g)
                           </p>
                         )}
-                        <p className="text-xs text-slate-400 mt-1">Ideal: C: {getIdealMacroPercentages().carbs}% • P: {getIdealMacroPercentages().protein}% • F: {getIdealMacroPercentages().fat}%</p>
+                        {day.mealLog.some(entry => entry.nutrients && Object.keys(entry.nutrients).length > 0) && (
+                          <p className="text-xs text-slate-500 mt-1">
+                            {NUTRIENTS.map(nutrient => {
+                              const total = dayNutrients[nutrient.key];
+                              return `${nutrient.label}: ${total.amount}${nutrient.unit}${total.unknownEntries > 0 ? '+' : ''}`;
+                            }).join(' • ')}
+                          </p>
+                        )}
+                        {getHydrationMl(day.mealLog, day.waterLog ?? []) > 0 && (
+                          <p className="text-xs text-slate-500 mt-1">
+                            Water: {formatVolume(getHydrationMl(day.mealLog, day.waterLog ?? []), volumeUnit)}
+                          </p>
+                        )}
+                        {(day.exerciseLog ?? []).length > 0 && (
+                          <p className="text-xs text-slate-500 mt-1">
+                            Exercise: {sumExerciseCalories(day.exerciseLog)} kcal burned • Net: {getNetCalories(day)} kcal
+                          </p>
+                        )}
+                        <p className="text-xs text-slate-400 mt-1">
+                          Ideal ({dayProfile.name}): C: {dayIdealPercentages.carbs}% • P: {dayIdealPercentages.protein}% • F: {dayIdealPercentages.fat}%
+                        </p>
                       </div>
                       <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={`w-5 h-5 transition-transform duration-300 ${expandedHistoryDate === day.date ? 'rotate-180' : ''}`}>
                           <path strokeLinecap="round" strokeLinejoin="round" d="m19.5 8.25-7.5 7.5-7.5-7.5" />
@@ -990,87 +1838,360 @@ export default function HomePage() {
                     </div>
                     {expandedHistoryDate === day.date && (
                       <ul className="mt-4 space-y-2.5 pl-2 border-l-2 border-slate-200 ml-1">
-                        {day.mealLog.filter(entry => entry.text !== 'Daily Reset for new day').map((entry) => (
-                          <li key={entry.id} className="p-2.5 bg-slate-50 rounded-lg shadow-sm text-sm">
-                            <div className="flex justify-between items-center">
-                              <div className="flex-grow">
-                                <p className="font-medium text-slate-700">{entry.text}</p>
-                                <p className="text-xs text-slate-500">{new Date(entry.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</p>
-                              </div>
-                              <div className="flex items-center space-x-2">
-                                <span className="font-medium text-cyan-600">{entry.calories} kcal</span>
-                                <button 
-                                  onClick={() => handleDuplicateFromHistory(entry)}
-                                  className="p-1 text-blue-500 hover:text-blue-700 hover:bg-blue-100 rounded-full transition-colors duration-150"
-                                  aria-label="Duplicate meal entry to today"
-                                  title="Add to today's log"
-                                >
-                                  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
-                                    <path strokeLinecap="round" strokeLinejoin="round" d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0 3.181 3.183a8.25 8.25 0 0 0 13.803-3.7M4.031 9.865a8.25 8.25 0 0 1 13.803-3.7l3.181 3.182m0-4.991v4.99" />
-                                  </svg>
-                                </button>
-                              </div>
-                            </div>
-                            {/* Macro information for history entries */}
-                            {(entry.macros.carbs > 0 || entry.macros.protein > 0 || entry.macros.fat > 0) && (
-                              <div className="flex justify-between text-xs text-slate-400 mt-1 pt-1 border-t border-slate-200">
-                                <span>C: {entry.macros.carbs}g ({Math.round((entry.macros.carbs * 4 / entry.calories) * 100)}%)</span>
-                                <span>P: {entry.macros.protein}g ({Math.round((entry.macros.protein * 4 / entry.calories) * 100)}%)</span>
-                                <span>F: {entry.macros.fat}g ({Math.round((entry.macros.fat * 9 / entry.calories) * 100)}%)</span>
-                              </div>
-                            )}
+                        {groupEntriesBySlot(day.mealLog, day.timeZone).map((group) => (
+                          <li key={group.slot}>
+                            <p className="text-xs font-semibold text-slate-500 mb-1.5">
+                              {MEAL_SLOT_LABELS[group.slot]} · {group.calories} kcal
+                            </p>
+                            <ul className="space-y-2.5">
+                              {group.entries.map((entry) => (
+                              <li key={entry.id} className="p-2.5 bg-slate-50 rounded-lg shadow-sm text-sm">
+                                {editingEntry?.date === day.date && editingEntry.id === entry.id ? (
+                                  <LogEntryEditor
+                                    entry={entry}
+                                    date={day.date}
+                                    dayStartHour={dayStartHour}
+                                    timeZone={day.timeZone}
+                                    onSave={(updatedEntry) => handleSaveHistoryEntry(day.date, updatedEntry)}
+                                    onCancel={() => setEditingEntry(null)}
+                                  />
+                                ) : (
+                                  <>
+                                    <div className="flex justify-between items-center">
+                                      <div className="flex-grow">
+                                        <p className="font-medium text-slate-700">{entry.text}</p>
+                                        <p className="text-xs text-slate-500">{formatEntryTime(entry.timestamp, day.timeZone)}</p>
+                                        {entry.confidence && <EstimateConfidenceNote confidence={entry.confidence} />}
+                                        {entry.pending && (
+                                          <PendingEstimateNote pending={entry.pending} onRetry={() => handleRetryPendingEntry(entry)} />
+                                        )}
+                                      </div>
+                                      <div className="flex items-center space-x-2">
+                                        <span className="font-medium text-cyan-600">{entry.calories} kcal</span>
+                                        <button 
+                                          onClick={() => setEditingEntry({ date: day.date, id: entry.id })}
+                                          className="p-1 text-slate-500 hover:text-slate-700 hover:bg-slate-100 rounded-full transition-colors duration-150"
+                                          aria-label="Edit meal entry"
+                                          title="Edit entry"
+                                        >
+                                          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+                                            <path strokeLinecap="round" strokeLinejoin="round" d="m16.862 4.487 1.687-1.688a1.875 1.875 0 1 1 2.652 2.652L10.582 16.07a4.5 4.5 0 0 1-1.897 1.13L6 18l.8-2.685a4.5 4.5 0 0 1 1.13-1.897l8.932-8.931Zm0 0L19.5 7.125M18 14v4.75A2.25 2.25 0 0 1 15.75 21H5.25A2.25 2.25 0 0 1 3 18.75V8.25A2.25 2.25 0 0 1 5.25 6H10" />
+                                          </svg>
+                                        </button>
+                                        <button 
+                                          onClick={() => handleDuplicateFromHistory(entry)}
+                                          className="p-1 text-blue-500 hover:text-blue-700 hover:bg-blue-100 rounded-full transition-colors duration-150"
+                                          aria-label="Duplicate meal entry to today"
+                                          title="Add to today's log"
+                                        >
+                                          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+                                            <path strokeLinecap="round" strokeLinejoin="round" d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0 3.181 3.183a8.25 8.25 0 0 0 13.803-3.7M4.031 9.865a8.25 8.25 0 0 1 13.803-3.7l3.181 3.182m0-4.991v4.99" />
+                                          </svg>
+                                        </button>
+                                      </div>
+                                    </div>
+                                    {/* Macro information for history entries */}
+                                    {(entry.macros.carbs > 0 || entry.macros.protein > 0 || entry.macros.fat > 0) && (
+                                      <div className="flex justify-between text-xs text-slate-400 mt-1 pt-1 border-t border-slate-200">
+                                        <span>C: {entry.macros.carbs}g ({Math.round((entry.macros.carbs * 4 / entry.calories) * 100)}%)</span>
+                                        <span>P: {entry.macros.protein}g ({Math.round((entry.macros.protein * 4 / entry.calories) * 100)}%)</span>
+                                        <span>F: {entry.macros.fat}g ({Math.round((entry.macros.fat * 9 / entry.calories) * 100)}%)</span>
+                                      </div>
+                                    )}
+                                    {entry.items && entry.items.length > 0 && (
+                                      <MealItemList items={entry.items} className="mt-1 pt-1 border-t border-slate-200" />
+                                    )}
+                                  </>
+                                )}
+                              </li>
+                              ))}
+                            </ul>
                           </li>
                         ))}
-                        {day.mealLog.filter(entry => entry.text !== 'Daily Reset for new day').length === 0 && (
+                        {day.mealLog.length === 0 && (
                           <li className="text-slate-400 text-xs italic">No meals logged for this day.</li>
                         )}
+                        <li>
+                          {addingToHistoryDate === day.date ? (
+                            <div className="p-2.5 bg-slate-50 rounded-lg shadow-sm">
+                              <LogEntryEditor
+                                date={day.date}
+                                dayStartHour={dayStartHour}
+                                timeZone={day.timeZone}
+                                onSave={(newEntry) => handleSaveHistoryEntry(day.date, newEntry)}
+                                onCancel={() => setAddingToHistoryDate(null)}
+                              />
+                            </div>
+                          ) : (
+                            <button
+                              onClick={() => setAddingToHistoryDate(day.date)}
+                              className="text-xs font-medium text-cyan-700 hover:text-cyan-900"
+                            >
+                              + Add to this day
+                            </button>
+                          )}
+                        </li>
                       </ul>
                     )}
                   </div>
                   );
                 })}
+                {hasMoreHistory && (
+                  <button
+                    onClick={handleLoadOlderHistory}
+                    disabled={isLoadingHistory}
+                    className="w-full px-4 py-2 text-sm font-medium text-cyan-700 bg-cyan-50 rounded-lg hover:bg-cyan-100 transition duration-150 disabled:opacity-60 disabled:cursor-not-allowed"
+                  >
+                    {isLoadingHistory ? 'Loading...' : 'Load older days'}
+                  </button>
+                )}
               </>
             )}
           </div>
         )}
       </div>
 
+      {/* Goal Schedule */}
+      {currentDay && (
+        <div className="w-full mb-10">
+          <h3 className="text-lg font-semibold text-slate-700 mb-3">Goal Schedule</h3>
+          <p className="text-sm text-slate-600 mb-4">
+            Use a different goal, and optionally a different macro profile, on certain weekdays or dates, e.g. for training days or carb cycling.
+          </p>
+          <GoalSchedulePanel
+            schedule={goalSchedule}
+            baseGoal={dailyGoal}
+            profiles={[...BUILT_IN_PROFILES, ...customProfiles]}
+            today={currentDay.date}
+            weekBudget={getWeekBudget(currentDay.date, consumedCalories, calorieHistory, date => getGoalForDate(date).dailyGoal)}
+            onChange={setGoalSchedule}
+          />
+        </div>
+      )}
+
       {/* Macro Profile Selection */}
       <div className="w-full mb-10">
         <h3 className="text-lg font-semibold text-slate-700 mb-3">Macro Profile</h3>
-        <p className="text-sm text-slate-600 mb-4">Choose your nutrition goal to adjust ideal macro percentages:</p>
+        <p className="text-sm text-slate-600 mb-4">Choose your nutrition goal to adjust ideal macro targets, or create your own:</p>
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-          {(Object.keys(PROFILE_MACRO_PERCENTAGES) as ProfileType[]).map((profile) => {
-            const macros = PROFILE_MACRO_PERCENTAGES[profile];
+          {[...BUILT_IN_PROFILES, ...customProfiles].map((profile) => {
+            const isCustom = customProfiles.includes(profile);
             return (
-              <button
-                key={profile}
-                onClick={() => setSelectedProfile(profile)}
-                className={`p-4 rounded-lg border-2 transition-all duration-200 text-left ${
-                  selectedProfile === profile
+              <div
+                key={profile.id}
+                className={`rounded-lg border-2 transition-all duration-200 ${
+                  selectedProfile === profile.id
                     ? 'border-cyan-500 bg-cyan-50 text-cyan-800'
                     : 'border-slate-200 bg-white text-slate-700 hover:border-slate-300 hover:bg-slate-50'
                 }`}
               >
-                <div className="font-semibold text-base mb-1">{profile}</div>
-                <div className="text-xs text-slate-500">
-                  C: {macros.carbs}% • P: {macros.protein}% • F: {macros.fat}%
-                </div>
-                <div className="text-xs text-slate-400 mt-1">
-                  {profile === 'General' && 'Balanced nutrition for overall health'}
-                  {profile === 'Weight Loss' && 'Higher protein, lower carbs'}
-                  {profile === 'Muscle Building' && 'High protein for muscle growth'}
-                  {profile === 'Endurance Athletes' && 'High carbs for sustained energy'}
+                <button onClick={() => setSelectedProfile(profile.id)} className="w-full p-4 text-left">
+                  <div className="font-semibold text-base mb-1">{profile.name}</div>
+                  <div className="text-xs text-slate-500">{describeProfileTargets(profile)}</div>
+                  <div className="text-xs text-slate-400 mt-1">
+                    {profile.description ?? (profile.mode === 'gramsPerKg' ? `Custom, for ${profile.bodyweightKg} kg bodyweight` : 'Custom profile')}
+                  </div>
+                </button>
+                {isCustom && (
+                  <div className="flex justify-end space-x-1 px-3 pb-2 -mt-2">
+                    <button
+                      onClick={() => setEditingProfileId(profile.id)}
+                      className="px-2 py-1 text-xs font-medium text-slate-600 hover:bg-slate-100 rounded"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleDeleteProfile(profile.id)}
+                      className="px-2 py-1 text-xs font-medium text-red-600 hover:bg-red-50 rounded"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+        {editingProfileId ? (
+          <div className="mt-3">
+            <ProfileEditor
+              key={editingProfileId}
+              profile={customProfiles.find(profile => profile.id === editingProfileId)}
+              onSave={handleSaveProfile}
+              onCancel={() => setEditingProfileId(null)}
+            />
+          </div>
+        ) : (
+          <button
+            onClick={() => setEditingProfileId('new')}
+            className="mt-3 text-sm font-medium text-cyan-700 hover:text-cyan-900"
+          >
+            + New profile
+          </button>
+        )}
+      </div>
+
+      {/* Meal Budgets */}
+      <div className="w-full mb-10">
+        <h3 className="text-lg font-semibold text-slate-700 mb-3">Meal Budgets</h3>
+        <p className="text-sm text-slate-600 mb-4">Optionally set aside part of your daily goal for each meal. Leave a meal blank for no budget.</p>
+        <div className="grid grid-cols-2 gap-3">
+          {MEAL_SLOTS.map((slot) => {
+            const budget = getSlotBudget(slot, slotBudgets, dailyGoal);
+            return (
+              <label key={slot} className="text-sm text-slate-600">
+                {MEAL_SLOT_LABELS[slot]}
+                <div className="flex items-center space-x-2 mt-1">
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="1"
+                    value={slotBudgets[slot] ?? ''}
+                    onChange={(e) => handleSlotBudgetChange(slot, e.target.value)}
+                    className="w-20 p-1.5 border border-slate-300 rounded text-slate-700 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 shadow-sm text-sm"
+                  />
+                  <span className="text-xs text-slate-500">%{budget !== null && ` = ${budget} kcal`}</span>
                 </div>
-              </button>
+              </label>
             );
           })}
         </div>
       </div>
 
+      {/* Day Settings */}
+      <div className="w-full mb-10">
+        <h3 className="text-lg font-semibold text-slate-700 mb-3">Day Settings</h3>
+        <div className="flex items-center justify-between">
+          <label htmlFor="day-start-hour" className="text-sm text-slate-600">A new day starts at</label>
+          <select
+            id="day-start-hour"
+            value={dayStartHour}
+            onChange={(e) => setDayStartHour(parseInt(e.target.value, 10))}
+            className="p-1.5 border border-slate-300 rounded text-slate-700 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 shadow-sm text-sm"
+          >
+            {Array.from({ length: 24 }, (_, hour) => (
+              <option key={hour} value={hour}>
+                {hour === 0 ? 'Midnight' : DateTime.fromObject({ hour }).toLocaleString(DateTime.TIME_SIMPLE)}
+              </option>
+            ))}
+          </select>
+        </div>
+        <p className="text-xs text-slate-500 mt-2">
+          Meals logged before this hour count toward the previous day. Useful for night shifts.
+          {currentDay && ` Today is ${DateTime.fromFormat(currentDay.date, 'yyyy-MM-dd').toLocaleString(DateTime.DATE_MED)} (${currentDay.timeZone}).`}
+        </p>
+        <label className="flex items-center justify-between mt-4 text-sm text-slate-600">
+          <span>Add exercise calories to the day&apos;s budget</span>
+          <input
+            type="checkbox"
+            checked={addExerciseToBudget}
+            onChange={(e) => setAddExerciseToBudget(e.target.checked)}
+          />
+        </label>
+        <p className="text-xs text-slate-500 mt-2">
+          When on, calories burned raise how much you can eat that day. Burn estimates are rough, so some people prefer to leave this off.
+        </p>
+      </div>
+
+      {/* Reminders */}
+      <div className="w-full mb-10">
+        <h3 className="text-lg font-semibold text-slate-700 mb-3">Reminders</h3>
+        <p className="text-sm text-slate-600 mb-4">
+          Get a nudge when a meal hasn&apos;t been logged, and an optional evening summary of calories and macros.
+        </p>
+        <ReminderSettingsPanel
+          settings={reminderSettings}
+          permission={notificationPermission}
+          onRequestPermission={handleRequestNotificationPermission}
+          onChange={setReminderSettings}
+        />
+      </div>
+
+      {/* Account */}
+      <div className="w-full mb-10">
+        <h3 className="text-lg font-semibold text-slate-700 mb-3">Account</h3>
+        <p className="text-sm text-slate-600 mb-4">
+          Intake works without an account, keeping everything in this browser. An account also keeps it on the server, so clearing site data doesn&apos;t lose your history and you can use it on other devices.
+        </p>
+        <AccountPanel account={account} onSignUp={handleSignUp} onLogIn={handleLogIn} onLogOut={handleLogOut} />
+      </div>
+
+      {/* Backup and Export */}
+      <div className="w-full mb-10">
+        <h3 className="text-lg font-semibold text-slate-700 mb-3">Your Data</h3>
+        <p className="text-sm text-slate-600 mb-4">Back up everything to a file, restore it in another browser, or export your history for a spreadsheet.</p>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <button
+            onClick={handleExportBackup}
+            className="px-4 py-2.5 bg-cyan-600 text-white font-medium rounded-lg shadow-md hover:bg-cyan-700 transition duration-150 text-sm"
+          >
+            Export Backup (JSON)
+          </button>
+          <button
+            onClick={() => backupInputRef.current?.click()}
+            className="px-4 py-2.5 bg-white text-cyan-700 font-medium rounded-lg border-2 border-cyan-500 hover:bg-cyan-50 transition duration-150 text-sm"
+          >
+            Restore Backup
+          </button>
+          <input
+            type="file"
+            accept="application/json,.json"
+            ref={backupInputRef}
+            onChange={handleBackupFileSelected}
+            className="hidden"
+          />
+          <button
+            onClick={() => handleExportCsv('entries')}
+            className="px-4 py-2.5 bg-slate-200 text-slate-700 font-medium rounded-lg shadow hover:bg-slate-300 transition duration-150 text-sm"
+          >
+            Export Entries (CSV)
+          </button>
+          <button
+            onClick={() => handleExportCsv('totals')}
+            className="px-4 py-2.5 bg-slate-200 text-slate-700 font-medium rounded-lg shadow hover:bg-slate-300 transition duration-150 text-sm"
+          >
+            Export Daily Totals (CSV)
+          </button>
+        </div>
+        {pendingBackup && (
+          <div className="mt-4 p-4 bg-cyan-50 border border-cyan-200 rounded-lg text-sm text-slate-700">
+            <p className="font-semibold mb-1">Restore this backup?</p>
+            <p className="text-xs text-slate-600 mb-3">
+              {pendingBackup.calorieHistory.length} history days and {pendingBackup.log.length} entries from today&apos;s log
+              {pendingBackup.exportedAt && `, exported ${new Date(pendingBackup.exportedAt).toLocaleString()}`}.
+              Merge keeps your current data and adds anything missing; replace overwrites your goal, profiles, meal budgets, nutrient goals, log and history.
+            </p>
+            <div className="flex space-x-2">
+              <button
+                onClick={() => handleRestoreBackup('merge')}
+                disabled={isRestoring}
+                className="px-3 py-1.5 bg-cyan-600 text-white font-medium rounded-md hover:bg-cyan-700 disabled:opacity-60"
+              >
+                Merge
+              </button>
+              <button
+                onClick={() => handleRestoreBackup('replace')}
+                disabled={isRestoring}
+                className="px-3 py-1.5 bg-red-500 text-white font-medium rounded-md hover:bg-red-600 disabled:opacity-60"
+              >
+                Replace
+              </button>
+              <button
+                onClick={() => setPendingBackup(null)}
+                disabled={isRestoring}
+                className="px-3 py-1.5 bg-slate-200 text-slate-700 font-medium rounded-md hover:bg-slate-300 disabled:opacity-60"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
       <footer className="w-full mt-16 text-center text-slate-500 text-xs">
         <p>Intake &copy; {new Date().getFullYear()}</p>
-        <p className="mt-1">Remember to set your <code className="bg-slate-200 text-slate-700 px-1.5 py-0.5 rounded-md text-xs">NEXT_PUBLIC_OPENAI_KEY</code> environment variable.</p>
+        <p className="mt-1">Remember to set the <code className="bg-slate-200 text-slate-700 px-1.5 py-0.5 rounded-md text-xs">OPENAI_API_KEY</code> environment variable on the server.</p>
         <p className="mt-3 text-xs italic text-slate-400">
           Disclaimer: Our AI tries its best, but sometimes it thinks a salad is a cheeseburger. Calorie estimates may be wildly optimistic, pessimistic, or just plain confused. For actual health advice, consult a real human (preferably one with a degree, not just a strong opinion about kale).
         </p>
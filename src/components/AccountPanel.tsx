@@ -0,0 +1,120 @@
+'use client';
+
+import React, { useState } from 'react';
+import { AccountUser } from '@/lib/types';
+
+interface AccountPanelProps {
+  account: AccountUser | null; // Null when using the app without an account
+  onSignUp: (username: string, password: string) => Promise<void>;
+  onLogIn: (username: string, password: string) => Promise<void>;
+  onLogOut: () => Promise<void>;
+}
+
+const inputClassName =
+  'w-full p-1.5 border border-slate-300 rounded text-slate-700 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-sm';
+
+// Sign up, sign in or out of an account that keeps this browser's data on the server
+const AccountPanel = ({ account, onSignUp, onLogIn, onLogOut }: AccountPanelProps) => {
+  const [mode, setMode] = useState<'signup' | 'login'>('signup');
+  const [username, setUsername] = useState<string>('');
+  const [password, setPassword] = useState<string>('');
+  const [isBusy, setIsBusy] = useState<boolean>(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setFormError(null);
+    try {
+      await action();
+      setPassword('');
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username.trim() || !password) {
+      setFormError('Enter a username and password.');
+      return;
+    }
+    run(() => (mode === 'signup' ? onSignUp : onLogIn)(username.trim(), password));
+  };
+
+  if (account) {
+    return (
+      <div className="space-y-2 text-sm">
+        <div className="flex items-center justify-between text-slate-600">
+          <span>
+            Signed in as <span className="font-medium text-slate-700">{account.username}</span>
+          </span>
+          <button
+            onClick={() => run(onLogOut)}
+            disabled={isBusy}
+            className="px-3 py-1.5 bg-slate-100 text-slate-700 text-xs font-medium rounded-md hover:bg-slate-200 disabled:opacity-50"
+          >
+            Sign out
+          </button>
+        </div>
+        <p className="text-xs text-slate-500">
+          Changes are saved to your account and show up on any device you sign in on. Signing out keeps this browser&apos;s copy.
+        </p>
+        {formError && <p className="text-xs text-red-600">{formError}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex space-x-1.5">
+        {(['signup', 'login'] as const).map((option) => (
+          <button
+            key={option}
+            onClick={() => {
+              setMode(option);
+              setFormError(null);
+            }}
+            className={`px-3 py-1 text-xs font-medium rounded-full ${mode === option ? 'bg-cyan-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+          >
+            {option === 'signup' ? 'Create account' : 'Sign in'}
+          </button>
+        ))}
+      </div>
+      <form onSubmit={handleSubmit} className="space-y-2">
+        <input
+          type="text"
+          autoComplete="username"
+          className={inputClassName}
+          placeholder="Username"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+        />
+        <input
+          type="password"
+          autoComplete={mode === 'signup' ? 'new-password' : 'current-password'}
+          className={inputClassName}
+          placeholder="Password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+        />
+        <button
+          type="submit"
+          disabled={isBusy}
+          className="w-full px-3 py-1.5 bg-cyan-600 text-white text-sm font-medium rounded-md hover:bg-cyan-700 disabled:opacity-50"
+        >
+          {isBusy ? 'Please wait...' : mode === 'signup' ? 'Create account and upload my data' : 'Sign in'}
+        </button>
+      </form>
+      {formError && <p className="text-xs text-red-600">{formError}</p>}
+      <p className="text-xs text-slate-500">
+        {mode === 'signup'
+          ? "Everything in this browser, including your full history, is copied to the new account so it's safe if site data is cleared."
+          : "Signing in replaces this browser's data with your account's. Create an account instead to keep what's here."}
+      </p>
+    </div>
+  );
+};
+
+export default AccountPanel;
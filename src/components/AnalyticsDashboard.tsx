@@ -0,0 +1,218 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Bar } from 'react-chartjs-2';
+import { BarElement, Chart as ChartJS, ChartData } from 'chart.js';
+import { DailyHistoryEntry, MacroData, MacroProfile } from '@/lib/types';
+import {
+  DateRange,
+  DEFAULT_ADHERENCE_TOLERANCE,
+  getDailyMacroCalories,
+  getPresetRange,
+  RANGE_PRESET_DAYS,
+  summarizeRange,
+} from '@/lib/analytics';
+
+ChartJS.register(BarElement);
+
+interface AnalyticsDashboardProps {
+  today: string; // YYYY-MM-DD; ranges end the day before, as today isn't finished
+  profile: MacroProfile; // Selected profile, whose ideal split the range is compared with
+  loadDays: (range: DateRange) => Promise<DailyHistoryEntry[]>;
+}
+
+const inputClassName =
+  'w-full p-1.5 border border-slate-300 rounded text-slate-700 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-sm';
+
+const MACRO_LABELS: Record<keyof MacroData, string> = { carbs: 'Carbs', protein: 'Protein', fat: 'Fat' };
+
+const MACRO_COLORS: Record<keyof MacroData, string> = {
+  carbs: 'rgb(34, 197, 94)', // green-500
+  protein: 'rgb(59, 130, 246)', // blue-500
+  fat: 'rgb(234, 179, 8)', // yellow-500
+};
+
+const CUSTOM_RANGE = 'custom';
+
+// Intake statistics and macro charts over a chosen range of history
+const AnalyticsDashboard = ({ today, profile, loadDays }: AnalyticsDashboardProps) => {
+  const [preset, setPreset] = useState<number | typeof CUSTOM_RANGE>(RANGE_PRESET_DAYS[0]);
+  const [customRange, setCustomRange] = useState<DateRange>(getPresetRange(RANGE_PRESET_DAYS[0], today));
+  const [tolerance, setTolerance] = useState<number>(DEFAULT_ADHERENCE_TOLERANCE);
+  const [days, setDays] = useState<DailyHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+
+  const range = useMemo(
+    () => (preset === CUSTOM_RANGE ? customRange : getPresetRange(preset, today)),
+    [preset, customRange, today]
+  );
+
+  useEffect(() => {
+    if (range.from > range.to) {
+      setDays([]);
+      return;
+    }
+    let isCancelled = false;
+    setIsLoading(true);
+    loadDays(range)
+      .then(loadedDays => {
+        if (!isCancelled) setDays(loadedDays);
+      })
+      .finally(() => {
+        if (!isCancelled) setIsLoading(false);
+      });
+    return () => {
+      isCancelled = true;
+    };
+  }, [range, loadDays]);
+
+  const summary = useMemo(() => summarizeRange(days, tolerance, profile), [days, tolerance, profile]);
+  const macroCalories = useMemo(() => getDailyMacroCalories(days), [days]);
+
+  const data: ChartData<'bar'> = {
+    labels: macroCalories.map(day => new Date(day.date + 'T00:00:00').toLocaleDateString([], { month: 'short', day: 'numeric' })),
+    datasets: (Object.keys(MACRO_LABELS) as (keyof MacroData)[]).map(macro => ({
+      label: MACRO_LABELS[macro],
+      data: macroCalories.map(day => day[macro]),
+      backgroundColor: MACRO_COLORS[macro],
+    })),
+  };
+
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        position: 'top' as const,
+      },
+      title: {
+        display: true,
+        text: 'Calories by Macro',
+      },
+    },
+    scales: {
+      x: { stacked: true },
+      y: {
+        stacked: true,
+        beginAtZero: true,
+        title: {
+          display: true,
+          text: 'Calories',
+        },
+      },
+    },
+  };
+
+  return (
+    <div className="w-full space-y-4">
+      <div className="flex flex-wrap gap-1.5">
+        {RANGE_PRESET_DAYS.map(presetDays => (
+          <button
+            key={presetDays}
+            onClick={() => setPreset(presetDays)}
+            className={`px-3 py-1 text-xs font-medium rounded-full ${preset === presetDays ? 'bg-cyan-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+          >
+            {presetDays} days
+          </button>
+        ))}
+        <button
+          onClick={() => setPreset(CUSTOM_RANGE)}
+          className={`px-3 py-1 text-xs font-medium rounded-full ${preset === CUSTOM_RANGE ? 'bg-cyan-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+        >
+          Custom
+        </button>
+      </div>
+      {preset === CUSTOM_RANGE && (
+        <div className="flex items-center space-x-2 text-xs text-slate-500">
+          <input
+            type="date"
+            className={inputClassName}
+            value={customRange.from}
+            max={customRange.to}
+            onChange={(e) => setCustomRange({ ...customRange, from: e.target.value })}
+          />
+          <span>to</span>
+          <input
+            type="date"
+            className={inputClassName}
+            value={customRange.to}
+            min={customRange.from}
+            onChange={(e) => setCustomRange({ ...customRange, to: e.target.value })}
+          />
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-slate-500 text-center py-4">Loading...</p>
+      ) : summary.trackedDays === 0 ? (
+        <p className="text-slate-500 text-center py-4">Nothing logged in this range.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-3 text-sm">
+            <div className="p-3 bg-white rounded-lg shadow-sm">
+              <p className="text-xs text-slate-500">Average intake</p>
+              <p className="text-lg font-semibold text-slate-700">{summary.averageIntake} kcal</p>
+              <p className="text-xs text-slate-400">over {summary.trackedDays} tracked days</p>
+            </div>
+            <div className="p-3 bg-white rounded-lg shadow-sm">
+              <p className="text-xs text-slate-500">On target</p>
+              <p className="text-lg font-semibold text-slate-700">{summary.adherenceRate}%</p>
+              <label className="text-xs text-slate-400">
+                within ±
+                <input
+                  type="number"
+                  min="1"
+                  max="50"
+                  className="w-10 mx-0.5 p-0.5 border border-slate-300 rounded text-center text-slate-700"
+                  value={tolerance}
+                  onChange={(e) => {
+                    const percent = parseInt(e.target.value, 10);
+                    if (percent > 0 && percent <= 50) setTolerance(percent);
+                  }}
+                />
+                % of goal
+              </label>
+            </div>
+            <div className="p-3 bg-white rounded-lg shadow-sm">
+              <p className="text-xs text-slate-500">Current streak</p>
+              <p className="text-lg font-semibold text-slate-700">
+                {summary.currentStreak} {summary.currentStreak === 1 ? 'day' : 'days'}
+              </p>
+            </div>
+            <div className="p-3 bg-white rounded-lg shadow-sm">
+              <p className="text-xs text-slate-500">Best streak</p>
+              <p className="text-lg font-semibold text-slate-700">
+                {summary.bestStreak} {summary.bestStreak === 1 ? 'day' : 'days'}
+              </p>
+            </div>
+          </div>
+
+          <div className="w-full h-64">
+            <Bar data={data} options={options} />
+          </div>
+
+          <div className="p-3 bg-white rounded-lg shadow-sm text-sm">
+            <p className="text-xs text-slate-500 mb-2">Macro split vs. {profile.name}</p>
+            {(Object.keys(MACRO_LABELS) as (keyof MacroData)[]).map(macro => {
+              const difference = summary.macroSplit[macro] - summary.idealSplit[macro];
+              return (
+                <div key={macro} className="flex justify-between text-slate-600">
+                  <span>{MACRO_LABELS[macro]}</span>
+                  <span>
+                    {summary.macroSplit[macro]}% <span className="text-xs text-slate-400">/ {summary.idealSplit[macro]}% ideal</span>
+                    <span className={`ml-2 text-xs ${Math.abs(difference) > 5 ? 'text-red-600' : 'text-slate-400'}`}>
+                      {difference > 0 ? '+' : ''}
+                      {difference}
+                    </span>
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AnalyticsDashboard;
@@ -0,0 +1,152 @@
+'use client';
+
+import React, { useState } from 'react';
+import { LogEntry, Product } from '@/lib/types';
+import { findProduct, productToLogEntry } from '@/lib/products';
+import { parseAmount } from '@/lib/nutrition';
+
+interface BarcodeProductPanelProps {
+  barcode: string;
+  customProducts: Product[];
+  onAddEntry: (entry: LogEntry) => void;
+  onSaveProduct: (product: Product) => void;
+  onUseAi: () => void; // Estimate the photo with AI instead
+  onCancel: () => void;
+}
+
+const inputClassName =
+  'w-full p-1.5 border border-slate-300 rounded text-slate-700 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-sm';
+
+// Shown after a barcode is found in a photo: log servings of a known product,
+// or add an unknown one to the local product table
+const BarcodeProductPanel = ({ barcode, customProducts, onAddEntry, onSaveProduct, onUseAi, onCancel }: BarcodeProductPanelProps) => {
+  const product = findProduct(barcode, customProducts);
+  const [servings, setServings] = useState<string>('1');
+  const [name, setName] = useState<string>('');
+  const [servingLabel, setServingLabel] = useState<string>('');
+  const [calories, setCalories] = useState<string>('');
+  const [carbs, setCarbs] = useState<string>('');
+  const [protein, setProtein] = useState<string>('');
+  const [fat, setFat] = useState<string>('');
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const handleAdd = () => {
+    const servingsNum = Number(servings);
+    if (!product || isNaN(servingsNum) || servingsNum <= 0) {
+      setFormError('Enter a number of servings greater than zero.');
+      return;
+    }
+    onAddEntry(productToLogEntry(product, servingsNum));
+  };
+
+  const handleSaveProduct = (e: React.FormEvent) => {
+    e.preventDefault();
+    const caloriesNum = parseAmount(calories);
+    const carbsNum = parseAmount(carbs);
+    const proteinNum = parseAmount(protein);
+    const fatNum = parseAmount(fat);
+    if (!name.trim()) {
+      setFormError('Give the product a name.');
+      return;
+    }
+    if (caloriesNum === null || carbsNum === null || proteinNum === null || fatNum === null) {
+      setFormError('Nutrition values must be non-negative numbers.');
+      return;
+    }
+    onSaveProduct({
+      barcode,
+      name: name.trim(),
+      servingLabel: servingLabel.trim() || 'serving',
+      caloriesPerServing: caloriesNum,
+      macrosPerServing: { carbs: carbsNum, protein: proteinNum, fat: fatNum },
+      custom: true,
+    });
+    setFormError(null);
+  };
+
+  return (
+    <div className="p-3 bg-white border border-slate-200 rounded-lg shadow-sm space-y-2 text-sm">
+      <p className="text-xs text-slate-500">
+        Barcode <code>{barcode}</code>
+      </p>
+      {product ? (
+        <>
+          <p className="font-medium text-slate-700">{product.name}</p>
+          <p className="text-xs text-slate-500">
+            Per {product.servingLabel}: {product.caloriesPerServing} kcal · C: {product.macrosPerServing.carbs}g · P:{' '}
+            {product.macrosPerServing.protein}g · F: {product.macrosPerServing.fat}g
+          </p>
+          <label className="flex items-center space-x-2 text-xs text-slate-500">
+            <span>Servings</span>
+            <input
+              type="number"
+              min="0"
+              step="any"
+              className={`${inputClassName} w-24`}
+              value={servings}
+              onChange={(e) => setServings(e.target.value)}
+            />
+          </label>
+        </>
+      ) : (
+        <form id="barcode-product-form" onSubmit={handleSaveProduct} className="space-y-2">
+          <p className="text-slate-700">This product isn&apos;t in your product table yet. Add it from the label:</p>
+          <input type="text" className={inputClassName} placeholder="Product name" value={name} onChange={(e) => setName(e.target.value)} />
+          <input
+            type="text"
+            className={inputClassName}
+            placeholder="Serving, e.g. 'bar (45 g)'"
+            value={servingLabel}
+            onChange={(e) => setServingLabel(e.target.value)}
+          />
+          <p className="text-xs text-slate-500">Per serving</p>
+          <div className="grid grid-cols-4 gap-2">
+            <label className="text-xs text-slate-500">
+              kcal
+              <input type="number" min="0" step="any" className={inputClassName} value={calories} onChange={(e) => setCalories(e.target.value)} />
+            </label>
+            <label className="text-xs text-slate-500">
+              C (g)
+              <input type="number" min="0" step="any" className={inputClassName} value={carbs} onChange={(e) => setCarbs(e.target.value)} />
+            </label>
+            <label className="text-xs text-slate-500">
+              P (g)
+              <input type="number" min="0" step="any" className={inputClassName} value={protein} onChange={(e) => setProtein(e.target.value)} />
+            </label>
+            <label className="text-xs text-slate-500">
+              F (g)
+              <input type="number" min="0" step="any" className={inputClassName} value={fat} onChange={(e) => setFat(e.target.value)} />
+            </label>
+          </div>
+        </form>
+      )}
+      {formError && <p className="text-xs text-red-600">{formError}</p>}
+      <div className="flex items-center space-x-2">
+        <button onClick={onUseAi} className="text-xs font-medium text-sky-700 hover:text-sky-900">
+          Estimate photo with AI instead
+        </button>
+        <button
+          onClick={onCancel}
+          className="ml-auto px-3 py-1.5 bg-slate-200 text-slate-700 font-medium rounded-md hover:bg-slate-300"
+        >
+          Cancel
+        </button>
+        {product ? (
+          <button onClick={handleAdd} className="px-3 py-1.5 bg-cyan-600 text-white font-medium rounded-md hover:bg-cyan-700">
+            Add to Log
+          </button>
+        ) : (
+          <button
+            type="submit"
+            form="barcode-product-form"
+            className="px-3 py-1.5 bg-cyan-600 text-white font-medium rounded-md hover:bg-cyan-700"
+          >
+            Save Product
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BarcodeProductPanel;
@@ -0,0 +1,31 @@
+'use client';
+
+import React from 'react';
+import { EstimateConfidence } from '@/lib/types';
+
+interface EstimateConfidenceNoteProps {
+  confidence: EstimateConfidence;
+}
+
+const LEVEL_CLASS_NAMES: Record<EstimateConfidence['level'], string> = {
+  low: 'bg-amber-100 text-amber-800',
+  medium: 'bg-slate-100 text-slate-600',
+  high: 'bg-emerald-50 text-emerald-700',
+};
+
+// Calorie range and confidence of an AI estimate, flagging ones worth double-checking
+const EstimateConfidenceNote = ({ confidence }: EstimateConfidenceNoteProps) => (
+  <p className="text-xs text-slate-500 flex items-center space-x-1.5">
+    <span>
+      {confidence.caloriesLow}–{confidence.caloriesHigh} kcal
+    </span>
+    <span
+      className={`px-1.5 py-0.5 rounded font-medium ${LEVEL_CLASS_NAMES[confidence.level]}`}
+      title={confidence.level === 'low' ? 'The AI was unsure about this meal. Check the portions and edit if needed.' : undefined}
+    >
+      {confidence.level === 'low' ? 'Double-check' : `${confidence.level} confidence`}
+    </span>
+  </p>
+);
+
+export default EstimateConfidenceNote;
@@ -0,0 +1,161 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ExerciseEntry } from '@/lib/types';
+import { EXERCISE_ACTIVITIES, estimateExerciseCalories, findActivity, sumExerciseCalories } from '@/lib/exercise';
+import { formatEntryTime } from '@/lib/dayBoundary';
+
+interface ExerciseLogPanelProps {
+  exerciseLog: ExerciseEntry[];
+  weightKg: number | null; // Latest known bodyweight, needed for MET estimates
+  timeZone?: string;
+  addExerciseToBudget: boolean;
+  onAddExercise: (entry: Omit<ExerciseEntry, 'id' | 'timestamp'>) => void;
+  onDeleteExercise: (id: string) => void;
+}
+
+const inputClassName =
+  'w-full p-1.5 border border-slate-300 rounded text-slate-700 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-sm';
+
+const MANUAL_ACTIVITY = 'manual';
+
+// Today's exercise, with burn estimated from the MET table or entered by hand
+const ExerciseLogPanel = ({
+  exerciseLog,
+  weightKg,
+  timeZone,
+  addExerciseToBudget,
+  onAddExercise,
+  onDeleteExercise,
+}: ExerciseLogPanelProps) => {
+  const [activityId, setActivityId] = useState<string>(weightKg ? EXERCISE_ACTIVITIES[0].id : MANUAL_ACTIVITY);
+  const [name, setName] = useState<string>('');
+  const [duration, setDuration] = useState<string>('');
+  const [calories, setCalories] = useState<string>('');
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const activity = findActivity(activityId);
+  const durationMinutes = Number(duration);
+  const estimate =
+    activity && weightKg && duration.trim() !== '' && durationMinutes > 0
+      ? estimateExerciseCalories(activity, weightKg, durationMinutes)
+      : null;
+  const burnedCalories = sumExerciseCalories(exerciseLog);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (duration.trim() === '' || isNaN(durationMinutes) || durationMinutes <= 0) {
+      setFormError('Enter how many minutes you exercised.');
+      return;
+    }
+    if (activity) {
+      if (estimate === null) {
+        setFormError('Log your weight to estimate calories burned, or enter them manually.');
+        return;
+      }
+      onAddExercise({ name: activity.label, durationMinutes, calories: estimate, activityId: activity.id });
+    } else {
+      const caloriesNum = Number(calories);
+      if (!name.trim()) {
+        setFormError('Describe the activity.');
+        return;
+      }
+      if (calories.trim() === '' || isNaN(caloriesNum) || caloriesNum < 0) {
+        setFormError('Enter the calories burned.');
+        return;
+      }
+      onAddExercise({ name: name.trim(), durationMinutes, calories: Math.round(caloriesNum) });
+    }
+    setDuration('');
+    setName('');
+    setCalories('');
+    setFormError(null);
+  };
+
+  return (
+    <div className="w-full mb-10">
+      <div className="flex justify-between items-baseline mb-3">
+        <h3 className="text-lg font-semibold text-slate-700">Exercise</h3>
+        {burnedCalories > 0 && (
+          <span className="text-sm text-slate-500">
+            {burnedCalories} kcal burned{addExerciseToBudget && ', added to your budget'}
+          </span>
+        )}
+      </div>
+      <form onSubmit={handleSubmit} className="space-y-2 mb-3">
+        <select className={inputClassName} value={activityId} onChange={(e) => setActivityId(e.target.value)}>
+          {EXERCISE_ACTIVITIES.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.label}
+            </option>
+          ))}
+          <option value={MANUAL_ACTIVITY}>Other (enter calories)</option>
+        </select>
+        {!activity && (
+          <input
+            type="text"
+            className={inputClassName}
+            placeholder="Activity, e.g. Climbing"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+        )}
+        <div className="flex items-center space-x-2">
+          <input
+            type="number"
+            min="1"
+            className={inputClassName}
+            placeholder="Minutes"
+            value={duration}
+            onChange={(e) => setDuration(e.target.value)}
+          />
+          {activity ? (
+            <span className="w-full text-sm text-slate-500">
+              {estimate !== null ? `≈ ${estimate} kcal` : weightKg ? '' : 'Needs your weight'}
+            </span>
+          ) : (
+            <input
+              type="number"
+              min="0"
+              className={inputClassName}
+              placeholder="kcal burned"
+              value={calories}
+              onChange={(e) => setCalories(e.target.value)}
+            />
+          )}
+          <button type="submit" className="px-3 py-1.5 bg-cyan-600 text-white text-sm font-medium rounded-md hover:bg-cyan-700">
+            Add
+          </button>
+        </div>
+      </form>
+      {formError && <p className="text-xs text-red-600 mb-2">{formError}</p>}
+
+      {exerciseLog.length > 0 && (
+        <ul className="space-y-1 text-sm">
+          {exerciseLog.map((entry) => (
+            <li key={entry.id} className="flex items-center justify-between text-slate-600">
+              <span>
+                {entry.name}
+                <span className="ml-1.5 text-xs text-slate-400">
+                  {entry.durationMinutes} min · {formatEntryTime(entry.timestamp, timeZone)}
+                </span>
+              </span>
+              <span>
+                {entry.calories} kcal
+                <button
+                  onClick={() => onDeleteExercise(entry.id)}
+                  className="ml-2 text-xs text-slate-400 hover:text-red-600"
+                  title="Delete exercise"
+                >
+                  ✕
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ExerciseLogPanel;
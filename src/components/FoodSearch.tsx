@@ -0,0 +1,265 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { Food, LogEntry } from '@/lib/types';
+import { foodToLogEntry, nutritionForGrams, searchFoods } from '@/lib/foodDatabase';
+import { parseAmount } from '@/lib/nutrition';
+
+interface FoodSearchProps {
+  customFoods: Food[];
+  onAddEntry: (entry: LogEntry) => void;
+  onSaveCustomFood: (food: Food) => void;
+  onDeleteCustomFood: (id: string) => void;
+  addLabel?: string;
+}
+
+const inputClassName =
+  'w-full p-1.5 border border-slate-300 rounded text-slate-700 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-sm';
+
+const GRAMS_OPTION = -1; // Serving select value for entering an amount in grams
+
+// Search the local food database and log a food with exact nutrition, or add custom foods
+const FoodSearch = ({ customFoods, onAddEntry, onSaveCustomFood, onDeleteCustomFood, addLabel = 'Add to Log' }: FoodSearchProps) => {
+  const [query, setQuery] = useState<string>('');
+  const [selectedFood, setSelectedFood] = useState<Food | null>(null);
+  const [servingIndex, setServingIndex] = useState<number>(GRAMS_OPTION);
+  const [amount, setAmount] = useState<string>('');
+  const [isAddingCustom, setIsAddingCustom] = useState<boolean>(false);
+  const [customName, setCustomName] = useState<string>('');
+  const [customCalories, setCustomCalories] = useState<string>('');
+  const [customCarbs, setCustomCarbs] = useState<string>('');
+  const [customProtein, setCustomProtein] = useState<string>('');
+  const [customFat, setCustomFat] = useState<string>('');
+  const [customServingLabel, setCustomServingLabel] = useState<string>('');
+  const [customServingGrams, setCustomServingGrams] = useState<string>('');
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const results = useMemo(() => searchFoods(query, customFoods), [query, customFoods]);
+
+  const serving = selectedFood && servingIndex !== GRAMS_OPTION ? selectedFood.servings[servingIndex] : null;
+  const amountNum = Number(amount);
+  const grams = amount.trim() !== '' && !isNaN(amountNum) && amountNum > 0 ? (serving ? amountNum * serving.grams : amountNum) : null;
+  const preview = selectedFood && grams !== null ? nutritionForGrams(selectedFood, grams) : null;
+
+  const handleSelectFood = (food: Food) => {
+    setSelectedFood(food);
+    setServingIndex(food.servings.length > 0 ? 0 : GRAMS_OPTION);
+    setAmount(food.servings.length > 0 ? '1' : '100');
+    setFormError(null);
+  };
+
+  const handleAddFood = () => {
+    if (!selectedFood || grams === null) {
+      setFormError('Enter an amount greater than zero.');
+      return;
+    }
+    const quantityLabel = serving
+      ? `${amountNum === 1 ? '' : `${amountNum} x `}${serving.label}`
+      : `${Math.round(grams)} g`;
+    onAddEntry(foodToLogEntry(selectedFood, grams, quantityLabel));
+    setSelectedFood(null);
+    setQuery('');
+    setAmount('');
+  };
+
+  const resetCustomForm = () => {
+    setIsAddingCustom(false);
+    setCustomName('');
+    setCustomCalories('');
+    setCustomCarbs('');
+    setCustomProtein('');
+    setCustomFat('');
+    setCustomServingLabel('');
+    setCustomServingGrams('');
+  };
+
+  const handleSaveCustomFood = (e: React.FormEvent) => {
+    e.preventDefault();
+    const calories = parseAmount(customCalories);
+    const carbs = parseAmount(customCarbs);
+    const protein = parseAmount(customProtein);
+    const fat = parseAmount(customFat);
+    const servingGrams = parseAmount(customServingGrams);
+    if (!customName.trim()) {
+      setFormError('Give the food a name.');
+      return;
+    }
+    if (calories === null || carbs === null || protein === null || fat === null || servingGrams === null) {
+      setFormError('Nutrition values must be non-negative numbers.');
+      return;
+    }
+    const food: Food = {
+      id: 'custom-' + Date.now().toString() + Math.random().toString(36).substr(2, 9),
+      name: customName.trim(),
+      caloriesPer100g: calories,
+      macrosPer100g: { carbs, protein, fat },
+      servings: servingGrams > 0 ? [{ label: customServingLabel.trim() || '1 serving', grams: servingGrams }] : [],
+      custom: true,
+    };
+    onSaveCustomFood(food);
+    resetCustomForm();
+    setFormError(null);
+    handleSelectFood(food);
+  };
+
+  return (
+    <div className="space-y-3 text-sm">
+      <input
+        type="search"
+        className={inputClassName}
+        placeholder="Search foods, e.g. 'banana' or 'rice'"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setSelectedFood(null);
+        }}
+      />
+
+      {!selectedFood && query.trim() !== '' && (
+        results.length === 0 ? (
+          <p className="text-xs text-slate-500">No foods found. Add it as a custom food below.</p>
+        ) : (
+          <ul className="max-h-56 overflow-y-auto divide-y divide-slate-100 border border-slate-200 rounded-md bg-white">
+            {results.map((food) => (
+              <li key={food.id} className="flex items-center">
+                <button
+                  onClick={() => handleSelectFood(food)}
+                  className="flex-grow text-left px-2.5 py-2 hover:bg-slate-50"
+                >
+                  <span className="text-slate-700">{food.name}</span>
+                  {food.custom && <span className="ml-1.5 text-xs text-cyan-700">custom</span>}
+                  <span className="block text-xs text-slate-400">{food.caloriesPer100g} kcal / 100 g</span>
+                </button>
+                {food.custom && (
+                  <button
+                    onClick={() => onDeleteCustomFood(food.id)}
+                    className="p-1.5 mr-1 text-red-500 hover:text-red-700 hover:bg-red-100 rounded-full"
+                    aria-label={`Delete custom food ${food.name}`}
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M6 18 18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+
+      {selectedFood && (
+        <div className="p-3 bg-white border border-slate-200 rounded-md space-y-2">
+          <p className="font-medium text-slate-700">{selectedFood.name}</p>
+          <div className="flex space-x-2">
+            <input
+              type="number"
+              min="0"
+              step="any"
+              className={`${inputClassName} w-24`}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              aria-label="Amount"
+            />
+            <select
+              className={inputClassName}
+              value={servingIndex}
+              onChange={(e) => setServingIndex(Number(e.target.value))}
+              aria-label="Unit"
+            >
+              {selectedFood.servings.map((option, index) => (
+                <option key={option.label} value={index}>
+                  {option.label} ({option.grams} g)
+                </option>
+              ))}
+              <option value={GRAMS_OPTION}>grams</option>
+            </select>
+          </div>
+          {preview && (
+            <p className="text-xs text-slate-500">
+              {preview.calories} kcal · C: {preview.macros.carbs}g · P: {preview.macros.protein}g · F: {preview.macros.fat}g
+            </p>
+          )}
+          <div className="flex justify-end space-x-2">
+            <button
+              onClick={() => setSelectedFood(null)}
+              className="px-3 py-1.5 bg-slate-200 text-slate-700 font-medium rounded-md hover:bg-slate-300"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleAddFood}
+              disabled={grams === null}
+              className="px-3 py-1.5 bg-cyan-600 text-white font-medium rounded-md hover:bg-cyan-700 disabled:opacity-60"
+            >
+              {addLabel}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isAddingCustom ? (
+        <form onSubmit={handleSaveCustomFood} className="p-3 bg-white border border-slate-200 rounded-md space-y-2">
+          <input
+            type="text"
+            className={inputClassName}
+            placeholder="Food name"
+            value={customName}
+            onChange={(e) => setCustomName(e.target.value)}
+          />
+          <p className="text-xs text-slate-500">Per 100 g</p>
+          <div className="grid grid-cols-4 gap-2">
+            <label className="text-xs text-slate-500">
+              kcal
+              <input type="number" min="0" step="any" className={inputClassName} value={customCalories} onChange={(e) => setCustomCalories(e.target.value)} />
+            </label>
+            <label className="text-xs text-slate-500">
+              C (g)
+              <input type="number" min="0" step="any" className={inputClassName} value={customCarbs} onChange={(e) => setCustomCarbs(e.target.value)} />
+            </label>
+            <label className="text-xs text-slate-500">
+              P (g)
+              <input type="number" min="0" step="any" className={inputClassName} value={customProtein} onChange={(e) => setCustomProtein(e.target.value)} />
+            </label>
+            <label className="text-xs text-slate-500">
+              F (g)
+              <input type="number" min="0" step="any" className={inputClassName} value={customFat} onChange={(e) => setCustomFat(e.target.value)} />
+            </label>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <label className="col-span-2 text-xs text-slate-500">
+              Serving (optional)
+              <input type="text" className={inputClassName} placeholder="e.g. 1 bar" value={customServingLabel} onChange={(e) => setCustomServingLabel(e.target.value)} />
+            </label>
+            <label className="text-xs text-slate-500">
+              Grams
+              <input type="number" min="0" step="any" className={inputClassName} value={customServingGrams} onChange={(e) => setCustomServingGrams(e.target.value)} />
+            </label>
+          </div>
+          <div className="flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={resetCustomForm}
+              className="px-3 py-1.5 bg-slate-200 text-slate-700 font-medium rounded-md hover:bg-slate-300"
+            >
+              Cancel
+            </button>
+            <button type="submit" className="px-3 py-1.5 bg-cyan-600 text-white font-medium rounded-md hover:bg-cyan-700">
+              Save Food
+            </button>
+          </div>
+        </form>
+      ) : (
+        <button
+          onClick={() => setIsAddingCustom(true)}
+          className="text-xs font-medium text-cyan-700 hover:text-cyan-900"
+        >
+          + Add a custom food
+        </button>
+      )}
+
+      {formError && <p className="text-xs text-red-600">{formError}</p>}
+    </div>
+  );
+};
+
+export default FoodSearch;
@@ -0,0 +1,230 @@
+'use client';
+
+import React, { useState } from 'react';
+import { DateTime } from 'luxon';
+import { GoalSchedule, MacroProfile } from '@/lib/types';
+import { removeDayType, WEEKDAY_LABELS, WeekBudget } from '@/lib/goalSchedule';
+
+interface GoalSchedulePanelProps {
+  schedule: GoalSchedule;
+  baseGoal: number; // Goal on days without a day type
+  profiles: MacroProfile[]; // Built-in and custom, for choosing a day type's profile
+  today: string; // YYYY-MM-DD; overrides can't be set for earlier days
+  weekBudget: WeekBudget;
+  onChange: (schedule: GoalSchedule) => void;
+}
+
+const inputClassName =
+  'w-full p-1.5 border border-slate-300 rounded text-slate-700 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-sm';
+
+// Day types with their own goals, which weekdays and dates use them, and this week's budget
+const GoalSchedulePanel = ({ schedule, baseGoal, profiles, today, weekBudget, onChange }: GoalSchedulePanelProps) => {
+  const [name, setName] = useState<string>('');
+  const [goal, setGoal] = useState<string>('');
+  const [profileId, setProfileId] = useState<string>(''); // '' keeps the selected profile
+  const [overrideDate, setOverrideDate] = useState<string>(today);
+  const [overrideDayTypeId, setOverrideDayTypeId] = useState<string>('');
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const getDayTypeName = (id: string) => schedule.dayTypes.find((dayType) => dayType.id === id)?.name ?? '';
+
+  const handleAddDayType = (e: React.FormEvent) => {
+    e.preventDefault();
+    const goalNum = parseInt(goal, 10);
+    if (!name.trim()) {
+      setFormError('Give the day type a name.');
+      return;
+    }
+    if (isNaN(goalNum) || goalNum <= 0) {
+      setFormError('The goal must be a positive number.');
+      return;
+    }
+    onChange({
+      ...schedule,
+      dayTypes: [
+        ...schedule.dayTypes,
+        {
+          id: 'daytype-' + Date.now().toString() + Math.random().toString(36).substr(2, 9),
+          name: name.trim(),
+          dailyGoal: goalNum,
+          profileId: profileId || undefined,
+        },
+      ],
+    });
+    setName('');
+    setGoal('');
+    setProfileId('');
+    setFormError(null);
+  };
+
+  const handleWeekdayChange = (weekday: number, dayTypeId: string) => {
+    const weekdays = { ...schedule.weekdays };
+    if (dayTypeId) weekdays[weekday] = dayTypeId;
+    else delete weekdays[weekday];
+    onChange({ ...schedule, weekdays });
+  };
+
+  const handleAddOverride = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!overrideDate || overrideDate < today || !overrideDayTypeId) return;
+    onChange({ ...schedule, overrides: { ...schedule.overrides, [overrideDate]: overrideDayTypeId } });
+  };
+
+  const handleRemoveOverride = (date: string) => {
+    const overrides = { ...schedule.overrides };
+    delete overrides[date];
+    onChange({ ...schedule, overrides });
+  };
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="p-3 bg-white rounded-lg shadow-sm">
+        <div className="flex justify-between text-slate-600 mb-2">
+          <span>This week</span>
+          <span>
+            {weekBudget.eaten} of {weekBudget.goal} kcal
+            <span className="text-xs text-slate-400"> · {weekBudget.remaining} left</span>
+          </span>
+        </div>
+        <div className="grid grid-cols-7 gap-1 text-center text-xs">
+          {weekBudget.days.map((day) => (
+            <div
+              key={day.date}
+              className={`p-1 rounded ${day.date === today ? 'bg-cyan-50 font-medium text-cyan-700' : 'text-slate-500'}`}
+            >
+              <p>{DateTime.fromISO(day.date).toFormat('ccc')}</p>
+              <p className={day.eaten !== null && day.eaten > day.goal ? 'text-red-600' : ''}>{day.goal}</p>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <p className="text-xs font-semibold text-slate-500 mb-1.5">Day types</p>
+        {schedule.dayTypes.length > 0 && (
+          <ul className="space-y-1 mb-2">
+            {schedule.dayTypes.map((dayType) => (
+              <li key={dayType.id} className="flex items-center justify-between text-slate-600">
+                <span>
+                  {dayType.name}
+                  <span className="ml-1.5 text-xs text-slate-400">
+                    {dayType.dailyGoal} kcal
+                    {dayType.profileId && ` · ${profiles.find((profile) => profile.id === dayType.profileId)?.name ?? 'General'}`}
+                  </span>
+                </span>
+                <button
+                  onClick={() => onChange(removeDayType(schedule, dayType.id))}
+                  className="text-xs text-slate-400 hover:text-red-600"
+                >
+                  Delete
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <form onSubmit={handleAddDayType} className="grid grid-cols-3 gap-2">
+          <input
+            type="text"
+            className={inputClassName}
+            placeholder="e.g. Training day"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <input
+            type="number"
+            min="1"
+            className={inputClassName}
+            placeholder="kcal"
+            value={goal}
+            onChange={(e) => setGoal(e.target.value)}
+          />
+          <select className={inputClassName} value={profileId} onChange={(e) => setProfileId(e.target.value)}>
+            <option value="">Selected profile</option>
+            {profiles.map((profile) => (
+              <option key={profile.id} value={profile.id}>
+                {profile.name}
+              </option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            className="col-span-3 px-3 py-1.5 bg-slate-100 text-slate-700 text-xs font-medium rounded-md hover:bg-slate-200"
+          >
+            + Add day type
+          </button>
+        </form>
+        {formError && <p className="text-xs text-red-600 mt-1">{formError}</p>}
+      </div>
+
+      {schedule.dayTypes.length > 0 && (
+        <>
+          <div>
+            <p className="text-xs font-semibold text-slate-500 mb-1.5">Weekly schedule</p>
+            <div className="space-y-1">
+              {WEEKDAY_LABELS.map((label, index) => (
+                <label key={label} className="flex items-center justify-between text-slate-600">
+                  <span>{label}</span>
+                  <select
+                    className={`${inputClassName} w-44`}
+                    value={schedule.weekdays[index + 1] ?? ''}
+                    onChange={(e) => handleWeekdayChange(index + 1, e.target.value)}
+                  >
+                    <option value="">Default ({baseGoal} kcal)</option>
+                    {schedule.dayTypes.map((dayType) => (
+                      <option key={dayType.id} value={dayType.id}>
+                        {dayType.name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="text-xs font-semibold text-slate-500 mb-1.5">One-off days</p>
+            {Object.keys(schedule.overrides).length > 0 && (
+              <ul className="space-y-1 mb-2">
+                {Object.entries(schedule.overrides)
+                  .sort(([a], [b]) => a.localeCompare(b))
+                  .map(([date, dayTypeId]) => (
+                    <li key={date} className="flex items-center justify-between text-slate-600">
+                      <span>
+                        {DateTime.fromISO(date).toLocaleString(DateTime.DATE_MED)}
+                        <span className="ml-1.5 text-xs text-slate-400">{getDayTypeName(dayTypeId)}</span>
+                      </span>
+                      <button onClick={() => handleRemoveOverride(date)} className="text-xs text-slate-400 hover:text-red-600">
+                        Remove
+                      </button>
+                    </li>
+                  ))}
+              </ul>
+            )}
+            <form onSubmit={handleAddOverride} className="flex items-center space-x-2">
+              <input
+                type="date"
+                min={today}
+                className={inputClassName}
+                value={overrideDate}
+                onChange={(e) => setOverrideDate(e.target.value)}
+              />
+              <select className={inputClassName} value={overrideDayTypeId} onChange={(e) => setOverrideDayTypeId(e.target.value)}>
+                <option value="">Day type…</option>
+                {schedule.dayTypes.map((dayType) => (
+                  <option key={dayType.id} value={dayType.id}>
+                    {dayType.name}
+                  </option>
+                ))}
+              </select>
+              <button type="submit" className="px-3 py-1.5 bg-slate-100 text-slate-700 text-xs font-medium rounded-md hover:bg-slate-200">
+                Add
+              </button>
+            </form>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default GoalSchedulePanel;
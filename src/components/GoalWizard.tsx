@@ -0,0 +1,169 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ActivityLevel, BodyStats, MacroProfile } from '@/lib/types';
+import { ACTIVITY_LEVELS, MAX_WEEKLY_CHANGE_KG, proposeGoal } from '@/lib/energy';
+import { BUILT_IN_PROFILES } from '@/lib/profiles';
+
+interface GoalWizardProps {
+  bodyStats: BodyStats | null; // Previous answers, to recalculate
+  customProfiles: MacroProfile[];
+  onApply: (stats: BodyStats, dailyGoal: number, profileId: string) => void;
+  onCancel: () => void;
+}
+
+const inputClassName =
+  'w-full p-1.5 border border-slate-300 rounded text-slate-700 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-sm';
+
+// Parse body stats from the form fields, or return a description of the first problem
+const parseBodyStats = (fields: Record<'age' | 'height' | 'weight' | 'weeklyChange', string>, sex: BodyStats['sex'], activityLevel: ActivityLevel): BodyStats | string => {
+  const age = Number(fields.age);
+  const heightCm = Number(fields.height);
+  const weightKg = Number(fields.weight);
+  const weeklyChangeKg = Number(fields.weeklyChange || '0');
+  if (!fields.age.trim() || isNaN(age) || age < 15 || age > 100) return 'Enter an age between 15 and 100.';
+  if (!fields.height.trim() || isNaN(heightCm) || heightCm < 100 || heightCm > 250) return 'Enter a height between 100 and 250 cm.';
+  if (!fields.weight.trim() || isNaN(weightKg) || weightKg < 30 || weightKg > 300) return 'Enter a weight between 30 and 300 kg.';
+  if (isNaN(weeklyChangeKg) || Math.abs(weeklyChangeKg) > MAX_WEEKLY_CHANGE_KG) {
+    return `Choose a weekly change of at most ${MAX_WEEKLY_CHANGE_KG} kg either way.`;
+  }
+  return { sex, age, heightCm, weightKg, activityLevel, weeklyChangeKg };
+};
+
+// Asks for body stats, works out BMR and TDEE and proposes a daily goal and macro
+// profile, which the user can adjust before applying
+const GoalWizard = ({ bodyStats, customProfiles, onApply, onCancel }: GoalWizardProps) => {
+  const [sex, setSex] = useState<BodyStats['sex']>(bodyStats?.sex ?? 'female');
+  const [age, setAge] = useState<string>(bodyStats?.age.toString() ?? '');
+  const [height, setHeight] = useState<string>(bodyStats?.heightCm.toString() ?? '');
+  const [weight, setWeight] = useState<string>(bodyStats?.weightKg.toString() ?? '');
+  const [activityLevel, setActivityLevel] = useState<ActivityLevel>(bodyStats?.activityLevel ?? 'light');
+  const [weeklyChange, setWeeklyChange] = useState<string>(bodyStats?.weeklyChangeKg.toString() ?? '0');
+  // Overrides of the proposal; empty until the user changes them
+  const [goalOverride, setGoalOverride] = useState<string>('');
+  const [profileOverride, setProfileOverride] = useState<string>('');
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const stats = parseBodyStats({ age, height, weight, weeklyChange }, sex, activityLevel);
+  const proposal = typeof stats === 'string' ? null : proposeGoal(stats);
+  const dailyGoal = goalOverride.trim() !== '' ? Number(goalOverride) : proposal?.dailyGoal;
+  const profileId = profileOverride || proposal?.profileId || '';
+
+  const handleApply = () => {
+    if (typeof stats === 'string') {
+      setFormError(stats);
+      return;
+    }
+    if (dailyGoal === undefined || isNaN(dailyGoal) || dailyGoal <= 0) {
+      setFormError('The daily goal must be a positive number.');
+      return;
+    }
+    onApply(stats, Math.round(dailyGoal), profileId);
+  };
+
+  return (
+    <div className="w-full mb-6 p-4 bg-white border border-cyan-200 rounded-lg shadow-sm space-y-3 text-sm">
+      <div>
+        <h3 className="text-lg font-semibold text-slate-700">Set up your goal</h3>
+        <p className="text-xs text-slate-500">We&apos;ll estimate what you burn each day and suggest a calorie goal and macro profile.</p>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-xs text-slate-500">
+          Sex
+          <select className={inputClassName} value={sex} onChange={(e) => setSex(e.target.value as BodyStats['sex'])}>
+            <option value="female">Female</option>
+            <option value="male">Male</option>
+          </select>
+        </label>
+        <label className="text-xs text-slate-500">
+          Age
+          <input type="number" min="15" max="100" className={inputClassName} value={age} onChange={(e) => setAge(e.target.value)} />
+        </label>
+        <label className="text-xs text-slate-500">
+          Height (cm)
+          <input type="number" min="0" step="any" className={inputClassName} value={height} onChange={(e) => setHeight(e.target.value)} />
+        </label>
+        <label className="text-xs text-slate-500">
+          Weight (kg)
+          <input type="number" min="0" step="any" className={inputClassName} value={weight} onChange={(e) => setWeight(e.target.value)} />
+        </label>
+      </div>
+      <label className="block text-xs text-slate-500">
+        Activity level
+        <select className={inputClassName} value={activityLevel} onChange={(e) => setActivityLevel(e.target.value as ActivityLevel)}>
+          {ACTIVITY_LEVELS.map((option) => (
+            <option key={option.level} value={option.level}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="block text-xs text-slate-500">
+        Target change per week (kg, negative to lose)
+        <input
+          type="number"
+          min={-MAX_WEEKLY_CHANGE_KG}
+          max={MAX_WEEKLY_CHANGE_KG}
+          step="0.05"
+          className={inputClassName}
+          value={weeklyChange}
+          onChange={(e) => setWeeklyChange(e.target.value)}
+        />
+      </label>
+
+      {proposal && (
+        <div className="p-3 bg-cyan-50 rounded-md space-y-2">
+          <p className="text-xs text-slate-600">
+            BMR {proposal.bmr} kcal · TDEE {proposal.tdee} kcal (Mifflin-St Jeor)
+          </p>
+          {proposal.isAtMinimum && (
+            <p className="text-xs text-amber-700">
+              That rate of change would need a very low intake, so the suggestion is held at a safe minimum.
+            </p>
+          )}
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-xs text-slate-500">
+              Daily goal (kcal)
+              <input
+                type="number"
+                min="1"
+                className={inputClassName}
+                value={goalOverride || proposal.dailyGoal.toString()}
+                onChange={(e) => setGoalOverride(e.target.value)}
+              />
+            </label>
+            <label className="text-xs text-slate-500">
+              Macro profile
+              <select className={inputClassName} value={profileId} onChange={(e) => setProfileOverride(e.target.value)}>
+                {[...BUILT_IN_PROFILES, ...customProfiles].map((profile) => (
+                  <option key={profile.id} value={profile.id}>
+                    {profile.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+        </div>
+      )}
+
+      {formError && <p className="text-xs text-red-600">{formError}</p>}
+      <div className="flex justify-end space-x-2">
+        <button
+          onClick={onCancel}
+          className="px-3 py-1.5 bg-slate-200 text-slate-700 font-medium rounded-md hover:bg-slate-300"
+        >
+          Not now
+        </button>
+        <button
+          onClick={handleApply}
+          disabled={!proposal}
+          className="px-3 py-1.5 bg-cyan-600 text-white font-medium rounded-md hover:bg-cyan-700 disabled:opacity-60"
+        >
+          Use this goal
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default GoalWizard;
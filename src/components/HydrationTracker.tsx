@@ -0,0 +1,128 @@
+'use client';
+
+import React, { useState } from 'react';
+import { VolumeUnit } from '@/lib/types';
+import { formatVolume, fromDisplayVolume, QUICK_ADD_AMOUNTS, toDisplayVolume, VOLUME_UNIT_LABELS } from '@/lib/water';
+import { VOLUME_UNITS } from '@/lib/validators';
+
+interface HydrationTrackerProps {
+  waterMl: number; // Water logged today
+  drinksMl: number; // Volume of drinks in today's meals
+  goalMl: number;
+  unit: VolumeUnit;
+  onAddWater: (amountMl: number) => void;
+  onUndoWater?: () => void; // Omitted when there's nothing to undo
+  onChangeGoal: (goalMl: number) => void;
+  onChangeUnit: (unit: VolumeUnit) => void;
+}
+
+const inputClassName =
+  'w-full p-1.5 border border-slate-300 rounded text-slate-700 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-sm';
+
+// Today's hydration against the water target, with quick-add buttons
+const HydrationTracker = ({
+  waterMl,
+  drinksMl,
+  goalMl,
+  unit,
+  onAddWater,
+  onUndoWater,
+  onChangeGoal,
+  onChangeUnit,
+}: HydrationTrackerProps) => {
+  const [isEditingSettings, setIsEditingSettings] = useState<boolean>(false);
+  const [customAmount, setCustomAmount] = useState<string>('');
+
+  const totalMl = waterMl + drinksMl;
+  const percentage = Math.min((totalMl / goalMl) * 100, 100);
+
+  const handleAddCustom = (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = Number(customAmount);
+    if (customAmount.trim() === '' || isNaN(amount) || amount <= 0) return;
+    onAddWater(fromDisplayVolume(amount, unit));
+    setCustomAmount('');
+  };
+
+  return (
+    <div className="w-full mb-6">
+      <div className="flex justify-between text-sm text-slate-600 mb-1.5">
+        <span>
+          {formatVolume(totalMl, unit)} of {formatVolume(goalMl, unit)} water
+          {drinksMl > 0 && (
+            <span className="text-xs text-slate-400"> (incl. {formatVolume(drinksMl, unit)} from drinks)</span>
+          )}
+        </span>
+        <button
+          onClick={() => setIsEditingSettings(!isEditingSettings)}
+          className="text-xs font-medium text-cyan-700 hover:text-cyan-900"
+        >
+          {isEditingSettings ? 'Done' : 'Target'}
+        </button>
+      </div>
+      <div className="w-full bg-slate-200 rounded-full h-3 shadow-inner overflow-hidden">
+        <div
+          className="bg-sky-400 h-full rounded-full transition-all duration-500 ease-out"
+          style={{ width: `${percentage}%` }}
+        />
+      </div>
+
+      {isEditingSettings ? (
+        <div className="flex items-center space-x-2 mt-2 text-xs text-slate-500">
+          <label className="flex items-center space-x-1.5">
+            <span>Daily target</span>
+            <input
+              type="number"
+              min="1"
+              className={`${inputClassName} w-20`}
+              value={toDisplayVolume(goalMl, unit)}
+              onChange={(e) => {
+                const amount = Number(e.target.value);
+                if (amount > 0) onChangeGoal(fromDisplayVolume(amount, unit));
+              }}
+            />
+          </label>
+          <select className={`${inputClassName} w-20`} value={unit} onChange={(e) => onChangeUnit(e.target.value as VolumeUnit)}>
+            {VOLUME_UNITS.map((option) => (
+              <option key={option} value={option}>
+                {VOLUME_UNIT_LABELS[option]}
+              </option>
+            ))}
+          </select>
+        </div>
+      ) : (
+        <div className="flex items-center space-x-1.5 mt-2">
+          {QUICK_ADD_AMOUNTS[unit].map((amount) => (
+            <button
+              key={amount}
+              onClick={() => onAddWater(fromDisplayVolume(amount, unit))}
+              className="px-2.5 py-1 bg-sky-50 text-sky-700 text-xs font-medium rounded-full hover:bg-sky-100"
+            >
+              +{amount} {VOLUME_UNIT_LABELS[unit]}
+            </button>
+          ))}
+          <form onSubmit={handleAddCustom} className="flex items-center space-x-1">
+            <input
+              type="number"
+              min="0"
+              className={`${inputClassName} w-16 text-xs`}
+              placeholder={VOLUME_UNIT_LABELS[unit]}
+              value={customAmount}
+              onChange={(e) => setCustomAmount(e.target.value)}
+            />
+            <button type="submit" className="px-2 py-1 text-xs font-medium text-sky-700 hover:text-sky-900">
+              Add
+            </button>
+          </form>
+          {onUndoWater && (
+            <button onClick={onUndoWater} className="ml-auto text-xs text-slate-400 hover:text-slate-600" title="Remove the last drink">
+              Undo
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HydrationTracker;
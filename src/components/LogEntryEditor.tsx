@@ -0,0 +1,312 @@
+'use client';
+
+import React, { useState } from 'react';
+import { DateTime } from 'luxon';
+import { EstimateConfidence, LogEntry, MealItem, MealSlot, NutrientData, NutrientKey } from '@/lib/types';
+import { requestNutritionEstimate } from '@/lib/api';
+import { parseAmount, scaleMealItem, sumCalories, sumMacros } from '@/lib/nutrition';
+import { getDeviceTimeZone, getTimestampForDay } from '@/lib/dayBoundary';
+import { getDefaultSlot, MEAL_SLOT_LABELS } from '@/lib/mealSlots';
+import { combineNutrients, NUTRIENTS, roundNutrient } from '@/lib/nutrients';
+import { MEAL_SLOTS } from '@/lib/validators';
+
+interface LogEntryEditorProps {
+  entry?: LogEntry; // Omitted when adding a new entry
+  date: string; // YYYY-MM-DD of the day the entry belongs to
+  dayStartHour: number;
+  timeZone?: string; // Zone the day was logged in; defaults to the device zone
+  onSave: (entry: LogEntry) => void;
+  onCancel: () => void;
+}
+
+const inputClassName =
+  'w-full p-1.5 border border-slate-300 rounded text-slate-700 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-sm disabled:bg-slate-100 disabled:text-slate-500';
+
+// Nutrient fields as typed; an empty field means the amount is unknown
+type NutrientInputs = Partial<Record<NutrientKey, string>>;
+
+const toNutrientInputs = (nutrients: NutrientData | undefined): NutrientInputs =>
+  Object.fromEntries(Object.entries(nutrients ?? {}).map(([key, amount]) => [key, amount.toString()]));
+
+// Parse the nutrient fields, or null if any isn't a non-negative number
+const parseNutrientInputs = (inputs: NutrientInputs): NutrientData | null => {
+  const nutrients: NutrientData = {};
+  for (const nutrient of NUTRIENTS) {
+    const value = inputs[nutrient.key]?.trim() ?? '';
+    if (value === '') continue;
+    const amount = Number(value);
+    if (isNaN(amount) || amount < 0) return null;
+    nutrients[nutrient.key] = roundNutrient(nutrient, amount);
+  }
+  return nutrients;
+};
+
+// An item as first estimated plus the portion typed by the user; nutrition is
+// always rescaled from the original so repeated edits don't accumulate rounding
+interface ItemRow {
+  base: MealItem;
+  portion: string;
+}
+
+const toItemRows = (items: MealItem[] | undefined): ItemRow[] =>
+  (items ?? []).map((item) => ({ base: item, portion: item.portion.toString() }));
+
+// Scale each row to its typed portion, or null if any portion isn't a positive number
+const scaleItemRows = (rows: ItemRow[]): MealItem[] | null => {
+  const items: MealItem[] = [];
+  for (const row of rows) {
+    const portion = Number(row.portion);
+    if (row.portion.trim() === '' || isNaN(portion) || portion <= 0) return null;
+    items.push(scaleMealItem(row.base, portion));
+  }
+  return items;
+};
+
+// Inline form for editing an existing log entry or adding one to a given day
+const LogEntryEditor = ({ entry, date, dayStartHour, timeZone = getDeviceTimeZone(), onSave, onCancel }: LogEntryEditorProps) => {
+  const [text, setText] = useState<string>(entry?.text ?? '');
+  const [calories, setCalories] = useState<string>(entry ? entry.calories.toString() : '');
+  const [carbs, setCarbs] = useState<string>(entry ? entry.macros.carbs.toString() : '');
+  const [protein, setProtein] = useState<string>(entry ? entry.macros.protein.toString() : '');
+  const [fat, setFat] = useState<string>(entry ? entry.macros.fat.toString() : '');
+  const [time, setTime] = useState<string>(
+    DateTime.fromMillis(entry ? entry.timestamp : Date.now(), { zone: timeZone }).toFormat('HH:mm')
+  );
+  const [nutrientInputs, setNutrientInputs] = useState<NutrientInputs>(toNutrientInputs(entry?.nutrients));
+  const [showNutrients, setShowNutrients] = useState<boolean>(false);
+  const [slot, setSlot] = useState<MealSlot | ''>(entry?.slot ?? ''); // '' follows the time
+  const [itemRows, setItemRows] = useState<ItemRow[]>(toItemRows(entry?.items));
+  // The AI's confidence and the calorie total it applies to; dropped once the user changes the total
+  const [estimate, setEstimate] = useState<{ confidence: EstimateConfidence; calories: number } | null>(
+    entry?.confidence ? { confidence: entry.confidence, calories: entry.calories } : null
+  );
+  const [isEstimating, setIsEstimating] = useState<boolean>(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const hasItems = itemRows.length > 0;
+  const typedTimestamp = getTimestampForDay(date, time, dayStartHour, timeZone);
+  const defaultSlot = getDefaultSlot(typedTimestamp.isValid ? typedTimestamp.toMillis() : Date.now(), timeZone);
+
+  // Replace the item rows and keep the totals fields in step with them
+  const updateItemRows = (rows: ItemRow[]) => {
+    setItemRows(rows);
+    const items = scaleItemRows(rows);
+    if (!items) return;
+    const macros = sumMacros(items);
+    setCalories(sumCalories(items).toString());
+    setCarbs(macros.carbs.toString());
+    setProtein(macros.protein.toString());
+    setFat(macros.fat.toString());
+    setNutrientInputs(toNutrientInputs(combineNutrients(items)));
+  };
+
+  const handlePortionChange = (index: number, portion: string) => {
+    updateItemRows(itemRows.map((row, i) => (i === index ? { ...row, portion } : row)));
+  };
+
+  const handleRemoveItem = (index: number) => {
+    updateItemRows(itemRows.filter((_, i) => i !== index));
+  };
+
+  const handleEstimate = async () => {
+    if (!text.trim()) {
+      setFormError('Enter a description to estimate.');
+      return;
+    }
+    setIsEstimating(true);
+    setFormError(null);
+    try {
+      const estimate = await requestNutritionEstimate(text.trim());
+      setItemRows(toItemRows(estimate.items));
+      setEstimate({ confidence: estimate.confidence, calories: estimate.calories });
+      setCalories(estimate.calories.toString());
+      setCarbs(estimate.macros.carbs.toString());
+      setProtein(estimate.macros.protein.toString());
+      setFat(estimate.macros.fat.toString());
+      setNutrientInputs(toNutrientInputs(estimate.nutrients));
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to estimate calories.');
+    }
+    setIsEstimating(false);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const items = scaleItemRows(itemRows);
+    if (!items) {
+      setFormError('Item portions must be positive numbers.');
+      return;
+    }
+    const caloriesNum = parseAmount(calories, { round: true });
+    const carbsNum = parseAmount(carbs, { round: true });
+    const proteinNum = parseAmount(protein, { round: true });
+    const fatNum = parseAmount(fat, { round: true });
+    if (caloriesNum === null || carbsNum === null || proteinNum === null || fatNum === null) {
+      setFormError('Calories and macros must be non-negative numbers.');
+      return;
+    }
+    const nutrients = hasItems ? combineNutrients(items) : parseNutrientInputs(nutrientInputs);
+    if (!nutrients) {
+      setFormError('Nutrient amounts must be non-negative numbers, or empty if unknown.');
+      return;
+    }
+    const timestamp = getTimestampForDay(date, time, dayStartHour, timeZone);
+    if (!timestamp.isValid) {
+      setFormError('Enter a valid time.');
+      return;
+    }
+    const totalCalories = hasItems ? sumCalories(items) : caloriesNum;
+    onSave({
+      ...entry,
+      id: entry?.id ?? Date.now().toString() + Math.random().toString(36).substr(2, 9),
+      text: text.trim() || 'Logged Meal',
+      calories: totalCalories,
+      macros: hasItems ? sumMacros(items) : { carbs: carbsNum, protein: proteinNum, fat: fatNum },
+      nutrients,
+      timestamp: timestamp.toMillis(),
+      items: hasItems ? items : undefined,
+      slot: slot || undefined,
+      confidence: estimate && estimate.calories === totalCalories ? estimate.confidence : undefined,
+      // Still waiting for an estimate unless the user filled in the numbers
+      pending:
+        entry?.pending && !hasItems && totalCalories === 0
+          ? { ...entry.pending, text: text.trim(), error: undefined }
+          : undefined,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2 text-sm">
+      <input
+        type="text"
+        className={inputClassName}
+        placeholder="Meal description"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+      />
+      {hasItems && (
+        <ul className="space-y-1">
+          {itemRows.map((row, index) => (
+            <li key={index} className="flex items-center space-x-2">
+              <span className="flex-grow text-slate-700 truncate">{row.base.name}</span>
+              <input
+                type="number"
+                min="0"
+                step="any"
+                className={`${inputClassName} w-20`}
+                value={row.portion}
+                onChange={(e) => handlePortionChange(index, e.target.value)}
+                aria-label={`Portion of ${row.base.name}`}
+              />
+              <span className="w-12 text-xs text-slate-500 truncate">{row.base.unit}</span>
+              <span className="w-16 text-right text-xs text-slate-500">
+                {scaleItemRows([row])?.[0].calories ?? '–'} kcal
+              </span>
+              <button
+                type="button"
+                onClick={() => handleRemoveItem(index)}
+                className="p-1 text-red-500 hover:text-red-700 hover:bg-red-100 rounded-full"
+                aria-label={`Remove ${row.base.name}`}
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M6 18 18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="grid grid-cols-5 gap-2">
+        <label className="col-span-2 text-xs text-slate-500">
+          kcal
+          <input type="number" min="0" className={inputClassName} value={calories} onChange={(e) => setCalories(e.target.value)} disabled={hasItems} />
+        </label>
+        <label className="text-xs text-slate-500">
+          C (g)
+          <input type="number" min="0" className={inputClassName} value={carbs} onChange={(e) => setCarbs(e.target.value)} disabled={hasItems} />
+        </label>
+        <label className="text-xs text-slate-500">
+          P (g)
+          <input type="number" min="0" className={inputClassName} value={protein} onChange={(e) => setProtein(e.target.value)} disabled={hasItems} />
+        </label>
+        <label className="text-xs text-slate-500">
+          F (g)
+          <input type="number" min="0" className={inputClassName} value={fat} onChange={(e) => setFat(e.target.value)} disabled={hasItems} />
+        </label>
+      </div>
+      <button
+        type="button"
+        onClick={() => setShowNutrients(!showNutrients)}
+        className="text-xs font-medium text-cyan-700 hover:text-cyan-900"
+      >
+        {showNutrients ? 'Hide nutrients' : 'More nutrients'}
+      </button>
+      {showNutrients && (
+        <div className="grid grid-cols-3 gap-2">
+          {NUTRIENTS.map((nutrient) => (
+            <label key={nutrient.key} className="text-xs text-slate-500">
+              {nutrient.label} ({nutrient.unit})
+              <input
+                type="number"
+                min="0"
+                step="any"
+                className={inputClassName}
+                placeholder="Unknown"
+                value={nutrientInputs[nutrient.key] ?? ''}
+                onChange={(e) => setNutrientInputs({ ...nutrientInputs, [nutrient.key]: e.target.value })}
+                disabled={hasItems}
+              />
+            </label>
+          ))}
+        </div>
+      )}
+      <div className="flex items-center space-x-2">
+        <label className="text-xs text-slate-500 flex items-center space-x-2">
+          <span>Time</span>
+          <input type="time" className={inputClassName} value={time} onChange={(e) => setTime(e.target.value)} />
+        </label>
+        <select
+          className={`${inputClassName} w-auto`}
+          value={slot}
+          onChange={(e) => setSlot(e.target.value as MealSlot | '')}
+          aria-label="Meal"
+        >
+          <option value="">{MEAL_SLOT_LABELS[defaultSlot]} (from time)</option>
+          {MEAL_SLOTS.map((option) => (
+            <option key={option} value={option}>
+              {MEAL_SLOT_LABELS[option]}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={handleEstimate}
+          disabled={isEstimating}
+          className="ml-auto px-2.5 py-1.5 text-xs font-medium text-sky-700 bg-sky-50 rounded-md hover:bg-sky-100 disabled:opacity-60"
+        >
+          {isEstimating ? 'Estimating...' : 'Estimate with AI'}
+        </button>
+      </div>
+      {hasItems && <p className="text-xs text-slate-500">Totals are the sum of the items above. Remove every item to enter them by hand.</p>}
+      {formError && <p className="text-xs text-red-600">{formError}</p>}
+      <div className="flex justify-end space-x-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-1.5 bg-slate-200 text-slate-700 font-medium rounded-md hover:bg-slate-300"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isEstimating}
+          className="px-3 py-1.5 bg-cyan-600 text-white font-medium rounded-md hover:bg-cyan-700 disabled:opacity-60"
+        >
+          Save
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default LogEntryEditor;
@@ -0,0 +1,29 @@
+'use client';
+
+import React from 'react';
+import { MealItem } from '@/lib/types';
+
+interface MealItemListProps {
+  items: MealItem[];
+  className?: string;
+}
+
+// Formats a portion like "120 g" or "1.5 slice"
+const formatPortion = (item: MealItem): string =>
+  `${Number(item.portion.toFixed(1))} ${item.unit}`;
+
+// Read-only breakdown of an itemized log entry
+const MealItemList = ({ items, className = '' }: MealItemListProps) => (
+  <ul className={`text-xs text-slate-500 space-y-0.5 ${className}`}>
+    {items.map((item, index) => (
+      <li key={index} className="flex justify-between">
+        <span className="truncate mr-2">
+          {item.name} <span className="text-slate-400">· {formatPortion(item)}</span>
+        </span>
+        <span className="whitespace-nowrap">{item.calories} kcal</span>
+      </li>
+    ))}
+  </ul>
+);
+
+export default MealItemList;
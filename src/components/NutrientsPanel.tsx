@@ -0,0 +1,85 @@
+'use client';
+
+import React, { useState } from 'react';
+import { NutrientGoals, NutrientKey } from '@/lib/types';
+import { isOffNutrientGoal, NutrientTotal, NUTRIENTS } from '@/lib/nutrients';
+
+interface NutrientsPanelProps {
+  totals: Record<NutrientKey, NutrientTotal>;
+  goals: NutrientGoals;
+  onChangeGoal: (key: NutrientKey, amount: number | null) => void; // null removes the goal
+}
+
+const inputClassName =
+  'w-full p-1.5 border border-slate-300 rounded text-slate-700 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-sm';
+
+// Today's totals for the extended nutrients, with optional daily limits and targets
+const NutrientsPanel = ({ totals, goals, onChangeGoal }: NutrientsPanelProps) => {
+  const [isEditingGoals, setIsEditingGoals] = useState<boolean>(false);
+
+  return (
+    <div className="w-full mb-6">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-lg font-semibold text-slate-700">Nutrients</h3>
+        <button
+          onClick={() => setIsEditingGoals(!isEditingGoals)}
+          className="text-xs font-medium text-cyan-700 hover:text-cyan-900"
+        >
+          {isEditingGoals ? 'Done' : 'Limits & targets'}
+        </button>
+      </div>
+      <ul className="space-y-1.5 text-sm">
+        {NUTRIENTS.map((nutrient) => {
+          const total = totals[nutrient.key];
+          const goal = goals[nutrient.key];
+          const isOff = isOffNutrientGoal(nutrient, total.amount, goals);
+          return (
+            <li key={nutrient.key} className="flex items-center justify-between text-slate-600">
+              <span>
+                {nutrient.label}
+                {total.unknownEntries > 0 && (
+                  <span
+                    className="ml-1.5 text-xs text-slate-400"
+                    title="These meals don't have this nutrient, so the real total may be higher"
+                  >
+                    ({total.unknownEntries} unknown)
+                  </span>
+                )}
+              </span>
+              {isEditingGoals ? (
+                <label className="flex items-center space-x-1.5 text-xs text-slate-500">
+                  <span>{nutrient.goalType === 'limit' ? 'Max' : 'Min'}</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    className={`${inputClassName} w-20`}
+                    placeholder="None"
+                    value={goal ?? ''}
+                    onChange={(e) => {
+                      const amount = Number(e.target.value);
+                      onChangeGoal(nutrient.key, e.target.value.trim() !== '' && amount > 0 ? amount : null);
+                    }}
+                  />
+                  <span className="w-5">{nutrient.unit}</span>
+                </label>
+              ) : (
+                <span className={isOff ? 'font-medium text-red-600' : ''}>
+                  {total.amount} {nutrient.unit}
+                  {goal !== undefined && (
+                    <span className="text-xs text-slate-400">
+                      {' '}
+                      / {goal} {nutrient.unit} {nutrient.goalType}
+                    </span>
+                  )}
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default NutrientsPanel;
@@ -0,0 +1,29 @@
+'use client';
+
+import React from 'react';
+import { PendingEstimate } from '@/lib/types';
+
+interface PendingEstimateNoteProps {
+  pending: PendingEstimate;
+  onRetry?: () => void;
+}
+
+// Status of a meal logged offline: waiting for a connection, or failed with a reason
+const PendingEstimateNote = ({ pending, onRetry }: PendingEstimateNoteProps) =>
+  pending.error ? (
+    <p className="text-xs text-red-600">
+      Couldn&apos;t estimate: {pending.error}{' '}
+      {onRetry && (
+        <button onClick={onRetry} className="font-medium underline hover:text-red-800">
+          Retry
+        </button>
+      )}
+    </p>
+  ) : (
+    <p className="text-xs text-amber-700 flex items-center">
+      <span className="inline-block w-2 h-2 mr-1.5 rounded-full bg-amber-400 animate-pulse" />
+      Pending: will be estimated when you&apos;re back online
+    </p>
+  );
+
+export default PendingEstimateNote;
@@ -0,0 +1,127 @@
+'use client';
+
+import React, { useState } from 'react';
+import { MacroProfile, MacroTargetMode } from '@/lib/types';
+import { parseAmount } from '@/lib/nutrition';
+
+interface ProfileEditorProps {
+  profile?: MacroProfile; // Omitted when creating a new profile
+  onSave: (profile: MacroProfile) => void;
+  onCancel: () => void;
+}
+
+const inputClassName =
+  'w-full p-1.5 border border-slate-300 rounded text-slate-700 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-sm';
+
+const MODE_LABELS: Record<MacroTargetMode, string> = {
+  percent: '% of calories',
+  grams: 'grams per day',
+  gramsPerKg: 'grams per kg of bodyweight',
+};
+
+const MODE_UNITS: Record<MacroTargetMode, string> = {
+  percent: '%',
+  grams: 'g',
+  gramsPerKg: 'g/kg',
+};
+
+// Form for creating or editing a custom macro profile
+const ProfileEditor = ({ profile, onSave, onCancel }: ProfileEditorProps) => {
+  const [name, setName] = useState<string>(profile?.name ?? '');
+  const [mode, setMode] = useState<MacroTargetMode>(profile?.mode ?? 'percent');
+  const [carbs, setCarbs] = useState<string>(profile ? profile.carbs.toString() : '');
+  const [protein, setProtein] = useState<string>(profile ? profile.protein.toString() : '');
+  const [fat, setFat] = useState<string>(profile ? profile.fat.toString() : '');
+  const [bodyweight, setBodyweight] = useState<string>(profile?.bodyweightKg?.toString() ?? '');
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const carbsNum = parseAmount(carbs);
+    const proteinNum = parseAmount(protein);
+    const fatNum = parseAmount(fat);
+    const bodyweightNum = Number(bodyweight);
+    if (!name.trim()) {
+      setFormError('Give the profile a name.');
+      return;
+    }
+    if (carbsNum === null || proteinNum === null || fatNum === null) {
+      setFormError('Targets must be non-negative numbers.');
+      return;
+    }
+    if (mode === 'percent' && Math.round(carbsNum + proteinNum + fatNum) !== 100) {
+      setFormError('Percentages must add up to 100.');
+      return;
+    }
+    if (mode === 'gramsPerKg' && (isNaN(bodyweightNum) || bodyweightNum <= 0)) {
+      setFormError('Enter your bodyweight in kg.');
+      return;
+    }
+    onSave({
+      id: profile?.id ?? 'profile-' + Date.now().toString() + Math.random().toString(36).substr(2, 9),
+      name: name.trim(),
+      mode,
+      carbs: carbsNum,
+      protein: proteinNum,
+      fat: fatNum,
+      bodyweightKg: mode === 'gramsPerKg' ? bodyweightNum : undefined,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="p-3 bg-white border border-slate-200 rounded-lg space-y-2 text-sm">
+      <input
+        type="text"
+        className={inputClassName}
+        placeholder="Profile name"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+      />
+      <label className="block text-xs text-slate-500">
+        Targets in
+        <select className={inputClassName} value={mode} onChange={(e) => setMode(e.target.value as MacroTargetMode)}>
+          {(Object.keys(MODE_LABELS) as MacroTargetMode[]).map((option) => (
+            <option key={option} value={option}>
+              {MODE_LABELS[option]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <div className="grid grid-cols-3 gap-2">
+        <label className="text-xs text-slate-500">
+          Carbs ({MODE_UNITS[mode]})
+          <input type="number" min="0" step="any" className={inputClassName} value={carbs} onChange={(e) => setCarbs(e.target.value)} />
+        </label>
+        <label className="text-xs text-slate-500">
+          Protein ({MODE_UNITS[mode]})
+          <input type="number" min="0" step="any" className={inputClassName} value={protein} onChange={(e) => setProtein(e.target.value)} />
+        </label>
+        <label className="text-xs text-slate-500">
+          Fat ({MODE_UNITS[mode]})
+          <input type="number" min="0" step="any" className={inputClassName} value={fat} onChange={(e) => setFat(e.target.value)} />
+        </label>
+      </div>
+      {mode === 'gramsPerKg' && (
+        <label className="block text-xs text-slate-500">
+          Bodyweight (kg)
+          <input type="number" min="0" step="any" className={inputClassName} value={bodyweight} onChange={(e) => setBodyweight(e.target.value)} />
+        </label>
+      )}
+      {formError && <p className="text-xs text-red-600">{formError}</p>}
+      <div className="flex justify-end space-x-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-1.5 bg-slate-200 text-slate-700 font-medium rounded-md hover:bg-slate-300"
+        >
+          Cancel
+        </button>
+        <button type="submit" className="px-3 py-1.5 bg-cyan-600 text-white font-medium rounded-md hover:bg-cyan-700">
+          Save Profile
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default ProfileEditor;
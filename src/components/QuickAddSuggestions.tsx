@@ -0,0 +1,38 @@
+'use client';
+
+import React from 'react';
+import { QuickAddSuggestion } from '@/lib/suggestions';
+
+interface QuickAddSuggestionsProps {
+  suggestions: QuickAddSuggestion[];
+  onAdd: (suggestion: QuickAddSuggestion) => void;
+  disabled?: boolean;
+}
+
+// Strip of meals the user often logs around this time; one tap logs the meal again
+const QuickAddSuggestions = ({ suggestions, onAdd, disabled }: QuickAddSuggestionsProps) => {
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div className="w-full mb-4">
+      <p className="text-xs font-medium text-slate-500 mb-1.5">Quick add</p>
+      <ul className="flex space-x-2 overflow-x-auto pb-1">
+        {suggestions.map((suggestion) => (
+          <li key={suggestion.key} className="flex-shrink-0">
+            <button
+              onClick={() => onAdd(suggestion)}
+              disabled={disabled}
+              className="max-w-[12rem] px-3 py-1.5 text-left bg-white border border-slate-200 rounded-full shadow-sm hover:bg-cyan-50 hover:border-cyan-300 disabled:opacity-60"
+              title={`Logged ${suggestion.count} ${suggestion.count === 1 ? 'time' : 'times'}`}
+            >
+              <span className="block text-sm text-slate-700 truncate">{suggestion.entry.text}</span>
+              <span className="block text-xs text-slate-400">{suggestion.entry.calories} kcal</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default QuickAddSuggestions;
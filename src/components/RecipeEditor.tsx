@@ -0,0 +1,281 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Food, LogEntry, MealItem, NutrientData, Recipe } from '@/lib/types';
+import { requestNutritionEstimate } from '@/lib/api';
+import { getRecipeTotals } from '@/lib/recipes';
+import { parseAmount } from '@/lib/nutrition';
+import FoodSearch from '@/components/FoodSearch';
+
+interface RecipeEditorProps {
+  recipe?: Recipe; // Omitted when creating a new recipe
+  customFoods: Food[];
+  onSaveCustomFood: (food: Food) => void;
+  onDeleteCustomFood: (id: string) => void;
+  onSave: (fields: Pick<Recipe, 'name' | 'ingredients' | 'servings'>) => void;
+  onCancel: () => void;
+}
+
+const inputClassName =
+  'w-full p-1.5 border border-slate-300 rounded text-slate-700 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-sm';
+
+// Ingredient fields as typed, so half-finished numbers don't get coerced while editing
+interface IngredientRow {
+  name: string;
+  portion: string;
+  unit: string;
+  calories: string;
+  carbs: string;
+  protein: string;
+  fat: string;
+  nutrients?: NutrientData; // Carried over from the source; dropped once the amounts are edited
+}
+
+const toIngredientRow = (item: MealItem): IngredientRow => ({
+  name: item.name,
+  portion: item.portion.toString(),
+  unit: item.unit,
+  calories: item.calories.toString(),
+  carbs: item.macros.carbs.toString(),
+  protein: item.macros.protein.toString(),
+  fat: item.macros.fat.toString(),
+  nutrients: item.nutrients,
+});
+
+const EMPTY_ROW: IngredientRow = { name: '', portion: '1', unit: 'serving', calories: '', carbs: '', protein: '', fat: '' };
+
+// Convert rows to ingredients, or return a description of the first problem
+const parseIngredientRows = (rows: IngredientRow[]): MealItem[] | string => {
+  const ingredients: MealItem[] = [];
+  for (const row of rows) {
+    const portion = parseAmount(row.portion);
+    const calories = parseAmount(row.calories);
+    const carbs = parseAmount(row.carbs);
+    const protein = parseAmount(row.protein);
+    const fat = parseAmount(row.fat);
+    if (!row.name.trim()) return 'Every ingredient needs a name.';
+    if (portion === null || calories === null || carbs === null || protein === null || fat === null) {
+      return `Amounts for "${row.name.trim()}" must be non-negative numbers.`;
+    }
+    ingredients.push({
+      name: row.name.trim(),
+      portion,
+      unit: row.unit.trim(),
+      calories: Math.round(calories),
+      macros: { carbs: Math.round(carbs), protein: Math.round(protein), fat: Math.round(fat) },
+      ...(row.nutrients && { nutrients: row.nutrients }),
+    });
+  }
+  return ingredients;
+};
+
+type IngredientSource = 'food' | 'ai' | null;
+
+// Form for defining a recipe from ingredients added by hand, from the food database or by AI
+const RecipeEditor = ({ recipe, customFoods, onSaveCustomFood, onDeleteCustomFood, onSave, onCancel }: RecipeEditorProps) => {
+  const [name, setName] = useState<string>(recipe?.name ?? '');
+  const [servings, setServings] = useState<string>(recipe ? recipe.servings.toString() : '4');
+  const [rows, setRows] = useState<IngredientRow[]>((recipe?.ingredients ?? []).map(toIngredientRow));
+  const [source, setSource] = useState<IngredientSource>(null);
+  const [aiText, setAiText] = useState<string>('');
+  const [isEstimating, setIsEstimating] = useState<boolean>(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const parsed = parseIngredientRows(rows);
+  const servingsNum = Number(servings);
+  const perServing =
+    typeof parsed !== 'string' && servingsNum > 0
+      ? Math.round(getRecipeTotals({ ingredients: parsed }).calories / servingsNum)
+      : null;
+
+  const updateRow = (index: number, field: Exclude<keyof IngredientRow, 'nutrients'>, value: string) => {
+    const keepsNutrients = field === 'name' || field === 'unit';
+    setRows(rows.map((row, i) => (i === index ? { ...row, [field]: value, ...(!keepsNutrients && { nutrients: undefined }) } : row)));
+  };
+
+  const addIngredients = (items: MealItem[]) => {
+    setRows((prevRows) => [...prevRows, ...items.map(toIngredientRow)]);
+  };
+
+  const handleAddFoodIngredient = (entry: LogEntry) => {
+    addIngredients(entry.items ?? []);
+    setSource(null);
+  };
+
+  const handleEstimateIngredients = async () => {
+    if (!aiText.trim()) return;
+    setIsEstimating(true);
+    setFormError(null);
+    try {
+      const estimate = await requestNutritionEstimate(aiText.trim());
+      addIngredients(estimate.items);
+      setAiText('');
+      setSource(null);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to estimate ingredients.');
+    }
+    setIsEstimating(false);
+  };
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      setFormError('Give the recipe a name.');
+      return;
+    }
+    if (isNaN(servingsNum) || servingsNum <= 0) {
+      setFormError('The recipe must make more than zero servings.');
+      return;
+    }
+    if (typeof parsed === 'string') {
+      setFormError(parsed);
+      return;
+    }
+    if (parsed.length === 0) {
+      setFormError('Add at least one ingredient.');
+      return;
+    }
+    onSave({ name: name.trim(), ingredients: parsed, servings: servingsNum });
+  };
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="grid grid-cols-3 gap-2">
+        <label className="col-span-2 text-xs text-slate-500">
+          Name
+          <input type="text" className={inputClassName} placeholder="e.g. Chili" value={name} onChange={(e) => setName(e.target.value)} />
+        </label>
+        <label className="text-xs text-slate-500">
+          Makes (servings)
+          <input type="number" min="0" step="any" className={inputClassName} value={servings} onChange={(e) => setServings(e.target.value)} />
+        </label>
+      </div>
+
+      <div>
+        <p className="text-xs font-medium text-slate-600 mb-1">Ingredients</p>
+        {rows.length === 0 && <p className="text-xs text-slate-400 italic">No ingredients yet.</p>}
+        <ul className="space-y-2">
+          {rows.map((row, index) => (
+            <li key={index} className="p-2 bg-white border border-slate-200 rounded-md space-y-1.5">
+              <div className="flex items-center space-x-2">
+                <input
+                  type="text"
+                  className={inputClassName}
+                  placeholder="Ingredient"
+                  value={row.name}
+                  onChange={(e) => updateRow(index, 'name', e.target.value)}
+                />
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  className={`${inputClassName} w-20`}
+                  value={row.portion}
+                  onChange={(e) => updateRow(index, 'portion', e.target.value)}
+                  aria-label="Amount"
+                />
+                <input
+                  type="text"
+                  className={`${inputClassName} w-20`}
+                  value={row.unit}
+                  onChange={(e) => updateRow(index, 'unit', e.target.value)}
+                  aria-label="Unit"
+                />
+                <button
+                  onClick={() => setRows(rows.filter((_, i) => i !== index))}
+                  className="p-1 text-red-500 hover:text-red-700 hover:bg-red-100 rounded-full"
+                  aria-label={`Remove ${row.name || 'ingredient'}`}
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M6 18 18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+              <div className="grid grid-cols-4 gap-2">
+                <label className="text-xs text-slate-500">
+                  kcal
+                  <input type="number" min="0" className={inputClassName} value={row.calories} onChange={(e) => updateRow(index, 'calories', e.target.value)} />
+                </label>
+                <label className="text-xs text-slate-500">
+                  C (g)
+                  <input type="number" min="0" className={inputClassName} value={row.carbs} onChange={(e) => updateRow(index, 'carbs', e.target.value)} />
+                </label>
+                <label className="text-xs text-slate-500">
+                  P (g)
+                  <input type="number" min="0" className={inputClassName} value={row.protein} onChange={(e) => updateRow(index, 'protein', e.target.value)} />
+                </label>
+                <label className="text-xs text-slate-500">
+                  F (g)
+                  <input type="number" min="0" className={inputClassName} value={row.fat} onChange={(e) => updateRow(index, 'fat', e.target.value)} />
+                </label>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div className="flex space-x-3 text-xs font-medium">
+        <button onClick={() => setRows([...rows, EMPTY_ROW])} className="text-cyan-700 hover:text-cyan-900">
+          + Add manually
+        </button>
+        <button onClick={() => setSource(source === 'food' ? null : 'food')} className="text-cyan-700 hover:text-cyan-900">
+          + From food database
+        </button>
+        <button onClick={() => setSource(source === 'ai' ? null : 'ai')} className="text-sky-700 hover:text-sky-900">
+          + Estimate with AI
+        </button>
+      </div>
+
+      {source === 'food' && (
+        <div className="p-2 bg-slate-100 rounded-md">
+          <FoodSearch
+            customFoods={customFoods}
+            onAddEntry={handleAddFoodIngredient}
+            onSaveCustomFood={onSaveCustomFood}
+            onDeleteCustomFood={onDeleteCustomFood}
+            addLabel="Add Ingredient"
+          />
+        </div>
+      )}
+      {source === 'ai' && (
+        <div className="flex space-x-2">
+          <input
+            type="text"
+            className={inputClassName}
+            placeholder="e.g. '500 g minced beef, 2 cans kidney beans, 1 onion'"
+            value={aiText}
+            onChange={(e) => setAiText(e.target.value)}
+          />
+          <button
+            onClick={handleEstimateIngredients}
+            disabled={isEstimating || !aiText.trim()}
+            className="px-2.5 py-1.5 text-xs font-medium text-sky-700 bg-sky-50 rounded-md hover:bg-sky-100 disabled:opacity-60 whitespace-nowrap"
+          >
+            {isEstimating ? 'Estimating...' : 'Estimate'}
+          </button>
+        </div>
+      )}
+
+      {perServing !== null && rows.length > 0 && (
+        <p className="text-xs text-slate-600">{perServing} kcal per serving</p>
+      )}
+      {formError && <p className="text-xs text-red-600">{formError}</p>}
+      <div className="flex justify-end space-x-2">
+        <button
+          onClick={onCancel}
+          className="px-3 py-1.5 bg-slate-200 text-slate-700 font-medium rounded-md hover:bg-slate-300"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={isEstimating}
+          className="px-3 py-1.5 bg-cyan-600 text-white font-medium rounded-md hover:bg-cyan-700 disabled:opacity-60"
+        >
+          Save Recipe
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RecipeEditor;
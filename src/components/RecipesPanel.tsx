@@ -0,0 +1,123 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Food, LogEntry, Recipe } from '@/lib/types';
+import { getRecipeNutrition, recipeToLogEntry } from '@/lib/recipes';
+import RecipeEditor from '@/components/RecipeEditor';
+
+interface RecipesPanelProps {
+  recipes: Recipe[];
+  customFoods: Food[];
+  onSaveCustomFood: (food: Food) => void;
+  onDeleteCustomFood: (id: string) => void;
+  onSaveRecipe: (previous: Recipe | null, fields: Pick<Recipe, 'name' | 'ingredients' | 'servings'>) => void;
+  onDeleteRecipe: (id: string) => void;
+  onAddEntry: (entry: LogEntry) => void;
+}
+
+const inputClassName =
+  'w-full p-1.5 border border-slate-300 rounded text-slate-700 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-sm';
+
+// Saved recipes: log a number of servings, or create, edit and delete recipes
+const RecipesPanel = ({
+  recipes,
+  customFoods,
+  onSaveCustomFood,
+  onDeleteCustomFood,
+  onSaveRecipe,
+  onDeleteRecipe,
+  onAddEntry,
+}: RecipesPanelProps) => {
+  const [editingId, setEditingId] = useState<string | null>(null); // Recipe id, or 'new'
+  const [servingsById, setServingsById] = useState<Record<string, string>>({});
+
+  const editingRecipe = recipes.find((recipe) => recipe.id === editingId) ?? null;
+
+  const handleLog = (recipe: Recipe) => {
+    const servings = Number(servingsById[recipe.id] ?? '1');
+    if (isNaN(servings) || servings <= 0) return;
+    onAddEntry(recipeToLogEntry(recipe, servings));
+    setServingsById({ ...servingsById, [recipe.id]: '1' });
+  };
+
+  if (editingId) {
+    return (
+      <RecipeEditor
+        recipe={editingRecipe ?? undefined}
+        customFoods={customFoods}
+        onSaveCustomFood={onSaveCustomFood}
+        onDeleteCustomFood={onDeleteCustomFood}
+        onSave={(fields) => {
+          onSaveRecipe(editingRecipe, fields);
+          setEditingId(null);
+        }}
+        onCancel={() => setEditingId(null)}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-2 text-sm">
+      {recipes.length === 0 && <p className="text-xs text-slate-500">No recipes yet.</p>}
+      <ul className="space-y-2">
+        {recipes.map((recipe) => {
+          const servings = servingsById[recipe.id] ?? '1';
+          const servingsNum = Number(servings);
+          const nutrition = !isNaN(servingsNum) && servingsNum > 0 ? getRecipeNutrition(recipe, servingsNum) : null;
+          return (
+            <li key={recipe.id} className="p-2.5 bg-white border border-slate-200 rounded-md">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="font-medium text-slate-700">{recipe.name}</p>
+                  <p className="text-xs text-slate-400">
+                    {recipe.ingredients.length} ingredients · makes {recipe.servings} · {getRecipeNutrition(recipe, 1).calories} kcal per serving
+                  </p>
+                </div>
+                <div className="flex items-center space-x-1">
+                  <button
+                    onClick={() => setEditingId(recipe.id)}
+                    className="px-2 py-1 text-xs font-medium text-slate-600 hover:bg-slate-100 rounded"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => onDeleteRecipe(recipe.id)}
+                    className="px-2 py-1 text-xs font-medium text-red-600 hover:bg-red-50 rounded"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+              <div className="flex items-center space-x-2 mt-2">
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  className={`${inputClassName} w-20`}
+                  value={servings}
+                  onChange={(e) => setServingsById({ ...servingsById, [recipe.id]: e.target.value })}
+                  aria-label={`Servings of ${recipe.name}`}
+                />
+                <span className="text-xs text-slate-500 flex-grow">
+                  servings{nutrition ? ` = ${nutrition.calories} kcal` : ''}
+                </span>
+                <button
+                  onClick={() => handleLog(recipe)}
+                  disabled={!nutrition}
+                  className="px-3 py-1.5 bg-cyan-600 text-white font-medium rounded-md hover:bg-cyan-700 disabled:opacity-60"
+                >
+                  Log
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+      <button onClick={() => setEditingId('new')} className="text-xs font-medium text-cyan-700 hover:text-cyan-900">
+        + New recipe
+      </button>
+    </div>
+  );
+};
+
+export default RecipesPanel;
@@ -0,0 +1,161 @@
+'use client';
+
+import React from 'react';
+import { LogReminder, ReminderSettings } from '@/lib/types';
+
+interface ReminderSettingsPanelProps {
+  settings: ReminderSettings;
+  permission: NotificationPermission | 'unsupported';
+  onRequestPermission: () => void;
+  onChange: (settings: ReminderSettings) => void;
+}
+
+const timeInputClassName =
+  'p-1 border border-slate-300 rounded text-slate-700 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-sm';
+
+// Logging reminders, the evening summary and quiet hours
+const ReminderSettingsPanel = ({ settings, permission, onRequestPermission, onChange }: ReminderSettingsPanelProps) => {
+  const updateReminder = (id: string, changes: Partial<LogReminder>) => {
+    onChange({
+      ...settings,
+      reminders: settings.reminders.map((reminder) => (reminder.id === id ? { ...reminder, ...changes } : reminder)),
+    });
+  };
+
+  const handleAddReminder = () => {
+    onChange({
+      ...settings,
+      reminders: [
+        ...settings.reminders,
+        {
+          id: 'reminder-' + Date.now().toString() + Math.random().toString(36).substr(2, 9),
+          label: 'Snack',
+          after: '15:00',
+          notifyAt: '17:00',
+          enabled: true,
+        },
+      ],
+    });
+  };
+
+  if (permission === 'unsupported') {
+    return <p className="text-sm text-slate-500">This browser doesn&apos;t support notifications.</p>;
+  }
+
+  return (
+    <div className="space-y-4 text-sm">
+      {permission !== 'granted' && (
+        <div className="p-3 bg-amber-50 rounded-md text-amber-800">
+          {permission === 'denied' ? (
+            <p>Notifications are blocked. Allow them for this site in your browser settings to get reminders.</p>
+          ) : (
+            <div className="flex items-center justify-between">
+              <p>Reminders need permission to show notifications.</p>
+              <button
+                onClick={onRequestPermission}
+                className="ml-2 px-3 py-1 bg-cyan-600 text-white text-xs font-medium rounded-md hover:bg-cyan-700"
+              >
+                Allow
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div>
+        <p className="text-xs font-semibold text-slate-500 mb-1.5">Logging reminders</p>
+        <ul className="space-y-2">
+          {settings.reminders.map((reminder) => (
+            <li key={reminder.id} className="flex flex-wrap items-center gap-1.5 text-slate-600">
+              <input
+                type="checkbox"
+                checked={reminder.enabled}
+                onChange={(e) => updateReminder(reminder.id, { enabled: e.target.checked })}
+                aria-label={`Enable ${reminder.label} reminder`}
+              />
+              <input
+                type="text"
+                className={`${timeInputClassName} w-24`}
+                value={reminder.label}
+                onChange={(e) => updateReminder(reminder.id, { label: e.target.value })}
+              />
+              <span className="text-xs">if nothing since</span>
+              <input
+                type="time"
+                className={timeInputClassName}
+                value={reminder.after}
+                onChange={(e) => e.target.value && updateReminder(reminder.id, { after: e.target.value })}
+              />
+              <span className="text-xs">remind at</span>
+              <input
+                type="time"
+                className={timeInputClassName}
+                value={reminder.notifyAt}
+                onChange={(e) => e.target.value && updateReminder(reminder.id, { notifyAt: e.target.value })}
+              />
+              <button
+                onClick={() => onChange({ ...settings, reminders: settings.reminders.filter((other) => other.id !== reminder.id) })}
+                className="text-xs text-slate-400 hover:text-red-600"
+              >
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+        <button onClick={handleAddReminder} className="mt-2 text-xs font-medium text-cyan-700 hover:text-cyan-900">
+          + Add reminder
+        </button>
+      </div>
+
+      <label className="flex items-center justify-between text-slate-600">
+        <span>
+          <input
+            type="checkbox"
+            className="mr-1.5"
+            checked={settings.summary.enabled}
+            onChange={(e) => onChange({ ...settings, summary: { ...settings.summary, enabled: e.target.checked } })}
+          />
+          Evening summary of calories and macro gaps
+        </span>
+        <input
+          type="time"
+          className={timeInputClassName}
+          value={settings.summary.time}
+          onChange={(e) => e.target.value && onChange({ ...settings, summary: { ...settings.summary, time: e.target.value } })}
+        />
+      </label>
+
+      <div className="flex items-center justify-between text-slate-600">
+        <label>
+          <input
+            type="checkbox"
+            className="mr-1.5"
+            checked={settings.quietHours.enabled}
+            onChange={(e) => onChange({ ...settings, quietHours: { ...settings.quietHours, enabled: e.target.checked } })}
+          />
+          Quiet hours
+        </label>
+        <span className="flex items-center space-x-1">
+          <input
+            type="time"
+            className={timeInputClassName}
+            value={settings.quietHours.start}
+            onChange={(e) => e.target.value && onChange({ ...settings, quietHours: { ...settings.quietHours, start: e.target.value } })}
+          />
+          <span className="text-xs">to</span>
+          <input
+            type="time"
+            className={timeInputClassName}
+            value={settings.quietHours.end}
+            onChange={(e) => e.target.value && onChange({ ...settings, quietHours: { ...settings.quietHours, end: e.target.value } })}
+          />
+        </span>
+      </div>
+      <p className="text-xs text-slate-500">
+        Reminders come from this device while Intake is open in a tab or installed as an app. Nothing is sent to a server.
+      </p>
+    </div>
+  );
+};
+
+export default ReminderSettingsPanel;
@@ -0,0 +1,31 @@
+'use client';
+
+import { useEffect } from 'react';
+
+// Build assets this page has loaded so far, which the worker may not have seen
+const getLoadedAssetUrls = (): string[] =>
+  performance
+    .getEntriesByType('resource')
+    .map((entry) => entry.name)
+    .filter((url) => new URL(url).pathname.startsWith('/_next/static/'));
+
+// Registers the service worker that caches the app shell for offline use, then hands it
+// the page's own assets to cache. Skipped in development so stale cached pages don't
+// hide code changes.
+const ServiceWorkerRegistration = () => {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+    navigator.serviceWorker
+      .register('/sw.js')
+      .then(() => navigator.serviceWorker.ready)
+      .then((registration) => {
+        registration.active?.postMessage({ type: 'cache-assets', urls: getLoadedAssetUrls() });
+      })
+      .catch((err) => {
+        console.error('Service worker registration failed:', err);
+      });
+  }, []);
+  return null;
+};
+
+export default ServiceWorkerRegistration;
@@ -0,0 +1,140 @@
+'use client';
+
+import React, { useState } from 'react';
+import { WeightEntry } from '@/lib/types';
+import { getWeightTrend, MaintenanceEstimate } from '@/lib/weight';
+
+interface WeightLogPanelProps {
+  weightLog: WeightEntry[];
+  today: string; // YYYY-MM-DD, the default date for a new weigh-in
+  estimate: MaintenanceEstimate | null;
+  suggestedGoal: number | null; // Adjusted daily goal, when it differs enough from the current one
+  onLogWeight: (entry: WeightEntry) => void;
+  onDeleteWeight: (date: string) => void;
+  onApplyGoal: (goal: number) => void;
+}
+
+const inputClassName =
+  'w-full p-1.5 border border-slate-300 rounded text-slate-700 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-sm';
+
+const RECENT_WEIGH_INS = 7;
+
+const formatChange = (kg: number): string => `${kg > 0 ? '+' : ''}${kg.toFixed(2)} kg`;
+
+// Weigh-ins with their smoothed trend, and the maintenance estimate they make possible
+const WeightLogPanel = ({
+  weightLog,
+  today,
+  estimate,
+  suggestedGoal,
+  onLogWeight,
+  onDeleteWeight,
+  onApplyGoal,
+}: WeightLogPanelProps) => {
+  const [date, setDate] = useState<string>(today);
+  const [weight, setWeight] = useState<string>('');
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const trend = getWeightTrend(weightLog);
+  const latest = trend.length > 0 ? trend[trend.length - 1] : null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const weightKg = Number(weight);
+    if (!weight.trim() || isNaN(weightKg) || weightKg <= 0) {
+      setFormError('Enter your weight in kg.');
+      return;
+    }
+    if (!date || date > today) {
+      setFormError("Weigh-ins can't be in the future.");
+      return;
+    }
+    onLogWeight({ date, weightKg: Math.round(weightKg * 10) / 10 });
+    setWeight('');
+    setFormError(null);
+  };
+
+  return (
+    <div className="w-full mb-10">
+      <div className="flex justify-between items-baseline mb-3">
+        <h3 className="text-lg font-semibold text-slate-700">Weight</h3>
+        {latest && <span className="text-sm text-slate-500">Trend: {latest.trendKg.toFixed(1)} kg</span>}
+      </div>
+      <form onSubmit={handleSubmit} className="flex items-center space-x-2 mb-3">
+        <input
+          type="date"
+          max={today}
+          className={inputClassName}
+          value={date}
+          onChange={(e) => setDate(e.target.value)}
+        />
+        <input
+          type="number"
+          min="0"
+          step="0.1"
+          className={`${inputClassName} w-24`}
+          placeholder="kg"
+          value={weight}
+          onChange={(e) => setWeight(e.target.value)}
+        />
+        <button type="submit" className="px-3 py-1.5 bg-cyan-600 text-white text-sm font-medium rounded-md hover:bg-cyan-700">
+          Log
+        </button>
+      </form>
+      {formError && <p className="text-xs text-red-600 mb-2">{formError}</p>}
+
+      {trend.length > 0 && (
+        <ul className="space-y-1 text-sm mb-3">
+          {trend
+            .slice(-RECENT_WEIGH_INS)
+            .reverse()
+            .map((point) => (
+              <li key={point.date} className="flex items-center justify-between text-slate-600">
+                <span>{new Date(point.date + 'T00:00:00').toLocaleDateString([], { month: 'short', day: 'numeric' })}</span>
+                <span>
+                  {point.weightKg.toFixed(1)} kg
+                  <span className="ml-2 text-xs text-slate-400">trend {point.trendKg.toFixed(1)}</span>
+                  <button
+                    onClick={() => onDeleteWeight(point.date)}
+                    className="ml-2 text-xs text-slate-400 hover:text-red-600"
+                    title="Delete weigh-in"
+                  >
+                    ✕
+                  </button>
+                </span>
+              </li>
+            ))}
+        </ul>
+      )}
+
+      {estimate ? (
+        <div className="p-3 bg-cyan-50 rounded-md text-sm text-slate-600 space-y-1">
+          <p>
+            Estimated maintenance: <span className="font-medium">{estimate.maintenance} kcal</span>
+          </p>
+          <p className="text-xs text-slate-500">
+            From an average intake of {estimate.averageIntake} kcal while your trend moved{' '}
+            {formatChange(estimate.weeklyChangeKg)} a week over the last {estimate.days} days.
+          </p>
+          {suggestedGoal !== null && (
+            <div className="flex items-center justify-between pt-1">
+              <span>Suggested goal: {suggestedGoal} kcal</span>
+              <button
+                onClick={() => onApplyGoal(suggestedGoal)}
+                className="px-3 py-1 bg-cyan-600 text-white text-xs font-medium rounded-md hover:bg-cyan-700"
+              >
+                Use it
+              </button>
+            </div>
+          )}
+        </div>
+      ) : (
+        <p className="text-xs text-slate-500">
+          Weigh in and log your meals for a few weeks to see how many calories you actually maintain on.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default WeightLogPanel;
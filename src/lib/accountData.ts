@@ -0,0 +1,134 @@
+// Server-side storage of each account's settings, logs and history in SQLite.
+// Only import this from route handlers.
+import { DailyHistoryEntry } from './types';
+import { SyncedState } from './storage';
+import { isDayStartHour } from './dayBoundary';
+import { getDb } from './db';
+import {
+  isBodyStats,
+  isCurrentDay,
+  isDailyGoal,
+  isDailyHistoryEntry,
+  isExerciseEntry,
+  isFood,
+  isGoalSchedule,
+  isLogEntry,
+  isMacroProfile,
+  isNutrientGoals,
+  isProduct,
+  isRecipe,
+  isReminderSettings,
+  isSlotBudgets,
+  isVolumeUnit,
+  isWaterEntry,
+  isWeightEntry,
+} from './validators';
+
+type SyncedField = keyof SyncedState;
+
+const isListOf = (isItem: (item: unknown) => boolean) => (value: unknown) =>
+  Array.isArray(value) && value.every(isItem);
+
+// The same checks storage.ts applies when reading localStorage, so the server never
+// hands a browser a value it would quarantine
+const SYNCED_FIELD_VALIDATORS: Record<SyncedField, (value: unknown) => boolean> = {
+  dailyGoal: isDailyGoal,
+  selectedProfile: (value) => typeof value === 'string',
+  customProfiles: isListOf(isMacroProfile),
+  bodyStats: isBodyStats,
+  goalSchedule: isGoalSchedule,
+  weightLog: isListOf(isWeightEntry),
+  dayStartHour: isDayStartHour,
+  reminderSettings: isReminderSettings,
+  slotBudgets: isSlotBudgets,
+  nutrientGoals: isNutrientGoals,
+  currentDay: isCurrentDay,
+  log: isListOf(isLogEntry),
+  exerciseLog: isListOf(isExerciseEntry),
+  addExerciseToBudget: (value) => typeof value === 'boolean',
+  waterLog: isListOf(isWaterEntry),
+  waterGoalMl: isDailyGoal,
+  volumeUnit: isVolumeUnit,
+  customFoods: isListOf(isFood),
+  customProducts: isListOf(isProduct),
+  recipes: isListOf(isRecipe),
+};
+
+export const MAX_HISTORY_DAYS_PER_REQUEST = 100;
+// Synced logs and history days can hold photos of meals still waiting to be estimated,
+// so account requests get far more room than a single estimate
+export const MAX_ACCOUNT_BODY_BYTES = 16 * 1024 * 1024;
+
+// Returns an error message, or null if every field is known and valid
+export const validateSyncedState = (state: unknown): string | null => {
+  if (!state || typeof state !== 'object' || Array.isArray(state)) return 'State must be an object.';
+  const invalidField = Object.entries(state).find(
+    ([field, value]) =>
+      !Object.prototype.hasOwnProperty.call(SYNCED_FIELD_VALIDATORS, field) ||
+      !SYNCED_FIELD_VALIDATORS[field as SyncedField](value)
+  );
+  return invalidField ? `Invalid value for "${invalidField[0]}".` : null;
+};
+
+// Returns an error message, or null if the days are acceptable
+export const validateHistoryDays = (days: unknown): string | null => {
+  if (!Array.isArray(days)) return 'Days must be a list.';
+  if (days.length > MAX_HISTORY_DAYS_PER_REQUEST) {
+    return `Send at most ${MAX_HISTORY_DAYS_PER_REQUEST} days at a time.`;
+  }
+  const invalidDay = days.find((day) => !isDailyHistoryEntry(day));
+  return invalidDay === undefined ? null : 'The list contains an invalid day.';
+};
+
+const getRevision = (userId: number): number =>
+  (getDb().prepare('SELECT revision FROM users WHERE id = ?').get(userId) as { revision: number }).revision;
+
+const bumpRevision = (userId: number): number => {
+  getDb().prepare('UPDATE users SET revision = revision + 1 WHERE id = ?').run(userId);
+  return getRevision(userId);
+};
+
+export const loadSyncedState = (userId: number): { state: SyncedState; revision: number } => {
+  const rows = getDb().prepare('SELECT field, value FROM account_state WHERE user_id = ?').all(userId) as {
+    field: string;
+    value: string;
+  }[];
+  const state = Object.fromEntries(rows.map((row) => [row.field, JSON.parse(row.value)])) as SyncedState;
+  return { state, revision: getRevision(userId) };
+};
+
+// Store the given fields, leaving the others as they are. Returns the new revision.
+export const saveSyncedState = (userId: number, state: SyncedState): number => {
+  const db = getDb();
+  const upsert = db.prepare(
+    `INSERT INTO account_state (user_id, field, value) VALUES (?, ?, ?)
+     ON CONFLICT (user_id, field) DO UPDATE SET value = excluded.value`
+  );
+  return db.transaction(() => {
+    Object.entries(state).forEach(([field, value]) => upsert.run(userId, field, JSON.stringify(value)));
+    return bumpRevision(userId);
+  })();
+};
+
+// Every stored day, newest first
+export const loadHistoryDays = (userId: number): DailyHistoryEntry[] => {
+  const rows = getDb().prepare('SELECT day FROM history_days WHERE user_id = ? ORDER BY date DESC').all(userId) as {
+    day: string;
+  }[];
+  return rows.map((row) => JSON.parse(row.day));
+};
+
+// Insert or replace days by date; with `replace`, every other stored day is removed first.
+// Returns the new revision.
+export const saveHistoryDays = (userId: number, days: DailyHistoryEntry[], replace: boolean): number => {
+  const db = getDb();
+  const upsert = db.prepare(
+    `INSERT INTO history_days (user_id, date, day) VALUES (?, ?, ?)
+     ON CONFLICT (user_id, date) DO UPDATE SET day = excluded.day`
+  );
+  return db.transaction(() => {
+    if (replace) db.prepare('DELETE FROM history_days WHERE user_id = ?').run(userId);
+    days.forEach((day) => upsert.run(userId, day.date, JSON.stringify(day)));
+    return bumpRevision(userId);
+  })();
+};
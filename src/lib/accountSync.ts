@@ -0,0 +1,328 @@
+// Keeps this browser's data in step with the signed-in account. localStorage and
+// IndexedDB stay the working copy, so the app works offline as before: saved changes
+// are pushed to the server shortly afterwards, and changes made on another device are
+// pulled in when the app opens.
+import { DailyHistoryEntry } from './types';
+import {
+  PersistedState,
+  STORAGE_KEYS,
+  SyncedState,
+  loadPersistedState,
+  removeFromStorage,
+  saveToStorage,
+  setSaveListener,
+} from './storage';
+import {
+  isHistoryDbAvailable,
+  loadAllHistory,
+  loadHistoryDaysByDate,
+  replaceAllHistory,
+  setHistoryWriteListener,
+} from './historyDb';
+import { NetworkError, fetchAccountHistory, fetchAccountState, pushAccountHistory, pushAccountState } from './api';
+import { isFiniteNumber, isRecord } from './validators';
+
+const SYNC_MARKER_KEY = 'accountSync';
+const PUSH_DELAY_MS = 1000; // Batches the burst of saves a single edit can cause
+const HISTORY_CHUNK_SIZE = 100; // The most days the server accepts per request
+// Well under the server's 16 MB body limit, leaving room for a day with a large photo
+const HISTORY_CHUNK_BYTES = 4 * 1024 * 1024;
+
+const SYNCED_FIELDS = (Object.keys(STORAGE_KEYS) as (keyof PersistedState)[]).filter(
+  (field): field is keyof SyncedState => field !== 'calorieHistory'
+);
+
+// What this browser knows about the account it last synced with. Changes are listed as
+// pending from the moment they're saved until the server has them, so they survive a
+// closed tab, a failed push or an expired session.
+interface SyncMarker {
+  username: string;
+  revision: number; // The account's revision when this browser last matched it
+  signedIn: boolean; // False after signing out or once the session expired
+  pendingFields: (keyof SyncedState)[];
+  pendingDates: string[]; // History days saved here but not yet uploaded
+  replaceHistory: boolean; // All history was replaced here, e.g. by restoring a backup
+}
+
+const readMarker = (): SyncMarker | null => {
+  try {
+    const marker = JSON.parse(localStorage.getItem(SYNC_MARKER_KEY) ?? 'null');
+    if (!isRecord(marker) || typeof marker.username !== 'string' || !isFiniteNumber(marker.revision)) return null;
+    return {
+      username: marker.username,
+      revision: marker.revision,
+      signedIn: marker.signedIn !== false,
+      pendingFields: Array.isArray(marker.pendingFields)
+        ? SYNCED_FIELDS.filter((field) => (marker.pendingFields as unknown[]).includes(field))
+        : [],
+      pendingDates: Array.isArray(marker.pendingDates)
+        ? marker.pendingDates.filter((date): date is string => typeof date === 'string')
+        : [],
+      replaceHistory: marker.replaceHistory === true,
+    };
+  } catch {
+    return null;
+  }
+};
+
+const writeMarker = (marker: SyncMarker) => {
+  try {
+    localStorage.setItem(SYNC_MARKER_KEY, JSON.stringify(marker));
+  } catch (err) {
+    console.error('Failed to save the account sync state:', err);
+  }
+};
+
+const hasPendingChanges = (marker: SyncMarker) =>
+  marker.pendingFields.length > 0 || marker.pendingDates.length > 0 || marker.replaceHistory;
+
+// Stop treating this browser as signed in, e.g. after signing out or when the session
+// expired. Changes not uploaded yet stay listed and go up when the same account signs in.
+export const markSignedOut = () => {
+  const marker = readMarker();
+  if (marker) writeMarker({ ...marker, signedIn: false });
+};
+
+// The account this browser is signed in to, for staying signed in while offline
+export const getSyncedUsername = (): string | null => {
+  const marker = readMarker();
+  return marker?.signedIn ? marker.username : null;
+};
+
+// Group days into requests the server accepts, limited by both day count and size
+const chunkHistory = (days: DailyHistoryEntry[]): DailyHistoryEntry[][] => {
+  const encoder = new TextEncoder();
+  const chunks: DailyHistoryEntry[][] = [];
+  let chunk: DailyHistoryEntry[] = [];
+  let chunkBytes = 0;
+  days.forEach((day) => {
+    const dayBytes = encoder.encode(JSON.stringify(day)).byteLength;
+    if (chunk.length > 0 && (chunk.length >= HISTORY_CHUNK_SIZE || chunkBytes + dayBytes > HISTORY_CHUNK_BYTES)) {
+      chunks.push(chunk);
+      chunk = [];
+      chunkBytes = 0;
+    }
+    chunk.push(day);
+    chunkBytes += dayBytes;
+  });
+  if (chunk.length > 0) chunks.push(chunk);
+  return chunks;
+};
+
+// Push days in chunks the server accepts. With `replace`, the first request clears the
+// account's history, so it's sent even when there are no days.
+// Resolves with the last revision, or null if nothing was sent, and the number of requests.
+const pushHistory = async (
+  days: DailyHistoryEntry[],
+  replace: boolean
+): Promise<{ revision: number | null; requestCount: number }> => {
+  const chunks = chunkHistory(days);
+  if (replace && chunks.length === 0) chunks.push([]);
+  let revision: number | null = null;
+  for (const [index, chunk] of chunks.entries()) {
+    ({ revision } = await pushAccountHistory(chunk, replace && index === 0));
+  }
+  return { revision, requestCount: chunks.length };
+};
+
+let activeUsername: string | null = null;
+let pendingState: SyncedState = {};
+let pendingDays = new Map<string, DailyHistoryEntry>();
+let replacePendingHistory = false;
+let isHeld = false; // Queue saves without pushing them
+let pushTimerId: ReturnType<typeof setTimeout> | undefined;
+let pushChain: Promise<void> = Promise.resolve();
+let syncErrorListener: ((err: Error) => void) | null = null;
+
+// Push changes to `username`'s account and take them off the marker's pending list,
+// unless they were saved again meanwhile. Resolves with false if another device wrote
+// in between, so this browser is missing its changes.
+const pushChanges = async (
+  username: string,
+  state: SyncedState,
+  days: DailyHistoryEntry[],
+  replace: boolean
+): Promise<boolean> => {
+  const startMarker = readMarker();
+  let requestCount = 0;
+  let revision: number | null = null;
+  if (Object.keys(state).length > 0) {
+    ({ revision } = await pushAccountState(state));
+    requestCount++;
+  }
+  const history = await pushHistory(days, replace);
+  if (history.revision !== null) {
+    revision = history.revision;
+    requestCount += history.requestCount;
+  }
+  // Each request bumps the revision by one. Anything more means another device wrote
+  // in between, so the old revision is kept and its changes get pulled.
+  const isCurrent = startMarker?.username === username && revision === startMarker.revision + requestCount;
+  const marker = readMarker();
+  if (marker?.username !== username) return isCurrent;
+  const pushedDates = new Set(days.map((day) => day.date));
+  writeMarker({
+    ...marker,
+    revision: isCurrent ? revision : marker.revision,
+    pendingFields: marker.pendingFields.filter((field) => !(field in state) || field in pendingState),
+    pendingDates: marker.pendingDates.filter((date) => !pushedDates.has(date) || pendingDays.has(date)),
+    replaceHistory: (marker.replaceHistory && !replace) || replacePendingHistory,
+  });
+  return isCurrent;
+};
+
+// Push the changes the marker lists as pending, reading their current local values
+const pushMarkedChanges = async (marker: SyncMarker): Promise<boolean> => {
+  const { state } = loadPersistedState();
+  const changedState = Object.fromEntries(
+    marker.pendingFields.filter((field) => state[field] !== undefined).map((field) => [field, state[field]])
+  ) as SyncedState;
+  let days: DailyHistoryEntry[] = [];
+  if (isHistoryDbAvailable()) {
+    days = marker.replaceHistory ? await loadAllHistory() : await loadHistoryDaysByDate(marker.pendingDates);
+  }
+  return pushChanges(marker.username, changedState, days, marker.replaceHistory);
+};
+
+// Copy everything in this browser to a new account. History days are added to any the
+// account already has. Whatever isn't uploaded yet stays pending for the next open.
+export const uploadLocalData = async (username: string): Promise<void> => {
+  const { state } = loadPersistedState();
+  const days = isHistoryDbAvailable() ? await loadAllHistory() : [];
+  const marker: SyncMarker = {
+    username,
+    revision: 0,
+    signedIn: true,
+    pendingFields: SYNCED_FIELDS.filter((field) => state[field] !== undefined),
+    pendingDates: days.map((day) => day.date),
+    replaceHistory: false,
+  };
+  writeMarker(marker);
+  await pushMarkedChanges(marker);
+};
+
+// Replace everything in this browser with the account's data. Changes this browser made
+// while signed in to the same account and never uploaded go up first, so signing back in
+// after a session expired doesn't lose them. Reload the page afterwards so it starts from
+// the new data.
+export const downloadAccountData = async (username: string): Promise<void> => {
+  stopAccountSync();
+  const marker = readMarker();
+  if (marker?.username === username && hasPendingChanges(marker)) await pushMarkedChanges(marker);
+  const [{ state, revision }, days] = await Promise.all([fetchAccountState(), fetchAccountHistory()]);
+  SYNCED_FIELDS.forEach((field) => {
+    // Fields the account has never had are cleared so nothing lingers from before
+    if (state[field] === undefined) removeFromStorage(field);
+    else saveToStorage(field, state[field]);
+  });
+  await replaceAllHistory(days);
+  writeMarker({ username, revision, signedIn: true, pendingFields: [], pendingDates: [], replaceHistory: false });
+};
+
+// Bring this browser in step with the account when the app opens. Resolves with 'pulled'
+// if local data was replaced, in which case the page should reload.
+export const syncOnOpen = async (username: string): Promise<'current' | 'pulled'> => {
+  const marker = readMarker();
+  if (marker?.username === username) {
+    if (hasPendingChanges(marker)) {
+      // Only what changed here goes up, so it can't overwrite newer changes another device
+      // made to other fields or days; those are pulled in afterwards if there are any
+      if (await pushMarkedChanges(marker)) return 'current';
+    } else {
+      const { revision } = await fetchAccountState();
+      if (revision === marker.revision) return 'current';
+    }
+  }
+  await downloadAccountData(username);
+  return 'pulled';
+};
+
+// Be told when changes can't be saved to the account for a reason other than being
+// offline, e.g. the server rejecting them, which retrying on the next open won't fix by
+// itself. Pass null to stop.
+export const setSyncErrorListener = (listener: ((err: Error) => void) | null) => {
+  syncErrorListener = listener;
+};
+
+const pushBatch = async () => {
+  const username = activeUsername;
+  const state = pendingState;
+  const days = Array.from(pendingDays.values());
+  const replace = replacePendingHistory;
+  pendingState = {};
+  pendingDays = new Map();
+  replacePendingHistory = false;
+  if (!username || (Object.keys(state).length === 0 && days.length === 0 && !replace)) return;
+  try {
+    await pushChanges(username, state, days, replace);
+  } catch (err) {
+    // The marker still lists these changes, so they're pushed when the app next opens
+    console.error('Failed to save changes to your account:', err);
+    if (!(err instanceof NetworkError) && err instanceof Error) syncErrorListener?.(err);
+  }
+};
+
+// Push everything saved since the last push. Pushes run one at a time.
+export const pushPendingChanges = (): Promise<void> => {
+  clearTimeout(pushTimerId);
+  pushChain = pushChain.then(pushBatch);
+  return pushChain;
+};
+
+const schedulePush = () => {
+  clearTimeout(pushTimerId);
+  if (!isHeld) pushTimerId = setTimeout(pushPendingChanges, PUSH_DELAY_MS);
+};
+
+// List a saved change on the marker until it has been pushed
+const recordPending = (update: (marker: SyncMarker) => SyncMarker) => {
+  const marker = readMarker();
+  if (marker && marker.username === activeUsername) writeMarker(update(marker));
+};
+
+// Start copying every local save to `username`'s account. With `hold`, saves are only
+// queued until this is called again without it, e.g. while checking on open whether
+// another device changed the account, so stale local data can't overwrite it.
+export const startAccountSync = (username: string, hold = false) => {
+  activeUsername = username;
+  isHeld = hold;
+  const marker = readMarker();
+  if (!hold && marker?.username === username && !marker.signedIn) writeMarker({ ...marker, signedIn: true });
+  setSaveListener((field, value) => {
+    if (field === 'calorieHistory') return;
+    pendingState = { ...pendingState, [field]: value };
+    recordPending((current) => ({
+      ...current,
+      pendingFields: current.pendingFields.includes(field) ? current.pendingFields : [...current.pendingFields, field],
+    }));
+    schedulePush();
+  });
+  setHistoryWriteListener((days, replace) => {
+    if (replace) {
+      pendingDays = new Map();
+      replacePendingHistory = true;
+    }
+    days.forEach((day) => pendingDays.set(day.date, day));
+    const dates = days.map((day) => day.date);
+    recordPending((current) =>
+      replace
+        ? { ...current, replaceHistory: true, pendingDates: dates }
+        : { ...current, pendingDates: Array.from(new Set([...current.pendingDates, ...dates])) }
+    );
+    schedulePush();
+  });
+  schedulePush();
+};
+
+// Stop copying saves to the account. Changes not yet pushed stay listed on the marker
+// and go up the next time this account syncs.
+export const stopAccountSync = () => {
+  setSaveListener(null);
+  setHistoryWriteListener(null);
+  clearTimeout(pushTimerId);
+  activeUsername = null;
+  isHeld = false;
+  pendingState = {};
+  pendingDays = new Map();
+  replacePendingHistory = false;
+};
@@ -0,0 +1,99 @@
+// Statistics over a range of finished history days: average intake, how often the
+// goal was met, streaks, and the macro split compared with a profile's ideal
+import { DateTime } from 'luxon';
+import { DailyHistoryEntry, MacroData, MacroProfile } from './types';
+import { sumMacros } from './nutrition';
+import { getMacroPercentTargets, MACRO_CALORIES_PER_GRAM } from './profiles';
+
+export const RANGE_PRESET_DAYS = [7, 30, 90];
+
+export const DEFAULT_ADHERENCE_TOLERANCE = 10; // Percent either side of the goal
+
+export interface DateRange {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string;
+}
+
+export interface RangeSummary {
+  trackedDays: number; // Days in the range with anything logged
+  averageIntake: number;
+  adherenceRate: number; // Percent of tracked days within tolerance of that day's goal
+  currentStreak: number; // Days within tolerance in a row, up to the end of the range
+  bestStreak: number;
+  macroSplit: MacroData; // Percent of macro calories from each macro across the range
+  idealSplit: MacroData; // The profile's split at the average goal
+}
+
+// Calories from each macro per day, oldest first, for charting
+export interface DailyMacroCalories extends MacroData {
+  date: string;
+}
+
+// The last `days` finished days, ending the day before `today`
+export const getPresetRange = (days: number, today: string): DateRange => {
+  const end = DateTime.fromISO(today).minus({ days: 1 });
+  return { from: end.minus({ days: days - 1 }).toISODate(), to: end.toISODate() };
+};
+
+// Untracked days (nothing logged) don't count for or against adherence
+const isTracked = (day: DailyHistoryEntry): boolean => day.mealLog.length > 0;
+
+export const isWithinGoal = (day: DailyHistoryEntry, tolerancePercent: number): boolean =>
+  isTracked(day) &&
+  Math.abs(day.totalCalories - day.dailyGoalAtTheTime) <= (day.dailyGoalAtTheTime * tolerancePercent) / 100;
+
+const getMacroCalories = (macros: MacroData): MacroData => ({
+  carbs: macros.carbs * MACRO_CALORIES_PER_GRAM.carbs,
+  protein: macros.protein * MACRO_CALORIES_PER_GRAM.protein,
+  fat: macros.fat * MACRO_CALORIES_PER_GRAM.fat,
+});
+
+export const getDailyMacroCalories = (days: DailyHistoryEntry[]): DailyMacroCalories[] =>
+  [...days]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map((day) => ({ date: day.date, ...getMacroCalories(sumMacros(day.mealLog)) }));
+
+export const summarizeRange = (
+  days: DailyHistoryEntry[],
+  tolerancePercent: number,
+  profile: MacroProfile
+): RangeSummary => {
+  const sorted = [...days].sort((a, b) => a.date.localeCompare(b.date));
+  const tracked = sorted.filter(isTracked);
+
+  // A streak needs consecutive dates, so a day missing from history ends it too
+  let currentStreak = 0;
+  let bestStreak = 0;
+  let previousDate: DateTime | null = null;
+  sorted.forEach((day) => {
+    const date = DateTime.fromISO(day.date);
+    const isConsecutive = previousDate !== null && date.diff(previousDate, 'days').days === 1;
+    if (isWithinGoal(day, tolerancePercent)) currentStreak = isConsecutive ? currentStreak + 1 : 1;
+    else currentStreak = 0;
+    bestStreak = Math.max(bestStreak, currentStreak);
+    previousDate = date;
+  });
+
+  const macroCalories = getMacroCalories(sumMacros(tracked.flatMap((day) => day.mealLog)));
+  const macroTotal = macroCalories.carbs + macroCalories.protein + macroCalories.fat;
+  const toPercent = (calories: number) => (macroTotal > 0 ? Math.round((calories / macroTotal) * 100) : 0);
+  const average = (values: number[]) =>
+    values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : 0;
+
+  return {
+    trackedDays: tracked.length,
+    averageIntake: average(tracked.map((day) => day.totalCalories)),
+    adherenceRate:
+      tracked.length > 0
+        ? Math.round((tracked.filter((day) => isWithinGoal(day, tolerancePercent)).length / tracked.length) * 100)
+        : 0,
+    currentStreak,
+    bestStreak,
+    macroSplit: {
+      carbs: toPercent(macroCalories.carbs),
+      protein: toPercent(macroCalories.protein),
+      fat: toPercent(macroCalories.fat),
+    },
+    idealSplit: getMacroPercentTargets(profile, average(tracked.map((day) => day.dailyGoalAtTheTime))),
+  };
+};
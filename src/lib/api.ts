@@ -0,0 +1,95 @@
+// Client-side wrappers around the /api route handlers
+import {
+  AccountHistory,
+  AccountRevision,
+  AccountSession,
+  AccountUser,
+  ApiError,
+  DailyHistoryEntry,
+  MealDescription,
+  NutritionEstimate,
+} from './types';
+import { SyncedState } from './storage';
+
+// Thrown when the server couldn't be reached at all, as opposed to returning an error
+export class NetworkError extends Error {
+  constructor(message = 'You appear to be offline.') {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+// Thrown when the server answered with an error status
+export class ApiRequestError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ApiRequestError';
+    this.status = status;
+  }
+}
+
+const requestJson = async <T>(method: 'GET' | 'POST' | 'PUT', url: string, body?: unknown): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method,
+      headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  } catch {
+    throw new NetworkError();
+  }
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new ApiRequestError((data as ApiError | null)?.error || `Request failed with status ${response.status}`, response.status);
+  }
+  return data as T;
+};
+
+const postJson = <T>(url: string, body: unknown): Promise<T> => requestJson<T>('POST', url, body);
+
+// Ask the server to estimate calories and macros for a meal
+export const requestNutritionEstimate = (text: string, imageBase64?: string): Promise<NutritionEstimate> =>
+  postJson<NutritionEstimate>('/api/estimate', { text, image: imageBase64 });
+
+// Function to generate a short meal description from an image
+export const requestMealDescription = async (imageBase64: string): Promise<string | null> => {
+  try {
+    const { description } = await postJson<MealDescription>('/api/describe', { image: imageBase64 });
+    return description;
+  } catch (err) {
+    console.error('Error in requestMealDescription:', err);
+    return null;
+  }
+};
+
+// Create an account and sign in to it
+export const signUp = (username: string, password: string): Promise<AccountUser> =>
+  postJson<AccountUser>('/api/auth/signup', { username, password });
+
+export const logIn = (username: string, password: string): Promise<AccountUser> =>
+  postJson<AccountUser>('/api/auth/login', { username, password });
+
+export const logOut = async (): Promise<void> => {
+  await postJson<AccountSession>('/api/auth/logout', {});
+};
+
+// The signed-in user, or null when using the app without an account
+export const getAccountSession = async (): Promise<AccountUser | null> =>
+  (await requestJson<AccountSession>('GET', '/api/auth/session')).user;
+
+export const fetchAccountState = (): Promise<AccountRevision & { state: SyncedState }> =>
+  requestJson('GET', '/api/account/state');
+
+// Save the given fields to the account; others keep their stored value
+export const pushAccountState = (state: SyncedState): Promise<AccountRevision> =>
+  requestJson<AccountRevision>('PUT', '/api/account/state', { state });
+
+export const fetchAccountHistory = async (): Promise<DailyHistoryEntry[]> =>
+  (await requestJson<AccountHistory>('GET', '/api/account/history')).days;
+
+// Save days to the account; with `replace`, every other stored day is removed first
+export const pushAccountHistory = (days: DailyHistoryEntry[], replace: boolean): Promise<AccountRevision> =>
+  requestJson<AccountRevision>('PUT', '/api/account/history', { days, replace });
@@ -0,0 +1,93 @@
+// Shared request handling for the /api route handlers
+import { NextResponse } from 'next/server';
+import { ApiError } from './types';
+import { RateLimitedRoute, checkRateLimit, getClientId } from './rateLimit';
+
+export const MAX_MEAL_TEXT_LENGTH = 500;
+// Images are resized to 512px JPEGs on the client, so this leaves plenty of headroom
+export const MAX_IMAGE_DATA_URL_LENGTH = 2 * 1024 * 1024;
+const MAX_BODY_BYTES = MAX_IMAGE_DATA_URL_LENGTH + 16 * 1024;
+const IMAGE_DATA_URL_PATTERN = /^data:image\/(jpeg|png|webp);base64,[A-Za-z0-9+/]+={0,2}$/;
+
+export const jsonError = (message: string, status: number, headers?: HeadersInit) =>
+  NextResponse.json<ApiError>({ error: message }, { status, headers });
+
+export const tooManyRequests = (retryAfterSeconds: number, message = 'Too many requests. Please wait a moment and try again.') =>
+  jsonError(message, 429, { 'Retry-After': retryAfterSeconds.toString() });
+
+// Apply `route`'s rate limit and parse the JSON body. Returns either the body or an error response.
+export const readGuardedJson = async (
+  request: Request,
+  route: RateLimitedRoute
+): Promise<{ body: Record<string, unknown> } | { response: NextResponse }> => {
+  const { allowed, retryAfterSeconds } = checkRateLimit(route, getClientId(request));
+  if (!allowed) return { response: tooManyRequests(retryAfterSeconds) };
+  return readJsonBody(request);
+};
+
+// Read the body as text, stopping as soon as it passes maxBytes. Content-Length is
+// only a claim, so the bytes actually received are counted. Resolves with null if too large.
+const readBodyText = async (request: Request, maxBytes: number): Promise<string | null> => {
+  if (Number(request.headers.get('content-length') || 0) > maxBytes) return null;
+  if (!request.body) return '';
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+// Parse the JSON body without rate limiting, for routes that need a signed-in user anyway
+export const readJsonBody = async (
+  request: Request,
+  maxBytes = MAX_BODY_BYTES
+): Promise<{ body: Record<string, unknown> } | { response: NextResponse }> => {
+  let text: string | null;
+  try {
+    text = await readBodyText(request, maxBytes);
+  } catch {
+    return { response: jsonError('Could not read the request body.', 400) };
+  }
+  if (text === null) {
+    return { response: jsonError('Request body is too large.', 413) };
+  }
+  try {
+    const body = JSON.parse(text);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return { response: jsonError('Request body must be a JSON object.', 400) };
+    }
+    return { body };
+  } catch {
+    return { response: jsonError('Request body is not valid JSON.', 400) };
+  }
+};
+
+// Returns an error message, or null if the text is acceptable
+export const validateMealText = (text: unknown): string | null => {
+  if (text === undefined || text === null) return null;
+  if (typeof text !== 'string') return 'Meal text must be a string.';
+  if (text.length > MAX_MEAL_TEXT_LENGTH) {
+    return `Meal text must be at most ${MAX_MEAL_TEXT_LENGTH} characters.`;
+  }
+  return null;
+};
+
+// Returns an error message, or null if the image is acceptable
+export const validateImage = (image: unknown): string | null => {
+  if (image === undefined || image === null) return null;
+  if (typeof image !== 'string') return 'Image must be a base64 data URL string.';
+  if (image.length > MAX_IMAGE_DATA_URL_LENGTH) return 'Image is too large.';
+  if (!IMAGE_DATA_URL_PATTERN.test(image)) {
+    return 'Image must be a JPEG, PNG or WebP base64 data URL.';
+  }
+  return null;
+};
@@ -0,0 +1,125 @@
+// Server-side accounts: password hashing, sign-up and sign-in, and cookie sessions.
+// Only import this from route handlers.
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { AccountUser } from './types';
+import { getDb } from './db';
+import { jsonError } from './apiRequest';
+
+export const SESSION_COOKIE = 'intake_session';
+const SESSION_DURATION_MS = 30 * 24 * 60 * 60 * 1000;
+
+const USERNAME_PATTERN = /^[A-Za-z0-9_.-]{3,32}$/;
+const MIN_PASSWORD_LENGTH = 8;
+const MAX_PASSWORD_LENGTH = 200;
+const SCRYPT_KEY_LENGTH = 64;
+
+export interface SessionUser extends AccountUser {
+  id: number;
+}
+
+interface UserRow {
+  id: number;
+  username: string;
+  password_hash: string;
+}
+
+const deriveKey = (password: string, salt: Buffer): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    scrypt(password, salt, SCRYPT_KEY_LENGTH, (err, key) => (err ? reject(err) : resolve(key)));
+  });
+
+// Stored as "scrypt$<salt>$<key>", both base64
+const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt);
+  return `scrypt$${salt.toString('base64')}$${key.toString('base64')}`;
+};
+
+const verifyPassword = async (password: string, passwordHash: string): Promise<boolean> => {
+  const [scheme, salt, expected] = passwordHash.split('$');
+  if (scheme !== 'scrypt' || !salt || !expected) return false;
+  const key = await deriveKey(password, Buffer.from(salt, 'base64'));
+  const expectedKey = Buffer.from(expected, 'base64');
+  return key.length === expectedKey.length && timingSafeEqual(key, expectedKey);
+};
+
+// Checked against when a username doesn't exist, so a failed sign-in takes as long either way
+const UNKNOWN_USER_HASH = hashPassword(randomBytes(16).toString('base64'));
+
+// Returns an error message, or null if the credentials are acceptable for a new account
+export const validateCredentials = (username: unknown, password: unknown): string | null => {
+  if (typeof username !== 'string' || !USERNAME_PATTERN.test(username)) {
+    return 'Usernames are 3 to 32 letters, numbers, dots, dashes or underscores.';
+  }
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return `Passwords must be at least ${MIN_PASSWORD_LENGTH} characters.`;
+  }
+  if (password.length > MAX_PASSWORD_LENGTH) {
+    return `Passwords must be at most ${MAX_PASSWORD_LENGTH} characters.`;
+  }
+  return null;
+};
+
+// Create an account. Resolves with null if the username is taken.
+export const createUser = async (username: string, password: string): Promise<SessionUser | null> => {
+  const passwordHash = await hashPassword(password);
+  const result = getDb()
+    .prepare('INSERT INTO users (username, password_hash, created_at) VALUES (?, ?, ?) ON CONFLICT DO NOTHING')
+    .run(username, passwordHash, Date.now());
+  if (result.changes === 0) return null;
+  return { id: Number(result.lastInsertRowid), username };
+};
+
+// Resolves with the user if the username and password match, otherwise null
+export const authenticate = async (username: string, password: string): Promise<SessionUser | null> => {
+  const row = getDb().prepare('SELECT id, username, password_hash FROM users WHERE username = ?').get(username) as
+    | UserRow
+    | undefined;
+  const isValid = await verifyPassword(password, row ? row.password_hash : await UNKNOWN_USER_HASH);
+  return row && isValid ? { id: row.id, username: row.username } : null;
+};
+
+// Sessions are stored by the hash of their token, so a leaked database can't be used to sign in
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+// Start a session for `user` and set its cookie on `response`
+export const startSession = (response: NextResponse, user: SessionUser) => {
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = Date.now() + SESSION_DURATION_MS;
+  const db = getDb();
+  db.prepare('DELETE FROM sessions WHERE expires_at <= ?').run(Date.now());
+  db.prepare('INSERT INTO sessions (token_hash, user_id, expires_at) VALUES (?, ?, ?)').run(hashToken(token), user.id, expiresAt);
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires: new Date(expiresAt),
+  });
+};
+
+// End the request's session, if any, and clear its cookie on `response`
+export const endSession = (request: NextRequest, response: NextResponse) => {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (token) getDb().prepare('DELETE FROM sessions WHERE token_hash = ?').run(hashToken(token));
+  response.cookies.delete(SESSION_COOKIE);
+};
+
+export const getSessionUser = (request: NextRequest): SessionUser | null => {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (!token) return null;
+  const row = getDb()
+    .prepare(
+      `SELECT users.id, users.username FROM sessions JOIN users ON users.id = sessions.user_id
+       WHERE sessions.token_hash = ? AND sessions.expires_at > ?`
+    )
+    .get(hashToken(token), Date.now()) as SessionUser | undefined;
+  return row ?? null;
+};
+
+// The signed-in user, or a 401 response to return instead
+export const requireUser = (request: NextRequest): { user: SessionUser } | { response: NextResponse } => {
+  const user = getSessionUser(request);
+  return user ? { user } : { response: jsonError('Sign in to use your account.', 401) };
+};
@@ -0,0 +1,361 @@
+// JSON backup/restore and CSV export of everything the app stores
+import { DateTime } from 'luxon';
+import {
+  BodyStats,
+  DailyHistoryEntry,
+  ExerciseEntry,
+  Food,
+  GoalSchedule,
+  LogEntry,
+  MacroProfile,
+  NutrientGoals,
+  Product,
+  Recipe,
+  ReminderSettings,
+  SlotBudgets,
+  VolumeUnit,
+  WaterEntry,
+  WeightEntry,
+} from './types';
+import { sumCalories, sumMacros } from './nutrition';
+import { DEFAULT_DAY_START_HOUR, isDayStartHour, removeLegacyResetEntries } from './dayBoundary';
+import { getEntrySlot } from './mealSlots';
+import { NUTRIENTS } from './nutrients';
+import { getNetCalories, sumExerciseCalories } from './exercise';
+import { DEFAULT_WATER_GOAL_ML, getHydrationMl, withLegacyDrinkVolumes } from './water';
+import { EMPTY_GOAL_SCHEDULE } from './goalSchedule';
+import { DEFAULT_REMINDER_SETTINGS } from './reminders';
+import {
+  isBodyStats,
+  isDailyGoal,
+  isDailyHistoryEntry,
+  isExerciseEntry,
+  isFiniteNumber,
+  isFood,
+  isGoalSchedule,
+  isLogEntry,
+  isMacroProfile,
+  isNutrientGoals,
+  isProduct,
+  isRecipe,
+  isRecord,
+  isReminderSettings,
+  isSlotBudgets,
+  isVolumeUnit,
+  isWaterEntry,
+  isWeightEntry,
+} from './validators';
+
+const BACKUP_APP_ID = 'intake';
+export const BACKUP_FORMAT_VERSION = 2; // v2: meal items mark drinks with drinkMl
+
+export interface BackupFile {
+  app: typeof BACKUP_APP_ID;
+  formatVersion: number;
+  exportedAt: string; // ISO timestamp
+  dailyGoal: number;
+  selectedProfile: string; // Macro profile id
+  customProfiles: MacroProfile[]; // Missing from backups made before custom profiles existed
+  bodyStats: BodyStats | null; // Goal wizard inputs; null if the wizard was never used
+  goalSchedule: GoalSchedule; // Missing from backups made before goal schedules existed
+  weightLog: WeightEntry[]; // Missing from backups made before the weight log existed
+  reminderSettings: ReminderSettings; // Missing from backups made before reminders existed
+  slotBudgets: SlotBudgets; // Missing from backups made before meal slots existed
+  nutrientGoals: NutrientGoals; // Missing from backups made before extended nutrients existed
+  dayStartHour: number; // Missing from backups made before the day start was configurable
+  log: LogEntry[];
+  exerciseLog: ExerciseEntry[]; // Missing from backups made before exercise was tracked
+  addExerciseToBudget: boolean;
+  waterLog: WaterEntry[]; // Missing from backups made before water was tracked
+  waterGoalMl: number;
+  volumeUnit: VolumeUnit;
+  calorieHistory: DailyHistoryEntry[];
+  customFoods: Food[]; // Missing from backups made before custom foods existed
+  customProducts: Product[]; // Missing from backups made before barcode scanning existed
+  recipes: Recipe[]; // Missing from backups made before recipes existed
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+export const createBackup = (
+  data: Omit<BackupFile, 'app' | 'formatVersion' | 'exportedAt'>
+): BackupFile => ({
+  app: BACKUP_APP_ID,
+  formatVersion: BACKUP_FORMAT_VERSION,
+  exportedAt: new Date().toISOString(),
+  ...data,
+});
+
+// Meals from a backup, brought up to date with the format this version writes
+const upgradeMealLog = (mealLog: LogEntry[], formatVersion: number): LogEntry[] => {
+  const entries = removeLegacyResetEntries(mealLog);
+  return formatVersion < 2 ? entries.map(withLegacyDrinkVolumes) : entries;
+};
+
+// Parse and validate a backup file. Throws a BackupError describing the first problem found.
+export const parseBackup = (fileContents: string): BackupFile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(fileContents);
+  } catch {
+    throw new BackupError('The file is not valid JSON.');
+  }
+  if (!isRecord(data) || data.app !== BACKUP_APP_ID) {
+    throw new BackupError('The file is not an Intake backup.');
+  }
+  if (!isFiniteNumber(data.formatVersion) || data.formatVersion > BACKUP_FORMAT_VERSION) {
+    throw new BackupError('The backup was made by a newer version of the app.');
+  }
+  const formatVersion = data.formatVersion;
+  if (!isDailyGoal(data.dailyGoal)) {
+    throw new BackupError('The backup has an invalid daily goal.');
+  }
+  if (typeof data.selectedProfile !== 'string') {
+    throw new BackupError('The backup has no macro profile.');
+  }
+  if (data.customProfiles !== undefined && (!Array.isArray(data.customProfiles) || !data.customProfiles.every(isMacroProfile))) {
+    throw new BackupError('The backup has invalid macro profiles.');
+  }
+  if (data.reminderSettings !== undefined && !isReminderSettings(data.reminderSettings)) {
+    throw new BackupError('The backup has invalid reminder settings.');
+  }
+  if (data.slotBudgets !== undefined && !isSlotBudgets(data.slotBudgets)) {
+    throw new BackupError('The backup has invalid meal budgets.');
+  }
+  if (data.bodyStats !== undefined && data.bodyStats !== null && !isBodyStats(data.bodyStats)) {
+    throw new BackupError('The backup has invalid body stats.');
+  }
+  if (data.goalSchedule !== undefined && !isGoalSchedule(data.goalSchedule)) {
+    throw new BackupError('The backup has an invalid goal schedule.');
+  }
+  if (data.weightLog !== undefined && (!Array.isArray(data.weightLog) || !data.weightLog.every(isWeightEntry))) {
+    throw new BackupError('The backup has invalid weigh-ins.');
+  }
+  if (data.nutrientGoals !== undefined && !isNutrientGoals(data.nutrientGoals)) {
+    throw new BackupError('The backup has invalid nutrient goals.');
+  }
+  if (data.dayStartHour !== undefined && !isDayStartHour(data.dayStartHour)) {
+    throw new BackupError('The backup has an invalid day start hour.');
+  }
+  if (!Array.isArray(data.log) || !data.log.every(isLogEntry)) {
+    throw new BackupError("The backup's log contains invalid entries.");
+  }
+  if (data.exerciseLog !== undefined && (!Array.isArray(data.exerciseLog) || !data.exerciseLog.every(isExerciseEntry))) {
+    throw new BackupError("The backup's exercise log contains invalid entries.");
+  }
+  if (data.waterLog !== undefined && (!Array.isArray(data.waterLog) || !data.waterLog.every(isWaterEntry))) {
+    throw new BackupError("The backup's water log contains invalid entries.");
+  }
+  if (!Array.isArray(data.calorieHistory)) {
+    throw new BackupError('The backup has no history list.');
+  }
+  const invalidDay = data.calorieHistory.find((day) => !isDailyHistoryEntry(day));
+  if (invalidDay !== undefined) {
+    const date = isRecord(invalidDay) && typeof invalidDay.date === 'string' ? invalidDay.date : 'unknown date';
+    throw new BackupError(`The backup has an invalid history day (${date}).`);
+  }
+  if (data.customFoods !== undefined && (!Array.isArray(data.customFoods) || !data.customFoods.every(isFood))) {
+    throw new BackupError('The backup has invalid custom foods.');
+  }
+  if (data.customProducts !== undefined && (!Array.isArray(data.customProducts) || !data.customProducts.every(isProduct))) {
+    throw new BackupError('The backup has invalid custom products.');
+  }
+  if (data.recipes !== undefined && (!Array.isArray(data.recipes) || !data.recipes.every(isRecipe))) {
+    throw new BackupError('The backup has invalid recipes.');
+  }
+  return {
+    app: BACKUP_APP_ID,
+    formatVersion,
+    exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+    dailyGoal: data.dailyGoal,
+    selectedProfile: data.selectedProfile,
+    customProfiles: Array.isArray(data.customProfiles) ? data.customProfiles.filter(isMacroProfile) : [],
+    bodyStats: isBodyStats(data.bodyStats) ? data.bodyStats : null,
+    goalSchedule: isGoalSchedule(data.goalSchedule) ? data.goalSchedule : EMPTY_GOAL_SCHEDULE,
+    weightLog: Array.isArray(data.weightLog) ? data.weightLog.filter(isWeightEntry) : [],
+    reminderSettings: isReminderSettings(data.reminderSettings) ? data.reminderSettings : DEFAULT_REMINDER_SETTINGS,
+    slotBudgets: isSlotBudgets(data.slotBudgets) ? data.slotBudgets : {},
+    nutrientGoals: isNutrientGoals(data.nutrientGoals) ? data.nutrientGoals : {},
+    dayStartHour: isDayStartHour(data.dayStartHour) ? data.dayStartHour : DEFAULT_DAY_START_HOUR,
+    log: upgradeMealLog(data.log, formatVersion),
+    exerciseLog: Array.isArray(data.exerciseLog) ? data.exerciseLog.filter(isExerciseEntry) : [],
+    addExerciseToBudget: data.addExerciseToBudget === true,
+    waterLog: Array.isArray(data.waterLog) ? data.waterLog.filter(isWaterEntry) : [],
+    waterGoalMl: isDailyGoal(data.waterGoalMl) ? data.waterGoalMl : DEFAULT_WATER_GOAL_ML,
+    volumeUnit: isVolumeUnit(data.volumeUnit) ? data.volumeUnit : 'ml',
+    calorieHistory: data.calorieHistory.map((day) => ({ ...day, mealLog: upgradeMealLog(day.mealLog, formatVersion) })),
+    customFoods: Array.isArray(data.customFoods) ? data.customFoods.filter(isFood) : [],
+    customProducts: Array.isArray(data.customProducts) ? data.customProducts.filter(isProduct) : [],
+    recipes: Array.isArray(data.recipes) ? data.recipes.filter(isRecipe) : [],
+  };
+};
+
+// Combine two logs, keeping existing entries and adding any new ids from `incoming`
+export const mergeLogs = (existing: LogEntry[], incoming: LogEntry[]): LogEntry[] => {
+  const existingIds = new Set(existing.map((entry) => entry.id));
+  return [...existing, ...incoming.filter((entry) => !existingIds.has(entry.id))];
+};
+
+// Combine exercise logs, keeping existing entries and adding any new ids from `incoming`
+export const mergeExerciseLogs = (existing: ExerciseEntry[], incoming: ExerciseEntry[]): ExerciseEntry[] => {
+  const existingIds = new Set(existing.map((entry) => entry.id));
+  return [...existing, ...incoming.filter((entry) => !existingIds.has(entry.id))];
+};
+
+// Combine water logs, keeping existing entries and adding any new ids from `incoming`
+export const mergeWaterLogs = (existing: WaterEntry[], incoming: WaterEntry[]): WaterEntry[] => {
+  const existingIds = new Set(existing.map((entry) => entry.id));
+  return [...existing, ...incoming.filter((entry) => !existingIds.has(entry.id))];
+};
+
+// Combine custom food lists, keeping existing foods and adding any new ids from `incoming`
+export const mergeCustomFoods = (existing: Food[], incoming: Food[]): Food[] => {
+  const existingIds = new Set(existing.map((food) => food.id));
+  return [...existing, ...incoming.filter((food) => !existingIds.has(food.id))];
+};
+
+// Combine custom product lists; a barcode already stored keeps its existing product
+export const mergeCustomProducts = (existing: Product[], incoming: Product[]): Product[] => {
+  const existingBarcodes = new Set(existing.map((product) => product.barcode));
+  return [...existing, ...incoming.filter((product) => !existingBarcodes.has(product.barcode))];
+};
+
+// Combine custom macro profile lists, keeping existing profiles and adding any new ids from `incoming`
+export const mergeCustomProfiles = (existing: MacroProfile[], incoming: MacroProfile[]): MacroProfile[] => {
+  const existingIds = new Set(existing.map((profile) => profile.id));
+  return [...existing, ...incoming.filter((profile) => !existingIds.has(profile.id))];
+};
+
+// Combine weight logs; a day already weighed keeps its existing weigh-in
+export const mergeWeightLog = (existing: WeightEntry[], incoming: WeightEntry[]): WeightEntry[] => {
+  const existingDates = new Set(existing.map((entry) => entry.date));
+  return [...existing, ...incoming.filter((entry) => !existingDates.has(entry.date))].sort((a, b) =>
+    a.date.localeCompare(b.date)
+  );
+};
+
+// Combine recipe lists; for a recipe in both, the more recent version wins
+export const mergeRecipes = (existing: Recipe[], incoming: Recipe[]): Recipe[] => {
+  const incomingById = new Map(incoming.map((recipe) => [recipe.id, recipe]));
+  const existingIds = new Set(existing.map((recipe) => recipe.id));
+  return [
+    ...existing.map((recipe) => {
+      const other = incomingById.get(recipe.id);
+      return other && other.version > recipe.version ? other : recipe;
+    }),
+    ...incoming.filter((recipe) => !existingIds.has(recipe.id)),
+  ];
+};
+
+// Merge one day from a backup into the same day already stored
+export const mergeHistoryDay = (existing: DailyHistoryEntry, incoming: DailyHistoryEntry): DailyHistoryEntry => {
+  const mealLog = mergeLogs(existing.mealLog, incoming.mealLog);
+  const exerciseLog = mergeExerciseLogs(existing.exerciseLog ?? [], incoming.exerciseLog ?? []);
+  const waterLog = mergeWaterLogs(existing.waterLog ?? [], incoming.waterLog ?? []);
+  return {
+    ...existing,
+    mealLog,
+    ...(exerciseLog.length > 0 && { exerciseLog }),
+    ...(waterLog.length > 0 && { waterLog }),
+    totalCalories: sumCalories(mealLog),
+  };
+};
+
+// Combine two lists of days, merging days that appear in both with mergeHistoryDay
+export const mergeHistoryDayLists = (
+  existing: DailyHistoryEntry[],
+  incoming: DailyHistoryEntry[]
+): DailyHistoryEntry[] => {
+  const byDate = new Map(existing.map((day) => [day.date, day]));
+  incoming.forEach((day) => {
+    const stored = byDate.get(day.date);
+    byDate.set(day.date, stored ? mergeHistoryDay(stored, day) : day);
+  });
+  return Array.from(byDate.values());
+};
+
+const CSV_SPECIAL_CHARS = /[",\r\n]/;
+
+const toCsvField = (value: string | number): string => {
+  const text = String(value);
+  return CSV_SPECIAL_CHARS.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (rows: (string | number)[][]): string =>
+  rows.map((row) => row.map(toCsvField).join(',')).join('\r\n') + '\r\n';
+
+// One row per LogEntry across all given days, oldest first
+export const historyToEntriesCsv = (days: DailyHistoryEntry[]): string => {
+  const rows: (string | number)[][] = [
+    ['date', 'time', 'meal', 'text', 'calories', 'carbs', 'protein', 'fat', ...NUTRIENTS.map((nutrient) => nutrient.schemaName)],
+  ];
+  [...days]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach((day) => {
+      [...day.mealLog]
+        .sort((a, b) => a.timestamp - b.timestamp)
+        .forEach((entry) => {
+          rows.push([
+            day.date,
+            DateTime.fromMillis(entry.timestamp, { zone: day.timeZone ?? 'local' }).toFormat('HH:mm'),
+            getEntrySlot(entry, day.timeZone),
+            entry.text,
+            entry.calories,
+            entry.macros.carbs,
+            entry.macros.protein,
+            entry.macros.fat,
+            // Unknown amounts are left empty rather than written as 0
+            ...NUTRIENTS.map((nutrient) => entry.nutrients?.[nutrient.key] ?? ''),
+          ]);
+        });
+    });
+  return toCsv(rows);
+};
+
+// One row per day with totals compared to the goal that applied that day, oldest first
+export const historyToDailyTotalsCsv = (days: DailyHistoryEntry[]): string => {
+  const rows: (string | number)[][] = [
+    ['date', 'total_calories', 'daily_goal', 'difference', 'percent_of_goal', 'carbs', 'protein', 'fat', 'entries', 'macro_profile', 'exercise_calories', 'net_calories', 'water_ml'],
+  ];
+  [...days]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach((day) => {
+      const macros = sumMacros(day.mealLog);
+      rows.push([
+        day.date,
+        day.totalCalories,
+        day.dailyGoalAtTheTime,
+        day.totalCalories - day.dailyGoalAtTheTime,
+        Math.round((day.totalCalories / day.dailyGoalAtTheTime) * 100),
+        macros.carbs,
+        macros.protein,
+        macros.fat,
+        day.mealLog.length,
+        day.profileAtTheTime?.name ?? '',
+        sumExerciseCalories(day.exerciseLog ?? []),
+        getNetCalories(day),
+        getHydrationMl(day.mealLog, day.waterLog ?? []),
+      ]);
+    });
+  return toCsv(rows);
+};
+
+// Trigger a browser download of a generated file
+export const downloadFile = (filename: string, contents: string, mimeType: string) => {
+  const blob = new Blob([contents], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,218 @@
+// Local EAN-13 / UPC-A barcode detection for product photos. Uses the browser's
+// BarcodeDetector where available and falls back to scanning the pixels here,
+// so no image ever leaves the device for a barcode lookup.
+
+// Largest side of the image used for decoding; barcodes need more pixels than the AI photo
+const DECODE_MAX_SIZE = 1024;
+const SCAN_LINES = 40; // Rows and columns sampled across the image
+const MAX_DIGIT_DISTANCE = 1.6; // Worst acceptable mismatch for one digit, in modules
+const MIN_LINE_CONTRAST = 40; // Minimum luminance range for a line to be worth scanning
+const MIN_VOTES = 2; // Lines that must agree on a code before it is trusted
+
+// Bar and space widths (in modules) of the left-hand odd-parity (L) digits; right-hand
+// digits have the same widths, and even-parity (G) digits are the L widths reversed
+const L_PATTERNS = [
+  [3, 2, 1, 1],
+  [2, 2, 2, 1],
+  [2, 1, 2, 2],
+  [1, 4, 1, 1],
+  [1, 1, 3, 2],
+  [1, 2, 3, 1],
+  [1, 1, 1, 4],
+  [1, 3, 1, 2],
+  [1, 2, 1, 3],
+  [3, 1, 1, 2],
+];
+const G_PATTERNS = L_PATTERNS.map((pattern) => [...pattern].reverse());
+
+// Parity of the six left-hand digits encodes the first digit of the code
+const FIRST_DIGIT_PARITIES = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+
+// Runs making up a whole EAN-13: start guard, 6 digits, middle guard, 6 digits, end guard
+const EAN13_RUN_COUNT = 3 + 6 * 4 + 5 + 6 * 4 + 3;
+const EAN13_MODULES = 95;
+
+// Minimal typing for the BarcodeDetector API, which TypeScript's DOM lib doesn't include yet
+interface DetectedBarcode {
+  rawValue: string;
+  format: string;
+}
+interface BarcodeDetectorInstance {
+  detect: (source: ImageBitmapSource) => Promise<DetectedBarcode[]>;
+}
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorInstance;
+
+// True if a 13-digit code has a correct check digit
+export const isValidGtin13 = (code: string): boolean => {
+  if (!/^\d{13}$/.test(code)) return false;
+  const digits = code.split('').map(Number);
+  const sum = digits.slice(0, 12).reduce((total, digit, index) => total + digit * (index % 2 === 0 ? 1 : 3), 0);
+  return (10 - (sum % 10)) % 10 === digits[12];
+};
+
+// Normalize an EAN-13 or UPC-A code to a 13-digit GTIN, or null if it isn't a valid one
+export const normalizeBarcode = (value: string): string | null => {
+  const digits = value.replace(/\D/g, '');
+  const code = digits.length === 12 ? `0${digits}` : digits;
+  return isValidGtin13(code) ? code : null;
+};
+
+const matchDigit = (runs: number[], patterns: number[][]): { digit: number; distance: number } | null => {
+  const total = runs.reduce((sum, run) => sum + run, 0);
+  let best: { digit: number; distance: number } | null = null;
+  patterns.forEach((pattern, digit) => {
+    const distance = runs.reduce((sum, run, index) => sum + Math.abs((run * 7) / total - pattern[index]), 0);
+    if (distance <= MAX_DIGIT_DISTANCE && (!best || distance < best.distance)) best = { digit, distance };
+  });
+  return best;
+};
+
+// Try to decode an EAN-13 whose start guard begins at runs[start], which must be a bar
+const decodeAt = (runs: number[], start: number): string | null => {
+  if (start + EAN13_RUN_COUNT > runs.length) return null;
+  const totalWidth = runs.slice(start, start + EAN13_RUN_COUNT).reduce((sum, run) => sum + run, 0);
+  const moduleWidth = totalWidth / EAN13_MODULES;
+  // Every guard bar and space is one module wide
+  const middleGuard = start + 3 + 6 * 4;
+  const endGuard = middleGuard + 5 + 6 * 4;
+  const guardRuns = [
+    ...runs.slice(start, start + 3),
+    ...runs.slice(middleGuard, middleGuard + 5),
+    ...runs.slice(endGuard, endGuard + 3),
+  ];
+  if (guardRuns.some((run) => run < moduleWidth * 0.4 || run > moduleWidth * 1.6)) return null;
+
+  const digits: number[] = [];
+  let parity = '';
+  let position = start + 3;
+  for (let i = 0; i < 6; i++) {
+    const digitRuns = runs.slice(position, position + 4);
+    const odd = matchDigit(digitRuns, L_PATTERNS);
+    const even = matchDigit(digitRuns, G_PATTERNS);
+    if (!odd && !even) return null;
+    const useEven = !!even && (!odd || even.distance < odd.distance);
+    digits.push(useEven ? even!.digit : odd!.digit);
+    parity += useEven ? 'G' : 'L';
+    position += 4;
+  }
+  position += 5; // Middle guard
+  for (let i = 0; i < 6; i++) {
+    const match = matchDigit(runs.slice(position, position + 4), L_PATTERNS);
+    if (!match) return null;
+    digits.push(match.digit);
+    position += 4;
+  }
+
+  const firstDigit = FIRST_DIGIT_PARITIES.indexOf(parity);
+  if (firstDigit < 0) return null;
+  const code = `${firstDigit}${digits.join('')}`;
+  return isValidGtin13(code) ? code : null;
+};
+
+// Binarize one line of luminance values against a local mean and decode any barcode on it
+const scanLine = (luminance: number[]): string | null => {
+  const length = luminance.length;
+  const min = Math.min(...luminance);
+  const max = Math.max(...luminance);
+  if (max - min < MIN_LINE_CONTRAST) return null;
+
+  const prefix = [0];
+  luminance.forEach((value, index) => prefix.push(prefix[index] + value));
+  const halfWindow = Math.max(8, Math.round(length / 20));
+
+  const runs: number[] = [];
+  let firstIsDark = false;
+  let previousDark: boolean | null = null;
+  for (let i = 0; i < length; i++) {
+    const from = Math.max(0, i - halfWindow);
+    const to = Math.min(length, i + halfWindow + 1);
+    const localMean = (prefix[to] - prefix[from]) / (to - from);
+    const isDark = luminance[i] < localMean;
+    if (isDark === previousDark) {
+      runs[runs.length - 1]++;
+    } else {
+      if (previousDark === null) firstIsDark = isDark;
+      runs.push(1);
+      previousDark = isDark;
+    }
+  }
+
+  for (let start = firstIsDark ? 0 : 1; start < runs.length; start += 2) {
+    const code = decodeAt(runs, start);
+    if (code) return code;
+  }
+  return null;
+};
+
+// Decode an EAN-13 / UPC-A barcode from raw pixels, scanning rows and columns in both
+// directions and returning the code read most often, or null if none was found
+export const decodeBarcodeFromImageData = ({ data, width, height }: ImageData): string | null => {
+  const luminanceAt = (x: number, y: number) => {
+    const offset = (y * width + x) * 4;
+    return 0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2];
+  };
+  const votes = new Map<string, number>();
+  const tryLine = (line: number[]) => {
+    const code = scanLine(line) ?? scanLine([...line].reverse());
+    if (code) votes.set(code, (votes.get(code) ?? 0) + 1);
+  };
+
+  for (let i = 1; i < SCAN_LINES; i++) {
+    const y = Math.floor((height * i) / SCAN_LINES);
+    tryLine(Array.from({ length: width }, (_, x) => luminanceAt(x, y)));
+    const x = Math.floor((width * i) / SCAN_LINES);
+    tryLine(Array.from({ length: height }, (_, y) => luminanceAt(x, y)));
+  }
+
+  let bestCode: string | null = null;
+  let bestVotes = MIN_VOTES - 1;
+  votes.forEach((count, code) => {
+    if (count > bestVotes) {
+      bestCode = code;
+      bestVotes = count;
+    }
+  });
+  return bestCode;
+};
+
+const loadImage = (file: File): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new window.Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = (err) => {
+      URL.revokeObjectURL(url);
+      reject(err);
+    };
+    img.src = url;
+  });
+
+// Find an EAN-13 / UPC-A barcode in a photo. Returns the 13-digit GTIN, or null if there is none.
+export const detectBarcode = async (file: File): Promise<string | null> => {
+  const img = await loadImage(file);
+
+  const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+  if (Detector) {
+    try {
+      const barcodes = await new Detector({ formats: ['ean_13', 'upc_a'] }).detect(img);
+      for (const barcode of barcodes) {
+        const code = normalizeBarcode(barcode.rawValue);
+        if (code) return code;
+      }
+    } catch (err) {
+      console.warn('BarcodeDetector failed, scanning the image instead:', err);
+    }
+  }
+
+  const scale = Math.min(1, DECODE_MAX_SIZE / Math.max(img.width, img.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(img.width * scale);
+  canvas.height = Math.round(img.height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return decodeBarcodeFromImageData(ctx.getImageData(0, 0, canvas.width, canvas.height));
+};
@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DateTime, Settings } from 'luxon';
+import { LogEntry, MacroProfile } from './types';
+import { getDayKey, getNextDayStart, planRollover } from './dayBoundary';
+
+const ZONE = 'America/New_York';
+
+const at = (iso: string) => DateTime.fromISO(iso, { zone: ZONE }).toMillis();
+
+const meal = (iso: string): LogEntry => ({
+  id: `meal-${iso}`,
+  text: 'Toast',
+  calories: 200,
+  macros: { carbs: 30, protein: 5, fat: 5 },
+  timestamp: at(iso),
+});
+
+const profile: MacroProfile = { id: 'balanced', name: 'Balanced', mode: 'percent', carbs: 40, protein: 30, fat: 30 };
+const goalForDate = () => ({ dailyGoal: 2000, profile });
+
+beforeEach(() => {
+  Settings.defaultZone = ZONE;
+});
+
+afterEach(() => {
+  Settings.defaultZone = 'system';
+});
+
+describe('getDayKey', () => {
+  it('starts the day at midnight by default', () => {
+    expect(getDayKey(at('2026-10-19T00:00'), 0, ZONE)).toBe('2026-10-19');
+    expect(getDayKey(at('2026-10-18T23:59'), 0, ZONE)).toBe('2026-10-18');
+  });
+
+  it('counts the hours before a late day start as the previous day', () => {
+    expect(getDayKey(at('2026-10-19T02:59'), 3, ZONE)).toBe('2026-10-18');
+    expect(getDayKey(at('2026-10-19T03:00'), 3, ZONE)).toBe('2026-10-19');
+  });
+
+  it('follows the wall clock when the clocks go forward', () => {
+    // 02:00–03:00 doesn't exist on 8 March 2026 in New York
+    expect(getDayKey(at('2026-03-08T01:30'), 3, ZONE)).toBe('2026-03-07');
+    expect(getDayKey(at('2026-03-08T03:30'), 3, ZONE)).toBe('2026-03-08');
+  });
+
+  it('follows the wall clock when the clocks go back', () => {
+    // 01:00–02:00 happens twice on 1 November 2026 in New York
+    expect(getDayKey(at('2026-11-01T02:30'), 3, ZONE)).toBe('2026-10-31');
+    expect(getDayKey(at('2026-11-01T03:00'), 3, ZONE)).toBe('2026-11-01');
+  });
+
+  it('keys by the zone the day was opened in', () => {
+    const lateInNewYork = at('2026-10-19T22:00');
+    expect(getDayKey(lateInNewYork, 0, ZONE)).toBe('2026-10-19');
+    expect(getDayKey(lateInNewYork, 0, 'Europe/Berlin')).toBe('2026-10-20');
+  });
+});
+
+describe('getNextDayStart', () => {
+  it('is later today before the start hour and tomorrow after it', () => {
+    expect(getNextDayStart(3, at('2026-10-19T01:00'))).toBe(at('2026-10-19T03:00'));
+    expect(getNextDayStart(3, at('2026-10-19T03:00'))).toBe(at('2026-10-20T03:00'));
+  });
+
+  it('stays on the start hour across daylight saving changes', () => {
+    expect(getNextDayStart(3, at('2026-03-08T00:30'))).toBe(at('2026-03-08T03:00'));
+    expect(getNextDayStart(3, at('2026-03-07T12:00'))).toBe(at('2026-03-08T03:00'));
+    expect(getNextDayStart(3, at('2026-11-01T00:30'))).toBe(at('2026-11-01T03:00'));
+  });
+});
+
+describe('planRollover', () => {
+  const currentDay = { date: '2026-03-06', timeZone: ZONE };
+
+  it('does nothing while the current day is still open', () => {
+    const rollover = planRollover({
+      log: [meal('2026-03-06T12:00')],
+      exerciseLog: [],
+      waterLog: [],
+      currentDay,
+      dayStartHour: 3,
+      goalForDate,
+      now: at('2026-03-07T02:30'),
+    });
+    expect(rollover).toBeNull();
+  });
+
+  it('archives every day of a gap, including empty ones and a daylight saving change', () => {
+    const rollover = planRollover({
+      log: [
+        meal('2026-03-06T20:00'),
+        meal('2026-03-08T01:30'), // Still the 7th with days starting at 03:00
+        meal('2026-03-08T03:30'),
+        meal('2026-03-10T09:00'),
+      ],
+      exerciseLog: [],
+      waterLog: [{ id: 'water-1', amountMl: 250, timestamp: at('2026-03-09T10:00') }],
+      currentDay,
+      dayStartHour: 3,
+      goalForDate,
+      now: at('2026-03-10T10:00'),
+    });
+    expect(rollover.archivedDays.map((day) => [day.date, day.mealLog.length, day.totalCalories])).toEqual([
+      ['2026-03-06', 1, 200],
+      ['2026-03-07', 1, 200],
+      ['2026-03-08', 1, 200],
+      ['2026-03-09', 0, 0],
+    ]);
+    expect(rollover.archivedDays[3].waterLog).toHaveLength(1);
+    expect(rollover.archivedDays.every((day) => day.timeZone === ZONE && day.dailyGoalAtTheTime === 2000)).toBe(true);
+    expect(rollover.remainingLog.map((entry) => entry.id)).toEqual(['meal-2026-03-10T09:00']);
+    expect(rollover.currentDay).toEqual({ date: '2026-03-10', timeZone: ZONE });
+  });
+
+  it('files meals from the repeated hour after the clocks go back under the right day', () => {
+    const rollover = planRollover({
+      log: [meal('2026-10-31T21:00'), meal('2026-11-01T02:30'), meal('2026-11-01T03:30')],
+      exerciseLog: [],
+      waterLog: [],
+      currentDay: { date: '2026-10-31', timeZone: ZONE },
+      dayStartHour: 3,
+      goalForDate,
+      now: at('2026-11-02T08:00'),
+    });
+    expect(rollover.archivedDays.map((day) => [day.date, day.mealLog.length])).toEqual([
+      ['2026-10-31', 2],
+      ['2026-11-01', 1],
+    ]);
+    expect(rollover.remainingLog).toEqual([]);
+  });
+});
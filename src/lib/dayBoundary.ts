@@ -0,0 +1,171 @@
+// Day boundary and rollover logic. A "day" runs from dayStartHour to
+// dayStartHour the next calendar day, in the time zone it was opened in, so
+// night-shift meals and meals logged while travelling land on the right day.
+import { DateTime } from 'luxon';
+import { CurrentDay, DailyHistoryEntry, ExerciseEntry, LogEntry, MacroProfile, WaterEntry } from './types';
+import { sumCalories } from './nutrition';
+
+export const DEFAULT_DAY_START_HOUR = 0;
+
+// Never archive more than this many days in one go (e.g. after a year away)
+const MAX_ROLLOVER_DAYS = 366;
+
+// Older versions inserted this synthetic entry into the log at every reset
+export const LEGACY_RESET_ENTRY_TEXT = 'Daily Reset for new day';
+
+export const removeLegacyResetEntries = (entries: LogEntry[]): LogEntry[] =>
+  entries.filter((entry) => entry.text !== LEGACY_RESET_ENTRY_TEXT);
+
+export const getDeviceTimeZone = (): string => DateTime.local().zoneName || 'UTC';
+
+export const isDayStartHour = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 23;
+
+// The YYYY-MM-DD key of the day a moment belongs to. Compares wall-clock hours rather
+// than shifting the time, which would be an hour off on daylight saving changes.
+export const getDayKey = (timestamp: number, dayStartHour: number, timeZone: string): string => {
+  const moment = DateTime.fromMillis(timestamp, { zone: timeZone });
+  return (moment.hour < dayStartHour ? moment.minus({ days: 1 }) : moment).toFormat('yyyy-MM-dd');
+};
+
+// The day that is open right now on this device
+export const getCurrentDay = (dayStartHour: number, now = Date.now()): CurrentDay => {
+  const timeZone = getDeviceTimeZone();
+  return { date: getDayKey(now, dayStartHour, timeZone), timeZone };
+};
+
+// Milliseconds since epoch at which the next day begins
+export const getNextDayStart = (dayStartHour: number, now = Date.now()): number => {
+  const local = DateTime.fromMillis(now);
+  const startOn = (day: DateTime) => day.set({ hour: dayStartHour, minute: 0, second: 0, millisecond: 0 });
+  let boundary = startOn(local);
+  if (boundary.toMillis() <= now) boundary = startOn(local.plus({ days: 1 }));
+  return boundary.toMillis();
+};
+
+// Build a timestamp for a clock time on a given day, respecting the day boundary
+export const getTimestampForDay = (
+  date: string,
+  time: string,
+  dayStartHour: number,
+  timeZone: string
+): DateTime => {
+  let moment = DateTime.fromFormat(`${date} ${time}`, 'yyyy-MM-dd HH:mm', { zone: timeZone });
+  // Times before the day starts belong to the early hours of the next calendar day
+  if (moment.isValid && moment.hour < dayStartHour) moment = moment.plus({ days: 1 });
+  return moment;
+};
+
+export const formatEntryTime = (timestamp: number, timeZone?: string): string => {
+  const moment = DateTime.fromMillis(timestamp);
+  return (timeZone ? moment.setZone(timeZone) : moment).toLocaleString({ hour: '2-digit', minute: '2-digit' });
+};
+
+interface RolloverInput {
+  log: LogEntry[];
+  exerciseLog: ExerciseEntry[];
+  waterLog: WaterEntry[];
+  currentDay: CurrentDay;
+  dayStartHour: number;
+  goalForDate: (date: string) => { dailyGoal: number; profile: MacroProfile }; // Recorded on every archived day
+  now?: number;
+}
+
+interface RolloverResult {
+  archivedDays: DailyHistoryEntry[]; // Oldest first, one per day including empty ones
+  remainingLog: LogEntry[];
+  remainingExerciseLog: ExerciseEntry[];
+  remainingWaterLog: WaterEntry[];
+  currentDay: CurrentDay;
+}
+
+// Split timestamped entries into those still in today and the finished days they
+// belong to. Entries are keyed in the zone their day was opened in, so travel doesn't move them.
+const splitByDay = <T extends { timestamp: number }>(
+  entries: T[],
+  today: string,
+  dayStartHour: number,
+  timeZone: string
+): { byDay: Map<string, T[]>; remaining: T[] } => {
+  const byDay = new Map<string, T[]>();
+  const remaining: T[] = [];
+  entries.forEach((entry) => {
+    const dayKey = getDayKey(entry.timestamp, dayStartHour, timeZone);
+    if (dayKey >= today) {
+      remaining.push(entry);
+      return;
+    }
+    byDay.set(dayKey, [...(byDay.get(dayKey) ?? []), entry]);
+  });
+  return { byDay, remaining };
+};
+
+// Work out which days need archiving since currentDay was opened. Returns null if
+// the current day is still open. Every day between the last open day and today
+// gets a history entry, even if nothing was logged.
+export const planRollover = ({
+  log,
+  exerciseLog,
+  waterLog,
+  currentDay,
+  dayStartHour,
+  goalForDate,
+  now = Date.now(),
+}: RolloverInput): RolloverResult | null => {
+  const today = getCurrentDay(dayStartHour, now);
+  if (currentDay.date >= today.date) return null;
+
+  const meals = splitByDay(log, today.date, dayStartHour, currentDay.timeZone);
+  const exercise = splitByDay(exerciseLog, today.date, dayStartHour, currentDay.timeZone);
+  const water = splitByDay(waterLog, today.date, dayStartHour, currentDay.timeZone);
+
+  const lastDay = DateTime.fromFormat(today.date, 'yyyy-MM-dd').minus({ days: 1 });
+  const earliestGapDay = lastDay.minus({ days: MAX_ROLLOVER_DAYS - 1 });
+  let day = DateTime.fromFormat(currentDay.date, 'yyyy-MM-dd');
+  if (day < earliestGapDay) day = earliestGapDay;
+
+  // Every day from the last open day to yesterday, plus any older day that has entries
+  const dates = new Set<string>([...meals.byDay.keys(), ...exercise.byDay.keys(), ...water.byDay.keys()]);
+  while (day <= lastDay) {
+    dates.add(day.toFormat('yyyy-MM-dd'));
+    day = day.plus({ days: 1 });
+  }
+
+  const archivedDays: DailyHistoryEntry[] = Array.from(dates)
+    .sort()
+    .map((date) => {
+      const mealLog = meals.byDay.get(date) ?? [];
+      const { dailyGoal, profile } = goalForDate(date);
+      return {
+        date,
+        totalCalories: sumCalories(mealLog),
+        mealLog,
+        exerciseLog: exercise.byDay.get(date) ?? [],
+        waterLog: water.byDay.get(date) ?? [],
+        dailyGoalAtTheTime: dailyGoal,
+        profileAtTheTime: profile,
+        timeZone: currentDay.timeZone,
+      };
+    });
+
+  return {
+    archivedDays,
+    remainingLog: meals.remaining,
+    remainingExerciseLog: exercise.remaining,
+    remainingWaterLog: water.remaining,
+    currentDay: today,
+  };
+};
+
+// File entries brought in from elsewhere, such as a backup's log from the day it was made,
+// under the days they belong to: those from before today are archived as in a rollover
+// from the earliest of them. Returns null if every entry belongs to today.
+export const planRestoredRollover = (input: Omit<RolloverInput, 'currentDay'>): RolloverResult | null => {
+  const timeZone = getDeviceTimeZone();
+  const dates = [...input.log, ...input.exerciseLog, ...input.waterLog].map((entry) =>
+    getDayKey(entry.timestamp, input.dayStartHour, timeZone)
+  );
+  if (dates.length === 0) return null;
+  const earliestDate = dates.reduce((earliest, date) => (date < earliest ? date : earliest));
+  return planRollover({ ...input, currentDay: { date: earliestDate, timeZone } });
+};
@@ -0,0 +1,64 @@
+// Server-side SQLite database for accounts and their data. Only import this from
+// route handlers; the browser keeps its own copy in localStorage and IndexedDB.
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+
+const DB_PATH = process.env.INTAKE_DB_PATH || path.join(process.cwd(), 'data', 'intake.db');
+
+// Ordered schema migrations; the database's user_version is the number applied so far
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE users (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    password_hash TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    revision INTEGER NOT NULL DEFAULT 0 -- Bumped on every data change, so devices can tell they're behind
+  );
+  CREATE TABLE sessions (
+    token_hash TEXT PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    expires_at INTEGER NOT NULL
+  );
+  CREATE INDEX sessions_user_id ON sessions(user_id);
+  -- One row per synced setting or log, holding the same JSON the browser keeps in localStorage
+  CREATE TABLE account_state (
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    field TEXT NOT NULL,
+    value TEXT NOT NULL,
+    PRIMARY KEY (user_id, field)
+  );
+  CREATE TABLE history_days (
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    date TEXT NOT NULL,
+    day TEXT NOT NULL,
+    PRIMARY KEY (user_id, date)
+  );
+  `,
+];
+
+const migrate = (db: Database.Database) => {
+  const version = db.pragma('user_version', { simple: true }) as number;
+  MIGRATIONS.slice(version).forEach((sql, index) => {
+    db.transaction(() => {
+      db.exec(sql);
+      db.pragma(`user_version = ${version + index + 1}`);
+    })();
+  });
+};
+
+// Kept on globalThis so hot reloads in development don't open a new connection each time
+const globalForDb = globalThis as typeof globalThis & { intakeDb?: Database.Database };
+
+export const getDb = (): Database.Database => {
+  if (!globalForDb.intakeDb) {
+    fs.mkdirSync(path.dirname(DB_PATH), { recursive: true });
+    const db = new Database(DB_PATH);
+    db.pragma('journal_mode = WAL');
+    db.pragma('foreign_keys = ON');
+    migrate(db);
+    globalForDb.intakeDb = db;
+  }
+  return globalForDb.intakeDb;
+};
@@ -0,0 +1,61 @@
+// Energy needs from body stats: BMR with the Mifflin-St Jeor equation, TDEE from an
+// activity multiplier, and a daily goal for the rate of weight change the user wants
+import { ActivityLevel, BodyStats } from './types';
+
+export const ACTIVITY_LEVELS: { level: ActivityLevel; label: string; multiplier: number }[] = [
+  { level: 'sedentary', label: 'Sedentary (little or no exercise)', multiplier: 1.2 },
+  { level: 'light', label: 'Lightly active (1-3 days a week)', multiplier: 1.375 },
+  { level: 'moderate', label: 'Moderately active (3-5 days a week)', multiplier: 1.55 },
+  { level: 'active', label: 'Very active (6-7 days a week)', multiplier: 1.725 },
+  { level: 'veryActive', label: 'Extra active (physical job or training twice a day)', multiplier: 1.9 },
+];
+
+export const KCAL_PER_KG = 7700; // Approximate energy in a kilogram of body weight
+export const MAX_WEEKLY_CHANGE_KG = 1; // Faster loss or gain than this isn't proposed
+
+// Floors below which a proposed goal is raised, as very low intakes need supervision
+const MIN_DAILY_GOAL: Record<BodyStats['sex'], number> = { female: 1200, male: 1500 };
+
+export const calculateBmr = ({ sex, age, heightCm, weightKg }: BodyStats): number =>
+  10 * weightKg + 6.25 * heightCm - 5 * age + (sex === 'male' ? 5 : -161);
+
+export const calculateTdee = (stats: BodyStats): number => {
+  const activity = ACTIVITY_LEVELS.find((option) => option.level === stats.activityLevel) ?? ACTIVITY_LEVELS[0];
+  return calculateBmr(stats) * activity.multiplier;
+};
+
+export interface GoalProposal {
+  bmr: number;
+  tdee: number;
+  dailyGoal: number;
+  profileId: string; // Built-in macro profile suited to the direction of change
+  isAtMinimum: boolean; // The goal was raised to the minimum for safety
+}
+
+const clampWeeklyChange = (weeklyChangeKg: number): number =>
+  Math.max(-MAX_WEEKLY_CHANGE_KG, Math.min(MAX_WEEKLY_CHANGE_KG, weeklyChangeKg));
+
+// Daily intake that changes weight at the given weekly rate from a maintenance level,
+// raised to the minimum for the sex when known
+export const getGoalForChange = (
+  maintenance: number,
+  weeklyChangeKg: number,
+  sex?: BodyStats['sex']
+): { dailyGoal: number; isAtMinimum: boolean } => {
+  const target = maintenance + (clampWeeklyChange(weeklyChangeKg) * KCAL_PER_KG) / 7;
+  const minimum = sex ? MIN_DAILY_GOAL[sex] : 0;
+  // Round to the nearest 10 kcal; more precision than that is false accuracy
+  return { dailyGoal: Math.round(Math.max(target, minimum) / 10) * 10, isAtMinimum: target < minimum };
+};
+
+// Propose a daily goal and macro profile for reaching the target rate of change
+export const proposeGoal = (stats: BodyStats): GoalProposal => {
+  const tdee = calculateTdee(stats);
+  const weeklyChangeKg = clampWeeklyChange(stats.weeklyChangeKg);
+  return {
+    bmr: Math.round(calculateBmr(stats)),
+    tdee: Math.round(tdee),
+    ...getGoalForChange(tdee, weeklyChangeKg, stats.sex),
+    profileId: weeklyChangeKg < 0 ? 'Weight Loss' : weeklyChangeKg > 0 ? 'Muscle Building' : 'General',
+  };
+};
@@ -0,0 +1,134 @@
+// Response format for AI nutrition estimates, and strict validation of what
+// the model sends back. Anything that doesn't match is rejected so it can be
+// retried, rather than guessed at.
+import { EstimateConfidence, MealItem, NutrientData, NutritionEstimate } from './types';
+import { sumCalories, sumMacros } from './nutrition';
+import { NUTRIENTS, combineNutrients, roundNutrient } from './nutrients';
+import { CONFIDENCE_LEVELS, isFiniteNumber, isRecord } from './validators';
+
+// Upper bounds that no real meal item reaches; larger values mean a bad response
+const MAX_ITEM_CALORIES = 5000;
+const MAX_ITEM_GRAMS = 1000;
+const MAX_ITEM_DRINK_ML = 5000;
+const MAX_ITEMS = 30;
+
+// JSON schema passed to OpenAI structured outputs
+export const NUTRITION_ESTIMATE_SCHEMA = {
+  name: 'nutrition_estimate',
+  strict: true,
+  schema: {
+    type: 'object',
+    properties: {
+      items: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            portion: { type: 'number' },
+            unit: { type: 'string' },
+            calories: { type: 'number' },
+            carbs: { type: 'number' },
+            protein: { type: 'number' },
+            fat: { type: 'number' },
+            // Volume drunk, 0 for anything that isn't a drink
+            drink_ml: { type: 'number' },
+            // Extended nutrients are null when the model can't tell
+            ...Object.fromEntries(NUTRIENTS.map((nutrient) => [nutrient.schemaName, { type: ['number', 'null'] }])),
+          },
+          required: ['name', 'portion', 'unit', 'calories', 'carbs', 'protein', 'fat', 'drink_ml', ...NUTRIENTS.map((nutrient) => nutrient.schemaName)],
+          additionalProperties: false,
+        },
+      },
+      calories_low: { type: 'number' },
+      calories_high: { type: 'number' },
+      confidence: { type: 'string', enum: CONFIDENCE_LEVELS },
+    },
+    required: ['items', 'calories_low', 'calories_high', 'confidence'],
+    additionalProperties: false,
+  },
+};
+
+export type EstimateParseResult = { estimate: NutritionEstimate } | { error: string };
+
+const isAmount = (value: unknown, max: number): value is number =>
+  isFiniteNumber(value) && value >= 0 && value <= max;
+
+// Validate one item, returning it or a description of what is wrong with it
+const parseMealItem = (value: unknown, index: number): MealItem | string => {
+  const label = `Item ${index + 1}`;
+  if (!isRecord(value)) return `${label} is not an object.`;
+  if (typeof value.name !== 'string' || !value.name.trim()) return `${label} has no name.`;
+  if (!isFiniteNumber(value.portion) || value.portion <= 0) return `${label} has no positive portion.`;
+  if (typeof value.unit !== 'string' || !value.unit.trim()) return `${label} has no unit.`;
+  if (!isAmount(value.calories, MAX_ITEM_CALORIES)) return `${label} has invalid calories.`;
+  if (!isAmount(value.carbs, MAX_ITEM_GRAMS) || !isAmount(value.protein, MAX_ITEM_GRAMS) || !isAmount(value.fat, MAX_ITEM_GRAMS)) {
+    return `${label} has invalid macros.`;
+  }
+  if (!isAmount(value.drink_ml, MAX_ITEM_DRINK_ML)) return `${label} has an invalid drink volume.`;
+  const nutrients: NutrientData = {};
+  for (const nutrient of NUTRIENTS) {
+    const amount = value[nutrient.schemaName];
+    if (amount === null || amount === undefined) continue;
+    if (!isAmount(amount, nutrient.maxPerItem)) return `${label} has invalid ${nutrient.label.toLowerCase()}.`;
+    nutrients[nutrient.key] = roundNutrient(nutrient, amount);
+  }
+  return {
+    name: value.name.trim(),
+    portion: value.portion,
+    unit: value.unit.trim(),
+    calories: Math.round(value.calories),
+    macros: {
+      carbs: Math.round(value.carbs),
+      protein: Math.round(value.protein),
+      fat: Math.round(value.fat),
+    },
+    nutrients,
+    ...(value.drink_ml > 0 && { drinkMl: Math.round(value.drink_ml) }),
+  };
+};
+
+// Parse and validate the model's reply. An empty item list is valid: it means
+// the model couldn't recognise any food.
+export const parseNutritionEstimate = (responseText: string): EstimateParseResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(responseText);
+  } catch {
+    return { error: 'Response is not valid JSON.' };
+  }
+  if (!isRecord(data) || !Array.isArray(data.items)) {
+    return { error: 'Response has no item list.' };
+  }
+  if (data.items.length > MAX_ITEMS) {
+    return { error: 'Response has too many items.' };
+  }
+  const items: MealItem[] = [];
+  for (const [index, value] of data.items.entries()) {
+    const item = parseMealItem(value, index);
+    if (typeof item === 'string') return { error: item };
+    items.push(item);
+  }
+  const level = data.confidence as EstimateConfidence['level'];
+  if (!CONFIDENCE_LEVELS.includes(level)) {
+    return { error: 'Response has no confidence level.' };
+  }
+  if (!isFiniteNumber(data.calories_low) || !isFiniteNumber(data.calories_high) || data.calories_low < 0 || data.calories_low > data.calories_high) {
+    return { error: 'Response has an invalid calorie range.' };
+  }
+  const calories = sumCalories(items);
+  return {
+    estimate: {
+      calories,
+      macros: sumMacros(items),
+      nutrients: combineNutrients(items),
+      items,
+      // The range must contain the total even if the model's arithmetic was off
+      confidence: {
+        level,
+        caloriesLow: Math.min(Math.round(data.calories_low), calories),
+        caloriesHigh: Math.max(Math.round(data.calories_high), calories),
+      },
+    },
+  };
+};
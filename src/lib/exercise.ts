@@ -0,0 +1,42 @@
+// Exercise: activities with MET values for estimating burn, and how burned
+// calories feed into the day's budget and net intake
+import { DailyHistoryEntry, ExerciseEntry } from './types';
+
+export interface ExerciseActivity {
+  id: string;
+  label: string;
+  met: number; // Energy cost relative to resting, from the Compendium of Physical Activities
+}
+
+export const EXERCISE_ACTIVITIES: ExerciseActivity[] = [
+  { id: 'walking', label: 'Walking (moderate pace)', met: 3.5 },
+  { id: 'briskWalking', label: 'Walking (brisk)', met: 4.3 },
+  { id: 'hiking', label: 'Hiking', met: 6 },
+  { id: 'running', label: 'Running (10 km/h)', met: 9.8 },
+  { id: 'cycling', label: 'Cycling (moderate)', met: 7.5 },
+  { id: 'swimming', label: 'Swimming (laps)', met: 8 },
+  { id: 'rowing', label: 'Rowing machine', met: 7 },
+  { id: 'strength', label: 'Strength training', met: 5 },
+  { id: 'hiit', label: 'HIIT / circuit training', met: 8 },
+  { id: 'yoga', label: 'Yoga', met: 2.5 },
+  { id: 'dancing', label: 'Dancing', met: 5 },
+  { id: 'sports', label: 'Team sports', met: 7 },
+];
+
+export const findActivity = (id: string): ExerciseActivity | undefined =>
+  EXERCISE_ACTIVITIES.find((activity) => activity.id === id);
+
+// kcal burned: MET × bodyweight in kg × hours
+export const estimateExerciseCalories = (activity: ExerciseActivity, weightKg: number, durationMinutes: number): number =>
+  Math.round(activity.met * weightKg * (durationMinutes / 60));
+
+export const sumExerciseCalories = (entries: ExerciseEntry[]): number =>
+  entries.reduce((sum, entry) => sum + entry.calories, 0);
+
+// The day's calorie budget, with burned calories added back if the user wants that
+export const getDailyBudget = (dailyGoal: number, burnedCalories: number, addExerciseToBudget: boolean): number =>
+  dailyGoal + (addExerciseToBudget ? burnedCalories : 0);
+
+// Calories eaten minus calories burned
+export const getNetCalories = (day: Pick<DailyHistoryEntry, 'totalCalories' | 'exerciseLog'>): number =>
+  day.totalCalories - sumExerciseCalories(day.exerciseLog ?? []);
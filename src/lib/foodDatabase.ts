@@ -0,0 +1,149 @@
+// Bundled food database for logging common foods without an AI call. Values
+// are per 100 g (drinks per 100 ml), rounded from USDA FoodData Central.
+import { Food, LogEntry } from './types';
+
+// Build a bundled food from compact rows: kcal, carbs, protein, fat per 100 g, then servings
+const food = (
+  id: string,
+  name: string,
+  calories: number,
+  carbs: number,
+  protein: number,
+  fat: number,
+  servings: [string, number][]
+): Food => ({
+  id,
+  name,
+  caloriesPer100g: calories,
+  macrosPer100g: { carbs, protein, fat },
+  servings: servings.map(([label, grams]) => ({ label, grams })),
+});
+
+export const BUNDLED_FOODS: Food[] = [
+  food('banana', 'Banana', 89, 22.8, 1.1, 0.3, [['1 medium', 118], ['1 large', 136]]),
+  food('apple', 'Apple', 52, 13.8, 0.3, 0.2, [['1 medium', 182]]),
+  food('orange', 'Orange', 47, 11.8, 0.9, 0.1, [['1 medium', 131]]),
+  food('pear', 'Pear', 57, 15.2, 0.4, 0.1, [['1 medium', 178]]),
+  food('mango', 'Mango', 60, 15, 0.8, 0.4, [['1 cup, sliced', 165]]),
+  food('strawberries', 'Strawberries', 32, 7.7, 0.7, 0.3, [['1 cup', 152]]),
+  food('blueberries', 'Blueberries', 57, 14.5, 0.7, 0.3, [['1 cup', 148]]),
+  food('grapes', 'Grapes', 69, 18.1, 0.7, 0.2, [['1 cup', 151]]),
+  food('watermelon', 'Watermelon', 30, 7.6, 0.6, 0.2, [['1 cup, diced', 152]]),
+  food('avocado', 'Avocado', 160, 8.5, 2, 14.7, [['1/2 avocado', 68]]),
+  food('broccoli-cooked', 'Broccoli, cooked', 35, 7.2, 2.4, 0.4, [['1 cup', 156]]),
+  food('spinach-raw', 'Spinach, raw', 23, 3.6, 2.9, 0.4, [['1 cup', 30]]),
+  food('carrot', 'Carrot', 41, 9.6, 0.9, 0.2, [['1 medium', 61]]),
+  food('tomato', 'Tomato', 18, 3.9, 0.9, 0.2, [['1 medium', 123]]),
+  food('cucumber', 'Cucumber', 15, 3.6, 0.7, 0.1, [['1/2 cup, sliced', 52]]),
+  food('corn-cooked', 'Sweet corn, cooked', 96, 21, 3.4, 1.5, [['1 ear', 90]]),
+  food('peas-cooked', 'Green peas, cooked', 84, 15.6, 5.4, 0.2, [['1 cup', 160]]),
+  food('potato-baked', 'Potato, baked', 93, 21, 2.5, 0.1, [['1 medium', 173]]),
+  food('sweet-potato-baked', 'Sweet potato, baked', 90, 20.7, 2, 0.2, [['1 medium', 114]]),
+  food('french-fries', 'French fries', 312, 41, 3.4, 15, [['1 medium serving', 117]]),
+  food('white-rice-cooked', 'White rice, cooked', 130, 28.2, 2.7, 0.3, [['1 cup', 158]]),
+  food('brown-rice-cooked', 'Brown rice, cooked', 112, 23.5, 2.3, 0.8, [['1 cup', 195]]),
+  food('quinoa-cooked', 'Quinoa, cooked', 120, 21.3, 4.4, 1.9, [['1 cup', 185]]),
+  food('pasta-cooked', 'Pasta, cooked', 158, 30.9, 5.8, 0.9, [['1 cup', 140]]),
+  food('oats-dry', 'Oats, dry', 389, 66.3, 16.9, 6.9, [['1/2 cup', 40]]),
+  food('granola', 'Granola', 471, 64, 10, 20, [['1/2 cup', 61]]),
+  food('cornflakes', 'Cornflakes', 357, 84, 7.5, 0.4, [['1 cup', 28]]),
+  food('white-bread', 'Bread, white', 265, 49, 9, 3.2, [['1 slice', 25]]),
+  food('whole-wheat-bread', 'Bread, whole wheat', 247, 41, 13, 3.4, [['1 slice', 32]]),
+  food('bagel', 'Bagel, plain', 250, 49, 10, 1.6, [['1 bagel', 105]]),
+  food('croissant', 'Croissant', 406, 45.8, 8.2, 21, [['1 medium', 57]]),
+  food('flour-tortilla', 'Tortilla, flour', 304, 50, 8, 8, [['1 medium (8")', 49]]),
+  food('egg-boiled', 'Egg, boiled', 155, 1.1, 12.6, 10.6, [['1 large', 50]]),
+  food('egg-fried', 'Egg, fried', 196, 0.8, 13.6, 14.8, [['1 large', 46]]),
+  food('chicken-breast-cooked', 'Chicken breast, cooked', 165, 0, 31, 3.6, [['1 breast', 172]]),
+  food('chicken-thigh-cooked', 'Chicken thigh, cooked', 209, 0, 26, 10.9, [['1 thigh', 116]]),
+  food('turkey-deli', 'Turkey breast, deli slices', 104, 4, 17, 1.7, [['1 slice', 28]]),
+  food('beef-ground-cooked', 'Ground beef 85%, cooked', 250, 0, 26, 15, [['1 patty', 85]]),
+  food('sirloin-cooked', 'Sirloin steak, cooked', 206, 0, 30, 9, [['1 small steak', 150]]),
+  food('pork-chop-cooked', 'Pork chop, cooked', 231, 0, 25.7, 13.9, [['1 chop', 145]]),
+  food('bacon-cooked', 'Bacon, cooked', 541, 1.4, 37, 42, [['1 slice', 8]]),
+  food('salmon-cooked', 'Salmon, cooked', 206, 0, 22, 12.4, [['1 fillet', 154]]),
+  food('tuna-canned', 'Tuna, canned in water', 116, 0, 25.5, 0.8, [['1 can, drained', 142]]),
+  food('shrimp-cooked', 'Shrimp, cooked', 99, 0.2, 24, 0.3, [['3 oz', 85]]),
+  food('tofu-firm', 'Tofu, firm', 144, 2.8, 17.3, 8.7, [['1/2 cup', 126]]),
+  food('black-beans-cooked', 'Black beans, cooked', 132, 23.7, 8.9, 0.5, [['1 cup', 172]]),
+  food('lentils-cooked', 'Lentils, cooked', 116, 20.1, 9, 0.4, [['1 cup', 198]]),
+  food('hummus', 'Hummus', 166, 14.3, 7.9, 9.6, [['2 tbsp', 30]]),
+  food('milk-whole', 'Milk, whole', 61, 4.8, 3.2, 3.3, [['1 cup', 244]]),
+  food('milk-skim', 'Milk, skim', 34, 5, 3.4, 0.1, [['1 cup', 245]]),
+  food('greek-yogurt', 'Greek yogurt, plain nonfat', 59, 3.6, 10.2, 0.4, [['1 container', 170]]),
+  food('cottage-cheese', 'Cottage cheese', 98, 3.4, 11.1, 4.3, [['1/2 cup', 113]]),
+  food('cheddar', 'Cheddar cheese', 403, 1.3, 24.9, 33.1, [['1 slice', 28]]),
+  food('mozzarella', 'Mozzarella', 280, 3.1, 27.5, 17.1, [['1 oz', 28]]),
+  food('butter', 'Butter', 717, 0.1, 0.9, 81.1, [['1 tbsp', 14]]),
+  food('olive-oil', 'Olive oil', 884, 0, 0, 100, [['1 tbsp', 14]]),
+  food('mayonnaise', 'Mayonnaise', 680, 0.6, 1, 75, [['1 tbsp', 14]]),
+  food('ketchup', 'Ketchup', 101, 27, 1, 0.1, [['1 tbsp', 17]]),
+  food('peanut-butter', 'Peanut butter', 588, 20, 25, 50, [['1 tbsp', 16]]),
+  food('almonds', 'Almonds', 579, 21.6, 21.2, 49.9, [['1 oz (23 almonds)', 28]]),
+  food('walnuts', 'Walnuts', 654, 13.7, 15.2, 65.2, [['1 oz', 28]]),
+  food('whey-protein', 'Whey protein powder', 380, 8, 78, 5, [['1 scoop', 30]]),
+  food('pizza-cheese', 'Pizza, cheese', 266, 33, 11, 10, [['1 slice', 107]]),
+  food('potato-chips', 'Potato chips', 536, 53, 7, 35, [['1 oz', 28]]),
+  food('popcorn-air', 'Popcorn, air-popped', 387, 78, 13, 4.5, [['1 cup', 8]]),
+  food('dark-chocolate', 'Dark chocolate 70%', 598, 45.9, 7.8, 42.6, [['1 square', 10]]),
+  food('ice-cream-vanilla', 'Ice cream, vanilla', 207, 23.6, 3.5, 11, [['1/2 cup', 66]]),
+  food('honey', 'Honey', 304, 82.4, 0.3, 0, [['1 tbsp', 21]]),
+  food('sugar', 'Sugar', 387, 100, 0, 0, [['1 tsp', 4]]),
+  food('coffee-black', 'Coffee, black', 1, 0, 0.1, 0, [['1 cup', 240]]),
+  food('orange-juice', 'Orange juice', 45, 10.4, 0.7, 0.2, [['1 cup', 248]]),
+  food('cola', 'Cola', 42, 10.6, 0, 0, [['1 can (330 ml)', 330]]),
+  food('beer', 'Beer', 43, 3.6, 0.5, 0, [['1 bottle (355 ml)', 355]]),
+  food('red-wine', 'Wine, red', 85, 2.6, 0.1, 0, [['1 glass (150 ml)', 150]]),
+];
+
+const MAX_SEARCH_RESULTS = 20;
+
+const normalize = (text: string): string => text.toLowerCase().replace(/[^a-z0-9%]+/g, ' ').trim();
+
+// Lower is better: whole name starts with the query, then a word does, then anywhere
+const matchScore = (name: string, query: string): number | null => {
+  const normalizedName = normalize(name);
+  const terms = query.split(' ');
+  if (!terms.every((term) => normalizedName.includes(term))) return null;
+  if (normalizedName.startsWith(query)) return 0;
+  if (normalizedName.split(' ').some((word) => word.startsWith(terms[0]))) return 1;
+  return 2;
+};
+
+// Search custom foods and the bundled database. Custom foods come first on a tie.
+export const searchFoods = (query: string, customFoods: Food[], limit = MAX_SEARCH_RESULTS): Food[] => {
+  const normalizedQuery = normalize(query);
+  if (!normalizedQuery) return [];
+  return [...customFoods, ...BUNDLED_FOODS]
+    .map((candidate, index) => ({ candidate, index, score: matchScore(candidate.name, normalizedQuery) }))
+    .filter((match): match is { candidate: Food; index: number; score: number } => match.score !== null)
+    .sort((a, b) => a.score - b.score || a.index - b.index)
+    .slice(0, limit)
+    .map((match) => match.candidate);
+};
+
+// Exact nutrition for an amount of a food
+export const nutritionForGrams = (food: Food, grams: number): Pick<LogEntry, 'calories' | 'macros'> => {
+  const ratio = grams / 100;
+  return {
+    calories: Math.round(food.caloriesPer100g * ratio),
+    macros: {
+      carbs: Math.round(food.macrosPer100g.carbs * ratio),
+      protein: Math.round(food.macrosPer100g.protein * ratio),
+      fat: Math.round(food.macrosPer100g.fat * ratio),
+    },
+  };
+};
+
+// Log entry for an amount of a food. quantityLabel describes the amount, e.g. "2 x 1 slice".
+export const foodToLogEntry = (food: Food, grams: number, quantityLabel: string): LogEntry => {
+  const { calories, macros } = nutritionForGrams(food, grams);
+  return {
+    id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
+    text: `${food.name} (${quantityLabel})`,
+    calories,
+    macros,
+    timestamp: Date.now(),
+    items: [{ name: food.name, portion: Math.round(grams), unit: 'g', calories, macros }],
+  };
+};
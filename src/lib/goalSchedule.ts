@@ -0,0 +1,92 @@
+// Goal schedules: the calorie goal and macro profile in effect on a given date,
+// from one-off overrides, then the weekday's day type, then the base goal
+import { DateTime } from 'luxon';
+import { DailyHistoryEntry, DayType, GoalSchedule, MacroProfile } from './types';
+import { findProfile } from './profiles';
+
+export const EMPTY_GOAL_SCHEDULE: GoalSchedule = { dayTypes: [], weekdays: {}, overrides: {} };
+
+export const WEEKDAY_LABELS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+export interface EffectiveGoal {
+  dailyGoal: number;
+  profile: MacroProfile;
+  dayType: DayType | null; // Null on days that use the base goal
+}
+
+// Base goal and profile, used on days the schedule doesn't cover
+export interface BaseGoal {
+  dailyGoal: number;
+  profileId: string;
+}
+
+export const getDayType = (schedule: GoalSchedule, date: string): DayType | null => {
+  const dayTypeId = schedule.overrides[date] ?? schedule.weekdays[DateTime.fromISO(date).weekday];
+  return schedule.dayTypes.find((dayType) => dayType.id === dayTypeId) ?? null;
+};
+
+export const getEffectiveGoal = (
+  date: string,
+  schedule: GoalSchedule,
+  base: BaseGoal,
+  customProfiles: MacroProfile[]
+): EffectiveGoal => {
+  const dayType = getDayType(schedule, date);
+  return {
+    dailyGoal: dayType?.dailyGoal ?? base.dailyGoal,
+    profile: findProfile(dayType?.profileId ?? base.profileId, customProfiles),
+    dayType,
+  };
+};
+
+// Remove a day type along with every weekday and date that used it
+export const removeDayType = (schedule: GoalSchedule, dayTypeId: string): GoalSchedule => ({
+  dayTypes: schedule.dayTypes.filter((dayType) => dayType.id !== dayTypeId),
+  weekdays: Object.fromEntries(Object.entries(schedule.weekdays).filter(([, id]) => id !== dayTypeId)),
+  overrides: Object.fromEntries(Object.entries(schedule.overrides).filter(([, id]) => id !== dayTypeId)),
+});
+
+// Drop overrides for days that have already been archived
+export const pruneOverrides = (schedule: GoalSchedule, today: string): GoalSchedule => ({
+  ...schedule,
+  overrides: Object.fromEntries(Object.entries(schedule.overrides).filter(([date]) => date >= today)),
+});
+
+export interface WeekBudgetDay {
+  date: string;
+  goal: number;
+  eaten: number | null; // Null for days still to come
+}
+
+export interface WeekBudget {
+  days: WeekBudgetDay[]; // Monday to Sunday
+  goal: number;
+  eaten: number;
+  remaining: number; // What's left for today and the rest of the week
+}
+
+// The week containing today, Monday first. Finished days count the goal they were
+// archived with, so changing the schedule later doesn't rewrite the past.
+export const getWeekBudget = (
+  today: string,
+  todayEaten: number,
+  history: Pick<DailyHistoryEntry, 'date' | 'totalCalories' | 'dailyGoalAtTheTime'>[],
+  goalForDate: (date: string) => number
+): WeekBudget => {
+  const monday = DateTime.fromISO(today).startOf('week');
+  const historyByDate = new Map(history.map((day) => [day.date, day]));
+  const days = Array.from({ length: 7 }, (_, index): WeekBudgetDay => {
+    const date = monday.plus({ days: index }).toISODate();
+    if (date === today) return { date, goal: goalForDate(date), eaten: todayEaten };
+    const archived = historyByDate.get(date);
+    if (date < today) {
+      return archived
+        ? { date, goal: archived.dailyGoalAtTheTime, eaten: archived.totalCalories }
+        : { date, goal: goalForDate(date), eaten: 0 };
+    }
+    return { date, goal: goalForDate(date), eaten: null };
+  });
+  const goal = days.reduce((sum, day) => sum + day.goal, 0);
+  const eaten = days.reduce((sum, day) => sum + (day.eaten ?? 0), 0);
+  return { days, goal, eaten, remaining: goal - eaten };
+};
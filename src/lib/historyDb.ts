@@ -0,0 +1,214 @@
+// IndexedDB-backed store for DailyHistoryEntry records, keyed by date. Days are
+// written one at a time and read back in pages so the full history never has
+// to be serialized at once.
+import { DailyHistoryEntry } from './types';
+import { isDailyHistoryEntry, isRecord } from './validators';
+import { LEGACY_RESET_ENTRY_TEXT } from './dayBoundary';
+import { withLegacyDrinkVolumes } from './water';
+
+const DB_NAME = 'intake';
+const DB_VERSION = 3;
+const HISTORY_STORE = 'history';
+
+export const HISTORY_PAGE_SIZE = 30;
+
+export interface HistoryPage {
+  days: DailyHistoryEntry[]; // Newest first
+  hasMore: boolean;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Wrap an IDBRequest in a promise
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Resolve once a transaction has committed
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+export const isHistoryDbAvailable = (): boolean =>
+  typeof window !== 'undefined' && 'indexedDB' in window;
+
+// Bring days written by an older version up to date, in one pass over the store:
+// v2: days archived at midnight by older versions still contain the synthetic reset entry
+// v3: items measured in ml counted as drinks before items were marked as such
+const upgradeStoredDays = (store: IDBObjectStore, oldVersion: number) => {
+  const cursorRequest = store.openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    const day = cursor.value;
+    if (isRecord(day) && Array.isArray(day.mealLog)) {
+      let mealLog: unknown[] = day.mealLog;
+      if (oldVersion < 2) mealLog = mealLog.filter((entry) => !isRecord(entry) || entry.text !== LEGACY_RESET_ENTRY_TEXT);
+      if (oldVersion < 3) mealLog = mealLog.map(withLegacyDrinkVolumes);
+      cursor.update({ ...day, mealLog });
+    }
+    cursor.continue();
+  };
+};
+
+const openHistoryDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (!isHistoryDbAvailable()) {
+        reject(new Error('IndexedDB is not available in this browser.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+          db.createObjectStore(HISTORY_STORE, { keyPath: 'date' });
+        }
+        if (event.oldVersion >= 1) {
+          upgradeStoredDays(request.transaction!.objectStore(HISTORY_STORE), event.oldVersion);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later retry if opening failed
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+// Called after days are written; `replace` means they replaced all stored history
+type HistoryWriteListener = (days: DailyHistoryEntry[], replace: boolean) => void;
+
+let historyWriteListener: HistoryWriteListener | null = null;
+
+// Be told about every day written from now on, e.g. to copy it to the signed-in account.
+// Pass null to stop.
+export const setHistoryWriteListener = (listener: HistoryWriteListener | null) => {
+  historyWriteListener = listener;
+};
+
+// Insert or replace a single day
+export const putHistoryDay = async (day: DailyHistoryEntry): Promise<void> => {
+  const db = await openHistoryDb();
+  const transaction = db.transaction(HISTORY_STORE, 'readwrite');
+  transaction.objectStore(HISTORY_STORE).put(day);
+  await transactionDone(transaction);
+  historyWriteListener?.([day], false);
+};
+
+// Write days, combining each with the stored day of the same date via `merge`.
+// Resolves with the days as they were written.
+export const mergeHistoryDays = async (
+  days: DailyHistoryEntry[],
+  merge: (existing: DailyHistoryEntry, incoming: DailyHistoryEntry) => DailyHistoryEntry
+): Promise<DailyHistoryEntry[]> => {
+  if (days.length === 0) return [];
+  const db = await openHistoryDb();
+  const transaction = db.transaction(HISTORY_STORE, 'readwrite');
+  const store = transaction.objectStore(HISTORY_STORE);
+  const written: DailyHistoryEntry[] = [];
+  days.forEach((day) => {
+    const getRequest = store.get(day.date);
+    getRequest.onsuccess = () => {
+      const existing = getRequest.result;
+      const merged = isDailyHistoryEntry(existing) ? merge(existing, day) : day;
+      store.put(merged);
+      written.push(merged);
+    };
+  });
+  await transactionDone(transaction);
+  historyWriteListener?.(written, false);
+  return written;
+};
+
+// Remove every stored day and write `days` in their place
+export const replaceAllHistory = async (days: DailyHistoryEntry[]): Promise<void> => {
+  const db = await openHistoryDb();
+  const transaction = db.transaction(HISTORY_STORE, 'readwrite');
+  const store = transaction.objectStore(HISTORY_STORE);
+  store.clear();
+  days.forEach((day) => store.put(day));
+  await transactionDone(transaction);
+  historyWriteListener?.(days, true);
+};
+
+// Load up to `limit` days older than `beforeDate` (or the newest days when omitted)
+export const loadHistoryPage = async (
+  limit = HISTORY_PAGE_SIZE,
+  beforeDate?: string
+): Promise<HistoryPage> => {
+  const db = await openHistoryDb();
+  const transaction = db.transaction(HISTORY_STORE, 'readonly');
+  const range = beforeDate ? IDBKeyRange.upperBound(beforeDate, true) : undefined;
+  const request = transaction.objectStore(HISTORY_STORE).openCursor(range, 'prev');
+
+  return new Promise((resolve, reject) => {
+    const days: DailyHistoryEntry[] = [];
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve({ days, hasMore: false });
+        return;
+      }
+      if (days.length === limit) {
+        resolve({ days, hasMore: true });
+        return;
+      }
+      if (isDailyHistoryEntry(cursor.value)) {
+        days.push(cursor.value);
+      } else {
+        console.warn('Skipping invalid history record:', cursor.key);
+      }
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Load the days from `fromDate` to `toDate` inclusive, newest first
+export const loadHistoryRange = async (fromDate: string, toDate: string): Promise<DailyHistoryEntry[]> => {
+  const db = await openHistoryDb();
+  const transaction = db.transaction(HISTORY_STORE, 'readonly');
+  const range = IDBKeyRange.bound(fromDate, toDate);
+  const days = await promisifyRequest(transaction.objectStore(HISTORY_STORE).getAll(range));
+  return days.filter(isDailyHistoryEntry).sort((a, b) => b.date.localeCompare(a.date));
+};
+
+// Load the stored days with the given dates; dates with no stored day are left out
+export const loadHistoryDaysByDate = async (dates: string[]): Promise<DailyHistoryEntry[]> => {
+  if (dates.length === 0) return [];
+  const db = await openHistoryDb();
+  const store = db.transaction(HISTORY_STORE, 'readonly').objectStore(HISTORY_STORE);
+  const days = await Promise.all(dates.map((date) => promisifyRequest(store.get(date))));
+  return days.filter(isDailyHistoryEntry);
+};
+
+// Load every stored day, newest first. Used for exports; the UI should page instead.
+export const loadAllHistory = async (): Promise<DailyHistoryEntry[]> => {
+  const db = await openHistoryDb();
+  const transaction = db.transaction(HISTORY_STORE, 'readonly');
+  const days = await promisifyRequest(transaction.objectStore(HISTORY_STORE).getAll());
+  return days.filter(isDailyHistoryEntry).sort((a, b) => b.date.localeCompare(a.date));
+};
+
+// Copy history from the old localStorage format into IndexedDB. Days already
+// present in the database win, so re-running after a partial migration is safe.
+export const importLegacyHistory = async (days: DailyHistoryEntry[]): Promise<void> => {
+  if (days.length === 0) return;
+  const db = await openHistoryDb();
+  const transaction = db.transaction(HISTORY_STORE, 'readwrite');
+  const store = transaction.objectStore(HISTORY_STORE);
+  days.forEach((day) => store.add(day).addEventListener('error', (event) => {
+    // Keep the existing record and let the rest of the transaction commit
+    event.preventDefault();
+  }));
+  await transactionDone(transaction);
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { DailyHistoryEntry, LogEntry } from './types';
+import { describeLogEdit, initialLogState, logReducer } from './logReducer';
+
+const entry = (id: string, calories: number, overrides: Partial<LogEntry> = {}): LogEntry => ({
+  id,
+  text: `Meal ${id}`,
+  calories,
+  macros: { carbs: 0, protein: 0, fat: 0 },
+  timestamp: 0,
+  ...overrides,
+});
+
+const day = (mealLog: LogEntry[]): DailyHistoryEntry => ({
+  date: '2026-10-18',
+  totalCalories: mealLog.reduce((sum, meal) => sum + meal.calories, 0),
+  mealLog,
+  dailyGoalAtTheTime: 2000,
+});
+
+describe('logReducer', () => {
+  it('undoes and redoes edits to today', () => {
+    let state = logReducer(initialLogState, { type: 'add', entry: entry('a', 100) });
+    state = logReducer(state, { type: 'delete', id: 'a' });
+    expect(state.log).toEqual([]);
+    state = logReducer(state, { type: 'undo' });
+    expect(state.log.map((meal) => meal.id)).toEqual(['a']);
+    state = logReducer(state, { type: 'redo' });
+    expect(state.log).toEqual([]);
+  });
+
+  it('records history day edits as steps without touching today', () => {
+    const before = day([entry('old', 300)]);
+    const after = day([entry('old', 300), entry('new', 200)]);
+    let state = logReducer(initialLogState, { type: 'add', entry: entry('today', 50) });
+    state = logReducer(state, { type: 'editHistoryDay', entry: entry('new', 200), isNew: true, before, after });
+    expect(state.log.map((meal) => meal.id)).toEqual(['today']);
+    expect(describeLogEdit(state.past[state.past.length - 1])).toBe('add "Meal new" on 2026-10-18');
+
+    state = logReducer(state, { type: 'undo' });
+    expect(state.future[0].action).toMatchObject({ type: 'editHistoryDay', before, after });
+    expect(state.log.map((meal) => meal.id)).toEqual(['today']);
+    state = logReducer(state, { type: 'redo' });
+    expect(state.past).toHaveLength(2);
+  });
+
+  it('resolves a pending entry in recorded history days too', () => {
+    const pending = entry('p', 0, { pending: { text: 'Soup' } });
+    const before = day([pending]);
+    const after = day([{ ...pending, text: 'Soup, edited' }]);
+    let state = logReducer(initialLogState, { type: 'editHistoryDay', entry: after.mealLog[0], isNew: false, before, after });
+    state = logReducer(state, { type: 'resolve', entry: entry('p', 250) });
+    const step = state.past[0].action;
+    if (step.type !== 'editHistoryDay') throw new Error('Expected a history day step');
+    expect(step.before.mealLog[0].calories).toBe(250);
+    expect(step.before.totalCalories).toBe(250);
+  });
+});
@@ -0,0 +1,147 @@
+// Reducer for today's log. The log is the only source of truth: consumed
+// calories and macros are derived from it, never stored separately. Every
+// user edit is recorded so it can be undone and redone, including edits to
+// finished days in history.
+import { DailyHistoryEntry, LogEntry } from './types';
+import { sumCalories } from './nutrition';
+
+const MAX_UNDO_STEPS = 50;
+
+export type LogEditAction =
+  | { type: 'add'; entry: LogEntry }
+  | { type: 'edit'; entry: LogEntry }
+  | { type: 'delete'; id: string }
+  | { type: 'duplicate'; id: string; newId: string; timestamp: number };
+
+// An edit or backfill on a finished day. Those days live in IndexedDB rather than in
+// `log`, so undoing and redoing only moves the step; the page writes `before` or `after`
+// back to the database.
+export interface HistoryDayEditAction {
+  type: 'editHistoryDay';
+  entry: LogEntry;
+  isNew: boolean;
+  before: DailyHistoryEntry;
+  after: DailyHistoryEntry;
+}
+
+export type LogAction =
+  | LogEditAction
+  | HistoryDayEditAction
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'reset'; log: LogEntry[] } // Load, rollover or restore; clears undo history
+  | { type: 'resolve'; entry: LogEntry }; // Background estimate of a pending entry; not undoable
+
+interface LogHistoryStep {
+  action: LogEditAction | HistoryDayEditAction;
+  before: LogEntry[];
+}
+
+export interface LogState {
+  log: LogEntry[];
+  past: LogHistoryStep[];
+  future: LogHistoryStep[];
+}
+
+export const initialLogState: LogState = { log: [], past: [], future: [] };
+
+const replaceEntry = (log: LogEntry[], replacement: LogEntry): LogEntry[] =>
+  log.map((entry) => (entry.id === replacement.id ? replacement : entry));
+
+const applyEdit = (log: LogEntry[], action: LogEditAction | HistoryDayEditAction): LogEntry[] => {
+  switch (action.type) {
+    case 'editHistoryDay':
+      return log;
+    case 'add':
+      return [action.entry, ...log];
+    case 'edit':
+      return replaceEntry(log, action.entry);
+    case 'delete':
+      return log.filter((entry) => entry.id !== action.id);
+    case 'duplicate': {
+      const original = log.find((entry) => entry.id === action.id);
+      if (!original) return log;
+      return [...log, { ...original, id: action.newId, timestamp: action.timestamp }];
+    }
+  }
+};
+
+export const logReducer = (state: LogState, action: LogAction): LogState => {
+  switch (action.type) {
+    case 'undo': {
+      const step = state.past[state.past.length - 1];
+      if (!step) return state;
+      return {
+        log: step.before,
+        past: state.past.slice(0, -1),
+        future: [step, ...state.future],
+      };
+    }
+    case 'redo': {
+      const [step, ...future] = state.future;
+      if (!step) return state;
+      return {
+        log: applyEdit(state.log, step.action),
+        past: [...state.past, { action: step.action, before: state.log }],
+        future,
+      };
+    }
+    case 'reset':
+      return { log: action.log, past: [], future: [] };
+    case 'resolve': {
+      // Only replace the entry if it is still pending, so a manual edit made in the meantime wins.
+      // Patch the snapshots too, so undoing an unrelated edit doesn't bring back the pending version.
+      const resolve = (log: LogEntry[]) =>
+        log.map((entry) => (entry.id === action.entry.id && entry.pending ? action.entry : entry));
+      const resolveDay = (day: DailyHistoryEntry): DailyHistoryEntry => {
+        const mealLog = resolve(day.mealLog);
+        return { ...day, mealLog, totalCalories: sumCalories(mealLog) };
+      };
+      const patchStep = (step: LogHistoryStep): LogHistoryStep => ({
+        action:
+          step.action.type === 'editHistoryDay'
+            ? { ...step.action, before: resolveDay(step.action.before), after: resolveDay(step.action.after) }
+            : step.action,
+        before: resolve(step.before),
+      });
+      return {
+        log: resolve(state.log),
+        past: state.past.map(patchStep),
+        future: state.future.map(patchStep),
+      };
+    }
+    case 'editHistoryDay':
+      return {
+        log: state.log,
+        past: [...state.past, { action, before: state.log }].slice(-MAX_UNDO_STEPS),
+        future: [],
+      };
+    default: {
+      const log = applyEdit(state.log, action);
+      if (log === state.log) return state;
+      return {
+        log,
+        past: [...state.past, { action, before: state.log }].slice(-MAX_UNDO_STEPS),
+        future: [],
+      };
+    }
+  }
+};
+
+// Short description of a step for the undo/redo buttons
+export const describeLogEdit = (step: LogHistoryStep | undefined): string | null => {
+  if (!step) return null;
+  const { action, before } = step;
+  switch (action.type) {
+    case 'add':
+      return `add "${action.entry.text}"`;
+    case 'edit':
+      return `edit "${action.entry.text}"`;
+    case 'delete':
+      return `delete "${before.find((entry) => entry.id === action.id)?.text ?? 'entry'}"`;
+    case 'duplicate':
+      return `duplicate "${before.find((entry) => entry.id === action.id)?.text ?? 'entry'}"`;
+    case 'editHistoryDay':
+      return `${action.isNew ? 'add' : 'edit'} "${action.entry.text}" on ${action.before.date}`;
+  }
+};
@@ -0,0 +1,53 @@
+// Breakfast/lunch/dinner/snack slots: defaults from the time of day, grouping and budgets
+import { DateTime } from 'luxon';
+import { LogEntry, MealSlot, SlotBudgets } from './types';
+import { MEAL_SLOTS } from './validators';
+import { sumCalories } from './nutrition';
+
+export const MEAL_SLOT_LABELS: Record<MealSlot, string> = {
+  breakfast: 'Breakfast',
+  lunch: 'Lunch',
+  dinner: 'Dinner',
+  snack: 'Snack',
+};
+
+// Local hours [from, to) counted as each main meal; anything outside them is a snack
+const SLOT_HOURS: { slot: MealSlot; from: number; to: number }[] = [
+  { slot: 'breakfast', from: 5, to: 11 },
+  { slot: 'lunch', from: 11, to: 15 },
+  { slot: 'dinner', from: 17, to: 22 },
+];
+
+// Slot suggested by the local time an entry was logged at
+export const getDefaultSlot = (timestamp: number, timeZone?: string): MealSlot => {
+  const hour = DateTime.fromMillis(timestamp, { zone: timeZone ?? 'local' }).hour;
+  return SLOT_HOURS.find((range) => hour >= range.from && hour < range.to)?.slot ?? 'snack';
+};
+
+export const getEntrySlot = (entry: Pick<LogEntry, 'slot' | 'timestamp'>, timeZone?: string): MealSlot =>
+  entry.slot ?? getDefaultSlot(entry.timestamp, timeZone);
+
+export interface SlotGroup {
+  slot: MealSlot;
+  entries: LogEntry[]; // In the order they were eaten
+  calories: number;
+}
+
+// Group a day's entries by slot, in meal order, leaving out slots with nothing logged
+export const groupEntriesBySlot = (entries: LogEntry[], timeZone?: string): SlotGroup[] =>
+  MEAL_SLOTS.map((slot) => {
+    const slotEntries = entries
+      .filter((entry) => getEntrySlot(entry, timeZone) === slot)
+      .sort((a, b) => a.timestamp - b.timestamp);
+    return { slot, entries: slotEntries, calories: sumCalories(slotEntries) };
+  }).filter((group) => group.entries.length > 0);
+
+// Share of the daily goal already given to slots, in percent
+export const getBudgetedPercent = (budgets: SlotBudgets): number =>
+  Object.values(budgets).reduce<number>((total, percent) => total + (percent ?? 0), 0);
+
+// Calories set aside for a slot, or null when it has no budget
+export const getSlotBudget = (slot: MealSlot, budgets: SlotBudgets, dailyGoal: number): number | null => {
+  const percent = budgets[slot];
+  return percent ? Math.round((dailyGoal * percent) / 100) : null;
+};
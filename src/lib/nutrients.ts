@@ -0,0 +1,74 @@
+// Nutrients tracked beyond carbs, protein and fat. Each one is described once
+// here; adding a nutrient means a new NutrientKey and an entry in NUTRIENTS.
+import { NutrientData, NutrientGoals, NutrientKey } from './types';
+
+export interface NutrientDefinition {
+  key: NutrientKey;
+  label: string;
+  unit: 'g' | 'mg';
+  schemaName: string; // Property name in the AI estimate response
+  goalType: 'limit' | 'target'; // Whether a daily goal is a maximum or a minimum
+  maxPerItem: number; // More than this in one estimated item means a bad response
+}
+
+export const NUTRIENTS: NutrientDefinition[] = [
+  { key: 'fiber', label: 'Fiber', unit: 'g', schemaName: 'fiber', goalType: 'target', maxPerItem: 200 },
+  { key: 'sugar', label: 'Sugar', unit: 'g', schemaName: 'sugar', goalType: 'limit', maxPerItem: 1000 },
+  { key: 'addedSugar', label: 'Added sugar', unit: 'g', schemaName: 'added_sugar', goalType: 'limit', maxPerItem: 1000 },
+  { key: 'sodium', label: 'Sodium', unit: 'mg', schemaName: 'sodium_mg', goalType: 'limit', maxPerItem: 20000 },
+  { key: 'saturatedFat', label: 'Saturated fat', unit: 'g', schemaName: 'saturated_fat', goalType: 'limit', maxPerItem: 1000 },
+];
+
+// Milligram amounts are whole numbers; gram amounts keep one decimal
+export const roundNutrient = (nutrient: NutrientDefinition, amount: number): number =>
+  nutrient.unit === 'mg' ? Math.round(amount) : Math.round(amount * 10) / 10;
+
+export const scaleNutrients = (nutrients: NutrientData | undefined, ratio: number): NutrientData => {
+  const scaled: NutrientData = {};
+  NUTRIENTS.forEach((nutrient) => {
+    const amount = nutrients?.[nutrient.key];
+    if (amount !== undefined) scaled[nutrient.key] = roundNutrient(nutrient, amount * ratio);
+  });
+  return scaled;
+};
+
+// Nutrients of a meal made of several parts. A nutrient is only known for the
+// whole if it is known for every part, so one unknown item never reads as zero.
+export const combineNutrients = (parts: { nutrients?: NutrientData }[]): NutrientData => {
+  const combined: NutrientData = {};
+  if (parts.length === 0) return combined;
+  NUTRIENTS.forEach((nutrient) => {
+    if (parts.every((part) => part.nutrients?.[nutrient.key] !== undefined)) {
+      combined[nutrient.key] = roundNutrient(
+        nutrient,
+        parts.reduce((total, part) => total + part.nutrients![nutrient.key]!, 0)
+      );
+    }
+  });
+  return combined;
+};
+
+export interface NutrientTotal {
+  amount: number; // Sum over the entries where the nutrient is known
+  unknownEntries: number; // Entries that don't know it, so the real total may be higher
+}
+
+// Per-nutrient totals for a day's entries, keeping count of the entries that left it unknown
+export const sumNutrients = (entries: { nutrients?: NutrientData }[]): Record<NutrientKey, NutrientTotal> => {
+  const totals = {} as Record<NutrientKey, NutrientTotal>;
+  NUTRIENTS.forEach((nutrient) => {
+    const known = entries.filter((entry) => entry.nutrients?.[nutrient.key] !== undefined);
+    totals[nutrient.key] = {
+      amount: roundNutrient(nutrient, known.reduce((total, entry) => total + entry.nutrients![nutrient.key]!, 0)),
+      unknownEntries: entries.length - known.length,
+    };
+  });
+  return totals;
+};
+
+// True when a day's total is on the wrong side of the nutrient's limit or target
+export const isOffNutrientGoal = (nutrient: NutrientDefinition, amount: number, goals: NutrientGoals): boolean => {
+  const goal = goals[nutrient.key];
+  if (goal === undefined) return false;
+  return nutrient.goalType === 'limit' ? amount > goal : amount < goal;
+};
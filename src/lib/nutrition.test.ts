@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { parseAmount } from './nutrition';
+
+describe('parseAmount', () => {
+  it('treats an empty field as 0', () => {
+    expect(parseAmount('')).toBe(0);
+    expect(parseAmount('  ')).toBe(0);
+  });
+
+  it('rejects negative and non-numeric input', () => {
+    expect(parseAmount('-1')).toBeNull();
+    expect(parseAmount('abc')).toBeNull();
+  });
+
+  it('keeps decimals unless rounding is asked for', () => {
+    expect(parseAmount('12.6')).toBe(12.6);
+    expect(parseAmount('12.6', { round: true })).toBe(13);
+  });
+});
@@ -0,0 +1,43 @@
+// Totals over log entries or meal items, portion scaling for items, and amount parsing for forms
+import { LogEntry, MacroData, MealItem } from './types';
+import { scaleNutrients } from './nutrients';
+
+type Nutrition = Pick<LogEntry, 'calories' | 'macros'>;
+
+export const sumCalories = (entries: Nutrition[]): number =>
+  entries.reduce((total, entry) => total + entry.calories, 0);
+
+export const sumMacros = (entries: Nutrition[]): MacroData =>
+  entries.reduce(
+    (totals, entry) => ({
+      carbs: totals.carbs + entry.macros.carbs,
+      protein: totals.protein + entry.macros.protein,
+      fat: totals.fat + entry.macros.fat,
+    }),
+    { carbs: 0, protein: 0, fat: 0 }
+  );
+
+// Rescale an item's nutrition to a new portion, assuming it grows linearly
+export const scaleMealItem = (item: MealItem, portion: number): MealItem => {
+  const ratio = item.portion > 0 ? portion / item.portion : 0;
+  return {
+    ...item,
+    portion,
+    calories: Math.round(item.calories * ratio),
+    macros: {
+      carbs: Math.round(item.macros.carbs * ratio),
+      protein: Math.round(item.macros.protein * ratio),
+      fat: Math.round(item.macros.fat * ratio),
+    },
+    ...(item.nutrients && { nutrients: scaleNutrients(item.nutrients, ratio) }),
+    ...(item.drinkMl !== undefined && { drinkMl: Math.round(item.drinkMl * ratio) }),
+  };
+};
+
+// Parse a non-negative number field, or null if it isn't one; an empty field counts as 0
+export const parseAmount = (value: string, { round = false }: { round?: boolean } = {}): number | null => {
+  if (value.trim() === '') return 0;
+  const amount = Number(value);
+  if (isNaN(amount) || amount < 0) return null;
+  return round ? Math.round(amount) : amount;
+};
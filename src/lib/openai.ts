@@ -0,0 +1,158 @@
+// Server-side OpenAI helpers. Only import this from route handlers so the key
+// never ends up in the client bundle.
+import { NutritionEstimate } from './types';
+import { NUTRITION_ESTIMATE_SCHEMA, parseNutritionEstimate } from './estimateSchema';
+
+const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
+const OPENAI_CHAT_URL = 'https://api.openai.com/v1/chat/completions';
+
+// Invalid estimate responses are retried this many times in total before giving up
+const MAX_ESTIMATE_ATTEMPTS = 3;
+
+// Define a type for the content array elements
+type OpenAIPromptContent =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+interface ChatCompletionOptions {
+  systemMessage: string;
+  content: OpenAIPromptContent[];
+  maxTokens: number;
+  temperature: number;
+  jsonSchema?: object; // Constrains the reply with structured outputs
+}
+
+// Status returned to the client for each kind of failure. 502 and 503 are worth retrying
+// automatically; the others need the user, or whoever runs the server, to act.
+const STATUS_UNAVAILABLE = 502; // OpenAI couldn't be reached or had an internal error
+const STATUS_BUSY = 503; // OpenAI is rate limiting us
+const STATUS_REJECTED = 422; // The meal or the model's reply can't be used
+const STATUS_MISCONFIGURED = 500; // Missing or refused API key, unknown model and the like
+
+export class OpenAIError extends Error {
+  status: number;
+
+  constructor(message: string, status = STATUS_UNAVAILABLE) {
+    super(message);
+    this.name = 'OpenAIError';
+    this.status = status;
+  }
+}
+
+// Our status for an error status from OpenAI. Its 400s mean the request itself was
+// refused (e.g. an unreadable image); other 4xx are problems with the key or account,
+// including a 429 for a used-up quota, which unlike rate limiting doesn't pass.
+const getFailureStatus = (openAIStatus: number, code?: string): number => {
+  if (openAIStatus === 429 && code !== 'insufficient_quota') return STATUS_BUSY;
+  if (openAIStatus >= 500) return STATUS_UNAVAILABLE;
+  if (openAIStatus === 400) return STATUS_REJECTED;
+  return STATUS_MISCONFIGURED;
+};
+
+export const isOpenAIConfigured = (): boolean => !!OPENAI_API_KEY;
+
+const createChatCompletion = async ({
+  systemMessage,
+  content,
+  maxTokens,
+  temperature,
+  jsonSchema,
+}: ChatCompletionOptions): Promise<string | null> => {
+  if (!OPENAI_API_KEY) {
+    throw new OpenAIError('OpenAI API key is not configured. Please set OPENAI_API_KEY on the server.', STATUS_MISCONFIGURED);
+  }
+  let response: Response;
+  try {
+    response = await fetch(OPENAI_CHAT_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${OPENAI_API_KEY}`,
+      },
+      body: JSON.stringify({
+        model: 'gpt-4o',
+        messages: [
+          { role: 'system', content: systemMessage },
+          { role: 'user', content },
+        ],
+        max_tokens: maxTokens,
+        temperature,
+        ...(jsonSchema && { response_format: { type: 'json_schema', json_schema: jsonSchema } }),
+      }),
+    });
+  } catch (err) {
+    console.error('OpenAI API unreachable:', err);
+    throw new OpenAIError('Could not reach OpenAI. Please try again.');
+  }
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => null);
+    console.error('OpenAI API Error:', errorData);
+    throw new OpenAIError(
+      errorData?.error?.message || 'Failed to fetch response from OpenAI',
+      getFailureStatus(response.status, errorData?.error?.code)
+    );
+  }
+  const data = await response.json();
+  const message = data.choices?.[0]?.message;
+  if (message?.refusal) {
+    throw new OpenAIError(`The AI declined to answer: ${message.refusal}`, STATUS_REJECTED);
+  }
+  return message?.content?.trim() ?? null;
+};
+
+// Estimate calories and macros for a meal description and/or image
+export const estimateNutrition = async (text: string, imageBase64?: string): Promise<NutritionEstimate> => {
+  const systemMessage = "You are a nutrition estimation assistant. Your task is to break the provided meal description or image into its separate foods and drinks and estimate the portion, calories and macros (carbohydrates, protein, fat) of each. List each food or drink as its own item. portion is the estimated amount in unit; prefer \"g\" or \"ml\", or use a count such as \"slice\" when that is more natural. Always measure drinks in \"ml\" and set drink_ml to the volume drunk; set drink_ml to 0 for everything that isn't a drink, including soups, oils and sauces. Macros are in grams and calories are for the whole portion. Also estimate fiber, sugar, added_sugar and saturated_fat in grams and sodium_mg in milligrams for the whole portion; use null for any of these you cannot reasonably estimate rather than guessing 0. Also give calories_low and calories_high, the range the true total for the whole meal plausibly falls in, and your confidence in the estimate: \"high\" for packaged or precisely described food, \"medium\" for typical dishes, \"low\" when portions or ingredients are unclear. If you cannot recognise any food, return an empty item list.";
+  const promptContent: OpenAIPromptContent[] = [];
+  if (text) {
+    promptContent.push({ type: 'text', text: `Meal: ${text}` });
+  }
+  if (imageBase64) {
+    promptContent.push({ type: 'image_url', image_url: { url: imageBase64 } });
+    if (!text) {
+      promptContent.unshift({ type: 'text', text: 'Estimate calories for the following image:' });
+    }
+  }
+  let lastError = '';
+  for (let attempt = 1; attempt <= MAX_ESTIMATE_ATTEMPTS; attempt++) {
+    const choice = await createChatCompletion({
+      systemMessage,
+      content: promptContent,
+      maxTokens: 900,
+      temperature: 0.2,
+      jsonSchema: NUTRITION_ESTIMATE_SCHEMA,
+    });
+    const result = choice ? parseNutritionEstimate(choice) : { error: 'Response was empty.' };
+    if ('estimate' in result) {
+      if (result.estimate.items.length === 0) {
+        throw new OpenAIError('No food could be recognised. Try describing the meal in more detail.', STATUS_REJECTED);
+      }
+      return result.estimate;
+    }
+    lastError = result.error;
+    console.warn(`Invalid estimate response (attempt ${attempt} of ${MAX_ESTIMATE_ATTEMPTS}): ${result.error}`, choice);
+  }
+  throw new OpenAIError(
+    `The AI returned an invalid estimate ${MAX_ESTIMATE_ATTEMPTS} times (${lastError}). Please try again or enter calories manually.`,
+    STATUS_REJECTED
+  );
+};
+
+// Generate a short meal description from an image
+export const describeMealImage = async (imageBase64: string): Promise<string | null> => {
+  const descriptionSystemMessage = "You are an image analysis assistant. Your task is to provide a very short, concise description of the food in an image, suitable for a food log. Describe the main food item(s) in 2-5 words. For example: 'Chicken salad sandwich' or 'Bowl of mixed berries'. If you cannot clearly identify the food, respond with 'Processed food image'.";
+  const description = await createChatCompletion({
+    systemMessage: descriptionSystemMessage,
+    content: [
+      { type: 'text', text: 'Describe the food in the provided image.' },
+      { type: 'image_url', image_url: { url: imageBase64 } },
+    ],
+    maxTokens: 25,
+    temperature: 0.4,
+  });
+  if (description && description.toLowerCase() !== 'processed food image') {
+    return description;
+  }
+  console.warn('Failed to get a distinct description or got fallback:', description);
+  return null;
+};
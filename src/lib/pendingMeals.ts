@@ -0,0 +1,64 @@
+// Meals logged while offline are kept in the log as pending entries and
+// estimated once the server can be reached again.
+import { LogEntry } from './types';
+import { ApiRequestError, NetworkError, requestMealDescription, requestNutritionEstimate } from './api';
+
+export const createPendingEntry = (text: string, image?: string): LogEntry => ({
+  id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
+  text: text || (image ? 'Meal from image' : 'Logged Meal'),
+  calories: 0,
+  macros: { carbs: 0, protein: 0, fat: 0 },
+  timestamp: Date.now(),
+  pending: { text, image },
+});
+
+// Entries still waiting to be estimated, excluding ones that already failed for good
+export const getQueuedEntries = (log: LogEntry[]): LogEntry[] =>
+  log.filter((entry) => entry.pending && !entry.pending.error);
+
+// Retrying more often than this would keep paying for estimates that won't work
+export const MAX_PENDING_ATTEMPTS = 5;
+
+// Statuses that say "try again later" rather than that the request can't succeed.
+// 502 is OpenAI being unreachable or failing on its side, which passes on its own.
+const TRANSIENT_STATUSES = [429, 502, 503, 504];
+
+// Failures worth retrying later: no connection, rate limited, or OpenAI or the server temporarily unavailable
+export const isTransientError = (err: unknown): boolean =>
+  err instanceof NetworkError || (err instanceof ApiRequestError && TRANSIENT_STATUSES.includes(err.status));
+
+// A pending entry that has failed MAX_PENDING_ATTEMPTS times, recorded as failed for good
+export const giveUpPendingEntry = (entry: LogEntry): LogEntry =>
+  entry.pending
+    ? {
+        ...entry,
+        pending: { ...entry.pending, error: `The server couldn't estimate it after ${MAX_PENDING_ATTEMPTS} tries.` },
+      }
+    : entry;
+
+// Estimate a pending entry. Returns the resolved entry, or the entry with an
+// error recorded if the server rejected it. Rethrows transient errors.
+export const estimatePendingEntry = async (entry: LogEntry): Promise<LogEntry> => {
+  if (!entry.pending) return entry;
+  const { text, image } = entry.pending;
+  try {
+    const estimate = await requestNutritionEstimate(text, image);
+    const description = image && !text ? await requestMealDescription(image) : null;
+    return {
+      ...entry,
+      text: description ?? entry.text,
+      calories: estimate.calories,
+      macros: estimate.macros,
+      nutrients: estimate.nutrients,
+      items: estimate.items,
+      confidence: estimate.confidence,
+      pending: undefined,
+    };
+  } catch (err) {
+    if (isTransientError(err)) throw err;
+    return {
+      ...entry,
+      pending: { ...entry.pending, error: err instanceof Error ? err.message : 'Estimation failed.' },
+    };
+  }
+};
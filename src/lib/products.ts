@@ -0,0 +1,51 @@
+// Local table of packaged products looked up by barcode. The bundled table is
+// small; users add the products they buy, which are stored with their data.
+import { LogEntry, Product } from './types';
+
+export const BUNDLED_PRODUCTS: Product[] = [
+  {
+    barcode: '5449000000996',
+    name: 'Coca-Cola',
+    servingLabel: 'can (330 ml)',
+    caloriesPerServing: 139,
+    macrosPerServing: { carbs: 35, protein: 0, fat: 0 },
+  },
+  {
+    barcode: '3017620422003',
+    name: 'Nutella',
+    servingLabel: 'serving (15 g)',
+    caloriesPerServing: 81,
+    macrosPerServing: { carbs: 8.6, protein: 0.9, fat: 4.6 },
+  },
+  {
+    barcode: '8076800195057',
+    name: 'Barilla Spaghetti n.5, dry',
+    servingLabel: 'serving (80 g)',
+    caloriesPerServing: 285,
+    macrosPerServing: { carbs: 57, protein: 10, fat: 1.6 },
+  },
+];
+
+// Find a product by 13-digit barcode. Custom products win over bundled ones.
+export const findProduct = (barcode: string, customProducts: Product[]): Product | null =>
+  customProducts.find((product) => product.barcode === barcode) ??
+  BUNDLED_PRODUCTS.find((product) => product.barcode === barcode) ??
+  null;
+
+// Log entry for a number of servings of a product
+export const productToLogEntry = (product: Product, servings: number): LogEntry => {
+  const calories = Math.round(product.caloriesPerServing * servings);
+  const macros = {
+    carbs: Math.round(product.macrosPerServing.carbs * servings),
+    protein: Math.round(product.macrosPerServing.protein * servings),
+    fat: Math.round(product.macrosPerServing.fat * servings),
+  };
+  return {
+    id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
+    text: `${product.name} (${servings} x ${product.servingLabel})`,
+    calories,
+    macros,
+    timestamp: Date.now(),
+    items: [{ name: product.name, portion: servings, unit: product.servingLabel, calories, macros }],
+  };
+};
@@ -0,0 +1,80 @@
+// Macro profiles: the built-in presets plus any the user creates, and the daily
+// gram targets they work out to
+import { MacroData, MacroProfile } from './types';
+
+export const DEFAULT_PROFILE_ID = 'General';
+
+// Calories per gram of each macro
+export const MACRO_CALORIES_PER_GRAM: MacroData = { carbs: 4, protein: 4, fat: 9 };
+
+// Preset ids match the names older versions stored, so saved selections keep working
+export const BUILT_IN_PROFILES: MacroProfile[] = [
+  {
+    id: 'General',
+    name: 'General',
+    description: 'Balanced nutrition for overall health',
+    mode: 'percent',
+    carbs: 45, // 45% of calories from carbs
+    protein: 25, // 25% of calories from protein
+    fat: 30, // 30% of calories from fat
+  },
+  {
+    id: 'Weight Loss',
+    name: 'Weight Loss',
+    description: 'Higher protein, lower carbs',
+    mode: 'percent',
+    carbs: 35, // Lower carbs for weight loss
+    protein: 35, // Higher protein to preserve muscle
+    fat: 30, // Moderate fat
+  },
+  {
+    id: 'Muscle Building',
+    name: 'Muscle Building',
+    description: 'High protein for muscle growth',
+    mode: 'percent',
+    carbs: 40, // Moderate carbs for energy
+    protein: 35, // High protein for muscle synthesis
+    fat: 25, // Lower fat to prioritize protein
+  },
+  {
+    id: 'Endurance Athletes',
+    name: 'Endurance Athletes',
+    description: 'High carbs for sustained energy',
+    mode: 'percent',
+    carbs: 55, // High carbs for endurance performance
+    protein: 20, // Moderate protein
+    fat: 25, // Lower fat
+  },
+];
+
+export const isBuiltInProfileId = (id: string): boolean => BUILT_IN_PROFILES.some((profile) => profile.id === id);
+
+// The profile with an id, falling back to the default preset if it was deleted
+export const findProfile = (id: string, customProfiles: MacroProfile[]): MacroProfile =>
+  [...BUILT_IN_PROFILES, ...customProfiles].find((profile) => profile.id === id) ?? BUILT_IN_PROFILES[0];
+
+// Daily grams of each macro a profile asks for at a given calorie goal
+export const getMacroGramTargets = (profile: MacroProfile, dailyGoal: number): MacroData => {
+  const toGrams = (macro: keyof MacroData): number => {
+    const value = profile[macro];
+    if (profile.mode === 'grams') return Math.round(value);
+    if (profile.mode === 'gramsPerKg') return Math.round(value * (profile.bodyweightKg ?? 0));
+    return Math.round((dailyGoal * value) / 100 / MACRO_CALORIES_PER_GRAM[macro]);
+  };
+  return { carbs: toGrams('carbs'), protein: toGrams('protein'), fat: toGrams('fat') };
+};
+
+// Share of the calorie goal each macro target makes up, for comparing against what was eaten
+export const getMacroPercentTargets = (profile: MacroProfile, dailyGoal: number): MacroData => {
+  if (profile.mode === 'percent') return { carbs: profile.carbs, protein: profile.protein, fat: profile.fat };
+  const grams = getMacroGramTargets(profile, dailyGoal);
+  const toPercent = (macro: keyof MacroData) =>
+    dailyGoal > 0 ? Math.round(((grams[macro] * MACRO_CALORIES_PER_GRAM[macro]) / dailyGoal) * 100) : 0;
+  return { carbs: toPercent('carbs'), protein: toPercent('protein'), fat: toPercent('fat') };
+};
+
+// Short summary of a profile's targets, e.g. "C: 45% • P: 25% • F: 30%"
+export const describeProfileTargets = (profile: MacroProfile): string => {
+  const unit = profile.mode === 'percent' ? '%' : profile.mode === 'grams' ? 'g' : ' g/kg';
+  return `C: ${profile.carbs}${unit} • P: ${profile.protein}${unit} • F: ${profile.fat}${unit}`;
+};
@@ -0,0 +1,51 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { checkLoginThrottle, checkRateLimit, clearFailedLogins, getClientId, recordFailedLogin } from './rateLimit';
+
+const requestFrom = (forwardedFor: string) => new Request('http://localhost/api', { headers: { 'x-forwarded-for': forwardedFor } });
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+describe('getClientId', () => {
+  it('ignores X-Forwarded-For unless proxies are trusted', () => {
+    expect(getClientId(requestFrom('1.2.3.4'))).toBe('anonymous');
+  });
+
+  it('uses the address the trusted proxy saw, not one the client sent', () => {
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '1');
+    expect(getClientId(requestFrom('6.6.6.6, 1.2.3.4'))).toBe('1.2.3.4');
+  });
+});
+
+describe('checkRateLimit', () => {
+  it('keeps separate buckets per route', () => {
+    for (let i = 0; i < 3; i++) expect(checkRateLimit('login', 'client-a', 3).allowed).toBe(true);
+    expect(checkRateLimit('login', 'client-a', 3).allowed).toBe(false);
+    expect(checkRateLimit('estimate', 'client-a', 3).allowed).toBe(true);
+    vi.advanceTimersByTime(60 * 1000);
+    expect(checkRateLimit('login', 'client-a', 3).allowed).toBe(true);
+  });
+});
+
+describe('login throttle', () => {
+  it('blocks a username after repeated failures until the window passes', () => {
+    for (let i = 0; i < 5; i++) recordFailedLogin('Alice');
+    expect(checkLoginThrottle('alice').allowed).toBe(false);
+    expect(checkLoginThrottle('bob').allowed).toBe(true);
+    vi.advanceTimersByTime(15 * 60 * 1000);
+    expect(checkLoginThrottle('alice').allowed).toBe(true);
+  });
+
+  it('starts over after a successful sign-in', () => {
+    for (let i = 0; i < 4; i++) recordFailedLogin('carol');
+    clearFailedLogins('carol');
+    recordFailedLogin('carol');
+    expect(checkLoginThrottle('carol').allowed).toBe(true);
+  });
+});
@@ -0,0 +1,102 @@
+// Simple in-memory fixed-window rate limiter for the API routes, plus a throttle on
+// failed sign-ins per username. State lives per server instance, which is enough to
+// stop a single client hammering us.
+interface RateLimitWindow {
+  count: number;
+  resetAt: number;
+}
+
+interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number;
+}
+
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+const RATE_LIMIT_MAX_REQUESTS = 20;
+// Clients tracked at once; beyond this, new clients share one bucket
+const MAX_TRACKED_CLIENTS = 10000;
+const SHARED_CLIENT_ID = 'anonymous';
+const FAILED_LOGIN_WINDOW_MS = 15 * 60 * 1000;
+const MAX_FAILED_LOGINS = 5; // Per username and window, from any client
+
+// Each route has its own buckets, so hammering one route can't lock users out of another
+export type RateLimitedRoute = 'estimate' | 'describe' | 'signup' | 'login';
+
+const windows = new Map<string, RateLimitWindow>();
+const failedLogins = new Map<string, RateLimitWindow>();
+
+// Drop expired windows so the maps don't grow forever
+const pruneExpired = (windowMap: Map<string, RateLimitWindow>, now: number) => {
+  windowMap.forEach((window, key) => {
+    if (window.resetAt <= now) windowMap.delete(key);
+  });
+};
+
+// Number of reverse proxies in front of the app that append to X-Forwarded-For,
+// from the TRUSTED_PROXY_HOPS environment variable. 0 (the default) trusts none.
+const getTrustedProxyHops = (): number => {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS || 0);
+  return Number.isInteger(hops) && hops > 0 ? hops : 0;
+};
+
+// Identify the client by the IP address our own proxies saw. Anyone can send
+// X-Forwarded-For, so only the entries appended by trusted proxies are used;
+// without any, every client shares one bucket.
+export const getClientId = (request: Request): string => {
+  const hops = getTrustedProxyHops();
+  if (hops === 0) return SHARED_CLIENT_ID;
+  const forwardedFor = (request.headers.get('x-forwarded-for') ?? '').split(',').map((address) => address.trim());
+  return forwardedFor[forwardedFor.length - hops] || SHARED_CLIENT_ID;
+};
+
+export const checkRateLimit = (
+  route: RateLimitedRoute,
+  clientId: string,
+  limit = RATE_LIMIT_MAX_REQUESTS,
+  windowMs = RATE_LIMIT_WINDOW_MS
+): RateLimitResult => {
+  const now = Date.now();
+  pruneExpired(windows, now);
+
+  const clientKey = `${route}:${clientId}`;
+  const key = windows.has(clientKey) || windows.size < MAX_TRACKED_CLIENTS ? clientKey : `${route}:${SHARED_CLIENT_ID}`;
+  const current = windows.get(key);
+  if (!current) {
+    windows.set(key, { count: 1, resetAt: now + windowMs });
+    return { allowed: true, retryAfterSeconds: 0 };
+  }
+  if (current.count >= limit) {
+    return { allowed: false, retryAfterSeconds: Math.ceil((current.resetAt - now) / 1000) };
+  }
+  current.count += 1;
+  return { allowed: true, retryAfterSeconds: 0 };
+};
+
+// Usernames are matched case-insensitively, as they are when signing in. Real usernames
+// are at most 32 characters, so longer guesses are cut short rather than stored in full.
+const toLoginKey = (username: string) => username.slice(0, 64).toLowerCase();
+
+// Whether `username` may try signing in now, after too many recent failures
+export const checkLoginThrottle = (username: string): RateLimitResult => {
+  const now = Date.now();
+  pruneExpired(failedLogins, now);
+  const current = failedLogins.get(toLoginKey(username));
+  if (!current || current.count < MAX_FAILED_LOGINS) return { allowed: true, retryAfterSeconds: 0 };
+  return { allowed: false, retryAfterSeconds: Math.ceil((current.resetAt - now) / 1000) };
+};
+
+export const recordFailedLogin = (username: string) => {
+  const key = toLoginKey(username);
+  const current = failedLogins.get(key);
+  if (current) {
+    current.count += 1;
+    return;
+  }
+  // Forget the oldest username rather than stop throttling when the map is full
+  if (failedLogins.size >= MAX_TRACKED_CLIENTS) failedLogins.delete(failedLogins.keys().next().value);
+  failedLogins.set(key, { count: 1, resetAt: Date.now() + FAILED_LOGIN_WINDOW_MS });
+};
+
+export const clearFailedLogins = (username: string) => {
+  failedLogins.delete(toLoginKey(username));
+};
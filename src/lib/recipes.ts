@@ -0,0 +1,56 @@
+// Saved recipes. Logging a recipe copies its scaled nutrition into the entry and
+// records the recipe version, so editing a recipe later never rewrites history.
+import { LogEntry, MacroData, NutrientData, Recipe } from './types';
+import { sumCalories, sumMacros } from './nutrition';
+import { combineNutrients, scaleNutrients } from './nutrients';
+
+type RecipeNutrition = { calories: number; macros: MacroData; nutrients: NutrientData };
+
+export const getRecipeTotals = (recipe: Pick<Recipe, 'ingredients'>): RecipeNutrition => ({
+  calories: sumCalories(recipe.ingredients),
+  macros: sumMacros(recipe.ingredients),
+  nutrients: combineNutrients(recipe.ingredients),
+});
+
+// Nutrition for a number of servings of a recipe
+export const getRecipeNutrition = (recipe: Recipe, servings: number): RecipeNutrition => {
+  const { calories, macros, nutrients } = getRecipeTotals(recipe);
+  const ratio = servings / recipe.servings;
+  return {
+    calories: Math.round(calories * ratio),
+    macros: {
+      carbs: Math.round(macros.carbs * ratio),
+      protein: Math.round(macros.protein * ratio),
+      fat: Math.round(macros.fat * ratio),
+    },
+    nutrients: scaleNutrients(nutrients, ratio),
+  };
+};
+
+export const formatServings = (servings: number): string =>
+  `${Number(servings.toFixed(2))} ${servings === 1 ? 'serving' : 'servings'}`;
+
+export const recipeToLogEntry = (recipe: Recipe, servings: number): LogEntry => {
+  const { calories, macros, nutrients } = getRecipeNutrition(recipe, servings);
+  return {
+    id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
+    text: `${recipe.name} (${formatServings(servings)})`,
+    calories,
+    macros,
+    nutrients,
+    timestamp: Date.now(),
+    items: [{ name: recipe.name, portion: servings, unit: 'serving', calories, macros, nutrients }],
+    recipe: { id: recipe.id, version: recipe.version },
+  };
+};
+
+// New recipe, or the next version of an existing one
+export const saveRecipeVersion = (
+  previous: Recipe | null,
+  fields: Pick<Recipe, 'name' | 'ingredients' | 'servings'>
+): Recipe => ({
+  id: previous?.id ?? 'recipe-' + Date.now().toString() + Math.random().toString(36).substr(2, 9),
+  version: (previous?.version ?? 0) + 1,
+  ...fields,
+  updatedAt: Date.now(),
+});
@@ -0,0 +1,182 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DateTime, Settings } from 'luxon';
+import { LogEntry, LogReminder, ReminderSettings } from './types';
+import {
+  NotificationContent,
+  ReminderContext,
+  buildReminderNotification,
+  isInQuietHours,
+  planNotifications,
+  scheduleNotifications,
+} from './reminders';
+
+const ZONE = 'UTC';
+
+const at = (iso: string) => DateTime.fromISO(iso, { zone: ZONE });
+
+const lunch: LogReminder = { id: 'lunch', label: 'Lunch', after: '11:00', notifyAt: '14:00', enabled: true };
+
+const settings = (overrides: Partial<ReminderSettings> = {}): ReminderSettings => ({
+  reminders: [lunch],
+  summary: { enabled: false, time: '21:30' },
+  quietHours: { enabled: true, start: '22:00', end: '07:00' },
+  ...overrides,
+});
+
+const meal = (iso: string): LogEntry => ({
+  id: `meal-${iso}`,
+  text: 'Sandwich',
+  calories: 400,
+  macros: { carbs: 40, protein: 20, fat: 15 },
+  timestamp: at(iso).toMillis(),
+});
+
+const context = (log: LogEntry[] = [], dayStartHour = 0): ReminderContext => ({
+  log,
+  consumedCalories: 1500,
+  dailyGoal: 2000,
+  consumedMacros: { carbs: 150, protein: 60, fat: 50 },
+  macroTargets: { carbs: 200, protein: 120, fat: 60 },
+  dayStartHour,
+});
+
+beforeEach(() => {
+  Settings.defaultZone = ZONE;
+});
+
+afterEach(() => {
+  Settings.defaultZone = 'system';
+});
+
+describe('isInQuietHours', () => {
+  const quietHours = { enabled: true, start: '22:00', end: '07:00' };
+
+  it('covers both sides of midnight when the hours wrap', () => {
+    expect(isInQuietHours(at('2026-10-19T22:00'), quietHours)).toBe(true);
+    expect(isInQuietHours(at('2026-10-19T23:59'), quietHours)).toBe(true);
+    expect(isInQuietHours(at('2026-10-20T03:00'), quietHours)).toBe(true);
+    expect(isInQuietHours(at('2026-10-20T07:00'), quietHours)).toBe(false);
+    expect(isInQuietHours(at('2026-10-20T12:00'), quietHours)).toBe(false);
+  });
+
+  it('handles hours within one day', () => {
+    const afternoon = { enabled: true, start: '13:00', end: '15:00' };
+    expect(isInQuietHours(at('2026-10-19T14:00'), afternoon)).toBe(true);
+    expect(isInQuietHours(at('2026-10-19T15:00'), afternoon)).toBe(false);
+    expect(isInQuietHours(at('2026-10-19T23:00'), afternoon)).toBe(false);
+  });
+
+  it('is never quiet when disabled', () => {
+    expect(isInQuietHours(at('2026-10-19T23:00'), { ...quietHours, enabled: false })).toBe(false);
+  });
+});
+
+describe('planNotifications', () => {
+  it('plans the next firing of each enabled notification, soonest first', () => {
+    const planned = planNotifications(
+      settings({
+        reminders: [lunch, { ...lunch, id: 'off', enabled: false }],
+        summary: { enabled: true, time: '21:30' },
+      }),
+      at('2026-10-19T12:00').toMillis()
+    );
+    expect(planned.map(({ fireAt, reminder }) => [DateTime.fromMillis(fireAt).toISO(), reminder?.id])).toEqual([
+      [at('2026-10-19T14:00').toISO(), 'lunch'],
+      [at('2026-10-19T21:30').toISO(), undefined],
+    ]);
+  });
+
+  it('moves a time that has passed to the next day', () => {
+    const [next] = planNotifications(settings(), at('2026-10-19T14:00').toMillis());
+    expect(next.fireAt).toBe(at('2026-10-20T14:00').toMillis());
+  });
+
+  it('skips notifications in quiet hours that span midnight', () => {
+    const planned = planNotifications(
+      settings({ reminders: [{ ...lunch, notifyAt: '23:30' }, { ...lunch, id: 'early', notifyAt: '06:00' }] }),
+      at('2026-10-19T12:00').toMillis()
+    );
+    expect(planned).toEqual([]);
+  });
+});
+
+describe('buildReminderNotification', () => {
+  it('reminds only if nothing was logged since the reminder starts', () => {
+    const now = at('2026-10-19T14:00').toMillis();
+    expect(buildReminderNotification(lunch, [meal('2026-10-19T08:00')], now, 0)?.tag).toBe('reminder-lunch');
+    expect(buildReminderNotification(lunch, [meal('2026-10-19T12:30')], now, 0)).toBeNull();
+  });
+
+  it('reads times before a late day start as the early hours of the day', () => {
+    const lateSnack: LogReminder = { id: 'snack', label: 'Snack', after: '23:00', notifyAt: '01:00', enabled: true };
+    // 01:00 on the 20th still belongs to the day of the 19th when days start at 04:00
+    const now = at('2026-10-20T01:00').toMillis();
+    expect(buildReminderNotification(lateSnack, [meal('2026-10-19T23:30')], now, 4)).toBeNull();
+    expect(buildReminderNotification(lateSnack, [meal('2026-10-19T22:00')], now, 4)?.tag).toBe('reminder-snack');
+
+    const nightOwl: LogReminder = { id: 'night', label: 'Night meal', after: '01:00', notifyAt: '03:00', enabled: true };
+    const later = at('2026-10-20T03:00').toMillis();
+    expect(buildReminderNotification(nightOwl, [meal('2026-10-20T02:00')], later, 4)).toBeNull();
+    expect(buildReminderNotification(nightOwl, [meal('2026-10-20T00:30')], later, 4)?.tag).toBe('reminder-night');
+  });
+});
+
+describe('scheduleNotifications', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(at('2026-10-19T12:00').toJSDate());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const start = (reminderSettings: ReminderSettings, getContext = () => context()) => {
+    const shown: NotificationContent[] = [];
+    const cancel = scheduleNotifications(reminderSettings, getContext, (content) => shown.push(content));
+    return { shown, cancel };
+  };
+
+  it('fires a reminder at its time', () => {
+    const { shown } = start(settings());
+    vi.advanceTimersByTime(at('2026-10-19T14:00').diff(at('2026-10-19T12:00')).toMillis() - 1);
+    expect(shown).toEqual([]);
+    vi.advanceTimersByTime(1);
+    expect(shown.map((content) => content.tag)).toEqual(['reminder-lunch']);
+  });
+
+  it('stays quiet if a meal was logged, reading the log when it fires', () => {
+    let log: LogEntry[] = [];
+    const { shown } = start(settings(), () => context(log));
+    log = [meal('2026-10-19T13:00')];
+    vi.advanceTimersByTime(2 * 60 * 60 * 1000);
+    expect(shown).toEqual([]);
+  });
+
+  it('reschedules for the next day after firing', () => {
+    const { shown } = start(settings({ summary: { enabled: true, time: '21:30' } }));
+    vi.advanceTimersByTime(24 * 60 * 60 * 1000);
+    expect(shown.map((content) => content.tag)).toEqual(['reminder-lunch', 'summary']);
+    vi.advanceTimersByTime(24 * 60 * 60 * 1000);
+    expect(shown.map((content) => content.tag)).toEqual(['reminder-lunch', 'summary', 'reminder-lunch', 'summary']);
+  });
+
+  it('fires notifications set for the same time together', () => {
+    const { shown } = start(settings({ reminders: [lunch, { ...lunch, id: 'snack', label: 'Snack' }] }));
+    vi.advanceTimersByTime(2 * 60 * 60 * 1000);
+    expect(shown.map((content) => content.tag)).toEqual(['reminder-lunch', 'reminder-snack']);
+  });
+
+  it('never fires in quiet hours that span midnight', () => {
+    const { shown } = start(settings({ reminders: [{ ...lunch, notifyAt: '23:30' }] }));
+    vi.advanceTimersByTime(3 * 24 * 60 * 60 * 1000);
+    expect(shown).toEqual([]);
+  });
+
+  it('stops firing once cancelled', () => {
+    const { shown, cancel } = start(settings());
+    cancel();
+    vi.advanceTimersByTime(24 * 60 * 60 * 1000);
+    expect(shown).toEqual([]);
+  });
+});
@@ -0,0 +1,157 @@
+// Logging reminders and the evening summary. Scheduling is plain setTimeout and
+// Date.now so it can be driven with fake timers; showing goes through the service
+// worker, which lets notifications outlive the tab and reopen the app when tapped.
+// Service workers can't keep timers alive on their own, so the open page schedules them.
+import { DateTime } from 'luxon';
+import { LogEntry, LogReminder, MacroData, ReminderSettings } from './types';
+import { getDayKey, getDeviceTimeZone, getTimestampForDay } from './dayBoundary';
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  reminders: [
+    { id: 'breakfast', label: 'Breakfast', after: '05:00', notifyAt: '10:00', enabled: true },
+    { id: 'lunch', label: 'Lunch', after: '11:00', notifyAt: '14:00', enabled: true },
+    { id: 'dinner', label: 'Dinner', after: '17:00', notifyAt: '20:30', enabled: true },
+  ],
+  summary: { enabled: false, time: '21:30' },
+  quietHours: { enabled: true, start: '22:00', end: '07:00' },
+};
+
+const MACRO_GAP_THRESHOLD = 10; // Grams short of a target before the summary mentions it
+
+const MACRO_NAMES: Record<keyof MacroData, string> = { carbs: 'carbs', protein: 'protein', fat: 'fat' };
+
+export interface NotificationContent {
+  title: string;
+  body: string;
+  tag: string; // Replaces an earlier notification with the same tag rather than stacking
+}
+
+// What the notifications need to know about today, read when each one fires
+export interface ReminderContext {
+  log: LogEntry[];
+  consumedCalories: number;
+  dailyGoal: number;
+  consumedMacros: MacroData;
+  macroTargets: MacroData; // Grams
+  dayStartHour: number;
+}
+
+export interface ScheduledNotification {
+  fireAt: number; // Milliseconds since epoch
+  reminder?: LogReminder; // Omitted for the summary
+}
+
+// Minutes since midnight for an HH:mm time
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const isInQuietHours = (moment: DateTime, quietHours: ReminderSettings['quietHours']): boolean => {
+  if (!quietHours.enabled) return false;
+  const minutes = moment.hour * 60 + moment.minute;
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  // Quiet hours like 22:00–07:00 wrap past midnight
+  return start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+};
+
+// The next time the clock shows `time`, after `now`
+export const getNextOccurrence = (time: string, now: number): DateTime => {
+  const current = DateTime.fromMillis(now);
+  const minutes = toMinutes(time);
+  let moment = current.startOf('day').plus({ minutes });
+  if (moment.toMillis() <= now) moment = current.startOf('day').plus({ days: 1, minutes });
+  return moment;
+};
+
+// The next firing of every enabled notification, soonest first. Anything landing in
+// quiet hours is skipped for that day rather than delayed.
+export const planNotifications = (settings: ReminderSettings, now: number): ScheduledNotification[] => {
+  const planned: ScheduledNotification[] = settings.reminders
+    .filter((reminder) => reminder.enabled)
+    .map((reminder) => ({ fireAt: getNextOccurrence(reminder.notifyAt, now).toMillis(), reminder }));
+  if (settings.summary.enabled) planned.push({ fireAt: getNextOccurrence(settings.summary.time, now).toMillis() });
+  return planned
+    .filter((notification) => !isInQuietHours(DateTime.fromMillis(notification.fireAt), settings.quietHours))
+    .sort((a, b) => a.fireAt - b.fireAt);
+};
+
+// A reminder to log, or null if something has been logged since its `after` time on the
+// day open at `now`. With a late day start, times before it fall in the early hours of
+// the next calendar day; if `after` hasn't come yet, the whole day so far counts.
+export const buildReminderNotification = (
+  reminder: LogReminder,
+  log: LogEntry[],
+  now: number,
+  dayStartHour: number
+): NotificationContent | null => {
+  const timeZone = getDeviceTimeZone();
+  const date = getDayKey(now, dayStartHour, timeZone);
+  const dayStart = getTimestampForDay(date, `${String(dayStartHour).padStart(2, '0')}:00`, dayStartHour, timeZone);
+  const after = getTimestampForDay(date, reminder.after, dayStartHour, timeZone);
+  const since = (after.toMillis() <= now ? after : dayStart).toMillis();
+  if (log.some((entry) => entry.timestamp >= since)) return null;
+  return {
+    title: `Time to log ${reminder.label.toLowerCase()}?`,
+    body: `Nothing logged since ${reminder.after}.`,
+    tag: `reminder-${reminder.id}`,
+  };
+};
+
+export const buildSummaryNotification = (context: ReminderContext): NotificationContent => {
+  const remaining = context.dailyGoal - context.consumedCalories;
+  const gaps = (Object.keys(MACRO_NAMES) as (keyof MacroData)[])
+    .map((macro) => ({ macro, short: Math.round(context.macroTargets[macro] - context.consumedMacros[macro]) }))
+    .filter(({ short }) => short >= MACRO_GAP_THRESHOLD)
+    .map(({ macro, short }) => `${short}g ${MACRO_NAMES[macro]}`);
+  return {
+    title: `Today: ${context.consumedCalories} of ${context.dailyGoal} kcal`,
+    body: [
+      remaining >= 0 ? `${remaining} kcal under your goal.` : `${-remaining} kcal over your goal.`,
+      gaps.length > 0 ? `Still short of ${gaps.join(', ')}.` : 'Macros on target.',
+    ].join(' '),
+    tag: 'summary',
+  };
+};
+
+// Keep every enabled notification scheduled, each rescheduling itself for the next
+// day after it fires. `getContext` is read at firing time so it reflects the latest log.
+// Returns a function that cancels everything.
+export const scheduleNotifications = (
+  settings: ReminderSettings,
+  getContext: () => ReminderContext,
+  show: (content: NotificationContent) => void
+): (() => void) => {
+  let timerId: ReturnType<typeof setTimeout> | undefined;
+
+  const scheduleNext = () => {
+    const planned = planNotifications(settings, Date.now());
+    if (planned.length === 0) return;
+    // Notifications set for the same time all fire together
+    const due = planned.filter((notification) => notification.fireAt === planned[0].fireAt);
+    timerId = setTimeout(() => {
+      const context = getContext();
+      due.forEach((notification) => {
+        const content = notification.reminder
+          ? buildReminderNotification(notification.reminder, context.log, Date.now(), context.dayStartHour)
+          : buildSummaryNotification(context);
+        if (content) show(content);
+      });
+      scheduleNext();
+    }, planned[0].fireAt - Date.now());
+  };
+
+  scheduleNext();
+  return () => clearTimeout(timerId);
+};
+
+// Show a notification through the service worker when one is active, so tapping it
+// can focus the app; otherwise (e.g. in development) directly from the page
+export const showLocalNotification = async (content: NotificationContent): Promise<void> => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  const options = { body: content.body, tag: content.tag, icon: '/icon.svg' };
+  const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+  if (registration) await registration.showNotification(content.title, options);
+  else new Notification(content.title, options);
+};
@@ -0,0 +1,456 @@
+// Versioned localStorage layer. Every persisted value goes through here so the
+// schema version, migrations and read-time validation live in one place.
+import { DateTime } from 'luxon';
+import {
+  BodyStats,
+  CurrentDay,
+  DailyHistoryEntry,
+  ExerciseEntry,
+  Food,
+  GoalSchedule,
+  LogEntry,
+  MacroData,
+  MacroProfile,
+  NutrientGoals,
+  Product,
+  Recipe,
+  ReminderSettings,
+  SlotBudgets,
+  VolumeUnit,
+  WaterEntry,
+  WeightEntry,
+} from './types';
+import { LEGACY_RESET_ENTRY_TEXT, getDeviceTimeZone, isDayStartHour } from './dayBoundary';
+import {
+  isDailyGoal,
+  isBodyStats,
+  isCurrentDay,
+  isDailyHistoryEntry,
+  isExerciseEntry,
+  isFood,
+  isGoalSchedule,
+  isLogEntry,
+  isMacroProfile,
+  isNutrientGoals,
+  isProduct,
+  isRecipe,
+  isRecord,
+  isReminderSettings,
+  isSlotBudgets,
+  isVolumeUnit,
+  isWaterEntry,
+  isWeightEntry,
+} from './validators';
+import { withLegacyDrinkVolumes } from './water';
+
+export const STORAGE_SCHEMA_VERSION = 5;
+
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+const QUARANTINE_PREFIX = 'quarantine:';
+
+export interface PersistedState {
+  dailyGoal: number;
+  selectedProfile: string; // Id of a built-in or custom macro profile
+  customProfiles: MacroProfile[];
+  bodyStats: BodyStats;
+  goalSchedule: GoalSchedule;
+  weightLog: WeightEntry[];
+  dayStartHour: number;
+  reminderSettings: ReminderSettings;
+  slotBudgets: SlotBudgets;
+  nutrientGoals: NutrientGoals;
+  currentDay: CurrentDay;
+  log: LogEntry[];
+  exerciseLog: ExerciseEntry[]; // Today's exercise; finished days move to history with their meals
+  addExerciseToBudget: boolean; // Whether burned calories raise the day's budget
+  waterLog: WaterEntry[]; // Today's water; finished days move to history with their meals
+  waterGoalMl: number;
+  volumeUnit: VolumeUnit;
+  customFoods: Food[];
+  customProducts: Product[];
+  recipes: Recipe[];
+  calorieHistory: DailyHistoryEntry[]; // Legacy: history now lives in IndexedDB, see historyDb.ts
+}
+
+type StorageField = keyof PersistedState;
+
+// What a signed-in account keeps on the server besides history, which is stored by day
+export type SyncedState = Partial<Omit<PersistedState, 'calorieHistory'>>;
+
+// localStorage key for each persisted field
+export const STORAGE_KEYS: Record<StorageField, string> = {
+  dailyGoal: 'dailyGoal',
+  selectedProfile: 'selectedProfile',
+  customProfiles: 'customProfiles',
+  bodyStats: 'bodyStats',
+  goalSchedule: 'goalSchedule',
+  weightLog: 'weightLog',
+  dayStartHour: 'dayStartHour',
+  reminderSettings: 'reminderSettings',
+  slotBudgets: 'slotBudgets',
+  nutrientGoals: 'nutrientGoals',
+  currentDay: 'currentDay',
+  log: 'calorieLog',
+  exerciseLog: 'exerciseLog',
+  addExerciseToBudget: 'addExerciseToBudget',
+  waterLog: 'waterLog',
+  waterGoalMl: 'waterGoalMl',
+  volumeUnit: 'volumeUnit',
+  customFoods: 'customFoods',
+  customProducts: 'customProducts',
+  recipes: 'recipes',
+  calorieHistory: 'calorieHistory',
+};
+
+// Decoded JSON values before migration and validation
+type RawState = Partial<Record<StorageField, unknown>>;
+
+interface Migration {
+  toVersion: number;
+  description: string;
+  migrate: (raw: RawState) => RawState;
+  obsoleteKeys?: string[]; // Removed from localStorage once the migration succeeds
+}
+
+export interface StorageIssue {
+  key: string;
+  message: string;
+  quarantineKey?: string;
+}
+
+export interface LoadResult {
+  state: Partial<PersistedState>;
+  issues: StorageIssue[];
+}
+
+const EMPTY_MACROS: MacroData = { carbs: 0, protein: 0, fat: 0 };
+
+const isLegacyResetEntry = (entry: unknown) => isRecord(entry) && entry.text === LEGACY_RESET_ENTRY_TEXT;
+
+const withDefaultMacros = (entry: unknown) =>
+  isRecord(entry) && !isRecord(entry.macros) ? { ...entry, macros: EMPTY_MACROS } : entry;
+
+// An empty record: every extended nutrient is unknown, not zero
+const withUnknownNutrients = (entry: unknown) =>
+  isRecord(entry) && entry.nutrients === undefined ? { ...entry, nutrients: {} } : entry;
+
+// Ordered list of migrations; each one upgrades the data from toVersion - 1 to toVersion
+const MIGRATIONS: Migration[] = [
+  {
+    toVersion: 1,
+    description: 'Add missing macros to log and history entries',
+    migrate: (raw) => ({
+      ...raw,
+      log: Array.isArray(raw.log) ? raw.log.map(withDefaultMacros) : raw.log,
+      calorieHistory: Array.isArray(raw.calorieHistory)
+        ? raw.calorieHistory.map((day) =>
+            isRecord(day) && Array.isArray(day.mealLog)
+              ? { ...day, mealLog: day.mealLog.map(withDefaultMacros) }
+              : day
+          )
+        : raw.calorieHistory,
+    }),
+  },
+  {
+    toVersion: 2,
+    description: 'Stop storing consumed totals; they are derived from the log',
+    migrate: (raw) => raw,
+    obsoleteKeys: ['consumedCalories', 'consumedMacros'],
+  },
+  {
+    toVersion: 3,
+    description: 'Track the open day explicitly and drop synthetic reset entries',
+    migrate: (raw) => {
+      const log = Array.isArray(raw.log) ? raw.log : [];
+      // The log belonged to the calendar day of its newest entry, reset entries included
+      const timestamps = log
+        .map((entry) => (isRecord(entry) && typeof entry.timestamp === 'number' ? entry.timestamp : null))
+        .filter((timestamp): timestamp is number => timestamp !== null);
+      const currentDay = timestamps.length > 0
+        ? { date: DateTime.fromMillis(Math.max(...timestamps)).toFormat('yyyy-MM-dd'), timeZone: getDeviceTimeZone() }
+        : raw.currentDay;
+      return {
+        ...raw,
+        currentDay,
+        log: Array.isArray(raw.log) ? raw.log.filter((entry) => !isLegacyResetEntry(entry)) : raw.log,
+        calorieHistory: Array.isArray(raw.calorieHistory)
+          ? raw.calorieHistory.map((day) =>
+              isRecord(day) && Array.isArray(day.mealLog)
+                ? { ...day, mealLog: day.mealLog.filter((entry) => !isLegacyResetEntry(entry)) }
+                : day
+            )
+          : raw.calorieHistory,
+      };
+    },
+  },
+  {
+    toVersion: 4,
+    description: 'Mark extended nutrients as unknown on existing entries',
+    migrate: (raw) => ({
+      ...raw,
+      log: Array.isArray(raw.log) ? raw.log.map(withUnknownNutrients) : raw.log,
+      calorieHistory: Array.isArray(raw.calorieHistory)
+        ? raw.calorieHistory.map((day) =>
+            isRecord(day) && Array.isArray(day.mealLog)
+              ? { ...day, mealLog: day.mealLog.map(withUnknownNutrients) }
+              : day
+          )
+        : raw.calorieHistory,
+    }),
+  },
+  {
+    toVersion: 5,
+    description: 'Mark meal items measured in ml as drinks, as they were counted before',
+    migrate: (raw) => ({
+      ...raw,
+      log: Array.isArray(raw.log) ? raw.log.map(withLegacyDrinkVolumes) : raw.log,
+      calorieHistory: Array.isArray(raw.calorieHistory)
+        ? raw.calorieHistory.map((day) =>
+            isRecord(day) && Array.isArray(day.mealLog)
+              ? { ...day, mealLog: day.mealLog.map(withLegacyDrinkVolumes) }
+              : day
+          )
+        : raw.calorieHistory,
+    }),
+  },
+];
+
+// Move an unusable value aside so it can be recovered by hand instead of being lost
+const quarantine = (key: string, rawValue: string): string | undefined => {
+  const quarantineKey = `${QUARANTINE_PREFIX}${key}:${Date.now()}`;
+  try {
+    localStorage.setItem(quarantineKey, rawValue);
+    return quarantineKey;
+  } catch (err) {
+    console.error(`Failed to quarantine corrupt value for "${key}":`, err);
+    return undefined;
+  }
+};
+
+const readStoredVersion = (): number => {
+  const storedVersion = localStorage.getItem(SCHEMA_VERSION_KEY);
+  if (storedVersion === null) return 0;
+  const version = parseInt(storedVersion, 10);
+  return isNaN(version) ? 0 : version;
+};
+
+// Split an array into valid and invalid items, quarantining the invalid ones
+const filterValidItems = <T>(
+  key: string,
+  items: unknown[],
+  isValid: (item: unknown) => item is T,
+  issues: StorageIssue[]
+): T[] => {
+  const valid = items.filter(isValid);
+  const invalid = items.filter((item) => !isValid(item));
+  if (invalid.length > 0) {
+    issues.push({
+      key,
+      message: `${invalid.length} invalid record(s) were skipped.`,
+      quarantineKey: quarantine(key, JSON.stringify(invalid)),
+    });
+  }
+  return valid;
+};
+
+const validate = (raw: RawState, issues: StorageIssue[]): Partial<PersistedState> => {
+  const state: Partial<PersistedState> = {};
+  const reject = (field: StorageField) => {
+    issues.push({
+      key: STORAGE_KEYS[field],
+      message: 'Stored value has an unexpected shape.',
+      quarantineKey: quarantine(STORAGE_KEYS[field], JSON.stringify(raw[field])),
+    });
+  };
+
+  if (raw.dailyGoal !== undefined) {
+    if (isDailyGoal(raw.dailyGoal)) state.dailyGoal = raw.dailyGoal;
+    else reject('dailyGoal');
+  }
+  if (raw.selectedProfile !== undefined) {
+    if (typeof raw.selectedProfile === 'string') state.selectedProfile = raw.selectedProfile;
+    else reject('selectedProfile');
+  }
+  if (raw.dayStartHour !== undefined) {
+    if (isDayStartHour(raw.dayStartHour)) state.dayStartHour = raw.dayStartHour;
+    else reject('dayStartHour');
+  }
+  if (raw.reminderSettings !== undefined) {
+    if (isReminderSettings(raw.reminderSettings)) state.reminderSettings = raw.reminderSettings;
+    else reject('reminderSettings');
+  }
+  if (raw.customProfiles !== undefined) {
+    if (Array.isArray(raw.customProfiles)) {
+      state.customProfiles = filterValidItems(STORAGE_KEYS.customProfiles, raw.customProfiles, isMacroProfile, issues);
+    } else {
+      reject('customProfiles');
+    }
+  }
+  if (raw.bodyStats !== undefined) {
+    if (isBodyStats(raw.bodyStats)) state.bodyStats = raw.bodyStats;
+    else reject('bodyStats');
+  }
+  if (raw.goalSchedule !== undefined) {
+    if (isGoalSchedule(raw.goalSchedule)) state.goalSchedule = raw.goalSchedule;
+    else reject('goalSchedule');
+  }
+  if (raw.weightLog !== undefined) {
+    if (Array.isArray(raw.weightLog)) {
+      state.weightLog = filterValidItems(STORAGE_KEYS.weightLog, raw.weightLog, isWeightEntry, issues);
+    } else {
+      reject('weightLog');
+    }
+  }
+  if (raw.slotBudgets !== undefined) {
+    if (isSlotBudgets(raw.slotBudgets)) state.slotBudgets = raw.slotBudgets;
+    else reject('slotBudgets');
+  }
+  if (raw.nutrientGoals !== undefined) {
+    if (isNutrientGoals(raw.nutrientGoals)) state.nutrientGoals = raw.nutrientGoals;
+    else reject('nutrientGoals');
+  }
+  if (raw.currentDay !== undefined) {
+    if (isCurrentDay(raw.currentDay)) state.currentDay = raw.currentDay;
+    else reject('currentDay');
+  }
+  if (raw.log !== undefined) {
+    if (Array.isArray(raw.log)) state.log = filterValidItems(STORAGE_KEYS.log, raw.log, isLogEntry, issues);
+    else reject('log');
+  }
+  if (raw.exerciseLog !== undefined) {
+    if (Array.isArray(raw.exerciseLog)) {
+      state.exerciseLog = filterValidItems(STORAGE_KEYS.exerciseLog, raw.exerciseLog, isExerciseEntry, issues);
+    } else {
+      reject('exerciseLog');
+    }
+  }
+  if (raw.addExerciseToBudget !== undefined) {
+    if (typeof raw.addExerciseToBudget === 'boolean') state.addExerciseToBudget = raw.addExerciseToBudget;
+    else reject('addExerciseToBudget');
+  }
+  if (raw.waterLog !== undefined) {
+    if (Array.isArray(raw.waterLog)) state.waterLog = filterValidItems(STORAGE_KEYS.waterLog, raw.waterLog, isWaterEntry, issues);
+    else reject('waterLog');
+  }
+  if (raw.waterGoalMl !== undefined) {
+    if (isDailyGoal(raw.waterGoalMl)) state.waterGoalMl = raw.waterGoalMl;
+    else reject('waterGoalMl');
+  }
+  if (raw.volumeUnit !== undefined) {
+    if (isVolumeUnit(raw.volumeUnit)) state.volumeUnit = raw.volumeUnit;
+    else reject('volumeUnit');
+  }
+  if (raw.customFoods !== undefined) {
+    if (Array.isArray(raw.customFoods)) {
+      state.customFoods = filterValidItems(STORAGE_KEYS.customFoods, raw.customFoods, isFood, issues);
+    } else {
+      reject('customFoods');
+    }
+  }
+  if (raw.customProducts !== undefined) {
+    if (Array.isArray(raw.customProducts)) {
+      state.customProducts = filterValidItems(STORAGE_KEYS.customProducts, raw.customProducts, isProduct, issues);
+    } else {
+      reject('customProducts');
+    }
+  }
+  if (raw.recipes !== undefined) {
+    if (Array.isArray(raw.recipes)) state.recipes = filterValidItems(STORAGE_KEYS.recipes, raw.recipes, isRecipe, issues);
+    else reject('recipes');
+  }
+  if (raw.calorieHistory !== undefined) {
+    if (Array.isArray(raw.calorieHistory)) {
+      state.calorieHistory = filterValidItems(
+        STORAGE_KEYS.calorieHistory,
+        raw.calorieHistory,
+        isDailyHistoryEntry,
+        issues
+      );
+    } else {
+      reject('calorieHistory');
+    }
+  }
+  return state;
+};
+
+// Read, migrate and validate everything in localStorage. Never throws; problems are returned as issues.
+export const loadPersistedState = (): LoadResult => {
+  const issues: StorageIssue[] = [];
+  let raw: RawState = {};
+
+  (Object.keys(STORAGE_KEYS) as StorageField[]).forEach((field) => {
+    const key = STORAGE_KEYS[field];
+    const storedValue = localStorage.getItem(key);
+    if (storedValue === null) return;
+    try {
+      raw[field] = JSON.parse(storedValue);
+    } catch {
+      issues.push({
+        key,
+        message: 'Stored value is not valid JSON.',
+        quarantineKey: quarantine(key, storedValue),
+      });
+      localStorage.removeItem(key);
+    }
+  });
+
+  const storedVersion = readStoredVersion();
+  if (storedVersion > STORAGE_SCHEMA_VERSION) {
+    issues.push({
+      key: SCHEMA_VERSION_KEY,
+      message: `Data was saved by a newer version of the app (schema ${storedVersion}).`,
+    });
+  }
+
+  let version = storedVersion;
+  for (const migration of MIGRATIONS) {
+    if (migration.toVersion <= version) continue;
+    try {
+      raw = migration.migrate(raw);
+      migration.obsoleteKeys?.forEach((key) => localStorage.removeItem(key));
+      version = migration.toVersion;
+    } catch (err) {
+      console.error(`Storage migration to v${migration.toVersion} failed:`, err);
+      issues.push({
+        key: SCHEMA_VERSION_KEY,
+        message: `Migration "${migration.description}" failed.`,
+      });
+      break;
+    }
+  }
+
+  const state = validate(raw, issues);
+
+  if (version !== storedVersion) {
+    (Object.keys(state) as StorageField[]).forEach((field) => saveToStorage(field, state[field]!));
+  }
+  if (version <= STORAGE_SCHEMA_VERSION) {
+    localStorage.setItem(SCHEMA_VERSION_KEY, version.toString());
+  }
+
+  issues.forEach((issue) => console.warn(`Storage issue in "${issue.key}": ${issue.message}`));
+  return { state, issues };
+};
+
+type SaveListener = <K extends StorageField>(field: K, value: PersistedState[K]) => void;
+
+let saveListener: SaveListener | null = null;
+
+// Be told about every value saved from now on, e.g. to copy it to the signed-in account.
+// Pass null to stop.
+export const setSaveListener = (listener: SaveListener | null) => {
+  saveListener = listener;
+};
+
+export const saveToStorage = <K extends StorageField>(field: K, value: PersistedState[K]) => {
+  try {
+    localStorage.setItem(STORAGE_KEYS[field], JSON.stringify(value));
+  } catch (err) {
+    console.error(`Failed to save "${STORAGE_KEYS[field]}" to localStorage:`, err);
+  }
+  saveListener?.(field, value);
+};
+
+export const removeFromStorage = (field: StorageField) => {
+  localStorage.removeItem(STORAGE_KEYS[field]);
+};
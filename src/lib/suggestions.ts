@@ -0,0 +1,104 @@
+// Quick-add suggestions ranked from past log entries by how often, how recently
+// and at what time of day each meal was logged
+import { DateTime } from 'luxon';
+import { DailyHistoryEntry, LogEntry } from './types';
+
+export const MAX_SUGGESTIONS = 6;
+const RECENCY_HALF_LIFE_DAYS = 14; // A meal logged two weeks ago counts half as much as one logged now
+const TIME_OF_DAY_SPREAD_HOURS = 2; // How far from its usual hour a meal still counts as usual
+const TIME_OF_DAY_FLOOR = 0.1; // Weight kept by meals logged at a very different hour
+const COOLDOWN_MS = 2 * 60 * 60 * 1000; // Don't suggest a meal logged within the last two hours
+const SIMILARITY_THRESHOLD = 0.75; // Word overlap above which two texts are treated as the same meal
+
+// Words that don't distinguish one meal from another
+const FILLER_WORDS = new Set(['a', 'an', 'and', 'the', 'with', 'w', 'of', 'some', 'my', 'plus']);
+
+export interface QuickAddSuggestion {
+  key: string;
+  entry: LogEntry; // Most recent entry in the group, re-logged as is
+  count: number;
+  score: number;
+}
+
+interface SuggestionGroup {
+  words: Set<string>;
+  entry: LogEntry;
+  count: number;
+  score: number;
+}
+
+// Significant words of a meal description, lower-cased and without punctuation or quantities
+const getMealWords = (text: string): Set<string> =>
+  new Set(
+    text
+      .toLowerCase()
+      .replace(/\(.*?\)/g, ' ') // Quantity labels like "(2 servings)"
+      .split(/[^a-z\u00c0-\u024f]+/)
+      .map((word) => (word.length > 3 && word.endsWith('s') ? word.slice(0, -1) : word))
+      .filter((word) => word.length > 0 && !FILLER_WORDS.has(word))
+  );
+
+const getWordSimilarity = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach((word) => {
+    if (b.has(word)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+};
+
+// Hours between two times of day, going the short way round midnight
+const getHourDistance = (a: number, b: number): number => {
+  const distance = Math.abs(a - b) % 24;
+  return Math.min(distance, 24 - distance);
+};
+
+// Rank meals from past days (and today's log) for one-tap re-logging. Each entry adds
+// weight that decays with age and with distance from the current time of day, so the
+// usual breakfast comes first in the morning; texts with nearly the same words are grouped.
+export const getQuickAddSuggestions = (
+  days: Pick<DailyHistoryEntry, 'mealLog' | 'timeZone'>[],
+  now = Date.now(),
+  limit = MAX_SUGGESTIONS
+): QuickAddSuggestion[] => {
+  const nowHour = DateTime.fromMillis(now).hour + DateTime.fromMillis(now).minute / 60;
+  const groups: SuggestionGroup[] = [];
+  const recentGroups = new Set<SuggestionGroup>();
+
+  days.forEach((day) => {
+    day.mealLog.forEach((entry) => {
+      if (entry.pending || entry.timestamp > now) return;
+      const words = getMealWords(entry.text);
+      if (words.size === 0) return;
+
+      const time = DateTime.fromMillis(entry.timestamp, { zone: day.timeZone });
+      const hourDistance = getHourDistance(time.hour + time.minute / 60, nowHour);
+      const ageDays = (now - entry.timestamp) / (24 * 60 * 60 * 1000);
+      const weight =
+        Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS) *
+        Math.max(TIME_OF_DAY_FLOOR, Math.exp(-(hourDistance * hourDistance) / (2 * TIME_OF_DAY_SPREAD_HOURS ** 2)));
+
+      let group = groups.find((candidate) => getWordSimilarity(candidate.words, words) >= SIMILARITY_THRESHOLD);
+      if (!group) {
+        group = { words, entry, count: 0, score: 0 };
+        groups.push(group);
+      } else if (entry.timestamp > group.entry.timestamp) {
+        group.entry = entry;
+      }
+      group.count++;
+      group.score += weight;
+      if (now - entry.timestamp < COOLDOWN_MS) recentGroups.add(group);
+    });
+  });
+
+  return groups
+    .filter((group) => !recentGroups.has(group))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map((group) => ({
+      key: Array.from(group.words).sort().join(' '),
+      entry: group.entry,
+      count: group.count,
+      score: group.score,
+    }));
+};
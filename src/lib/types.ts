@@ -0,0 +1,239 @@
+export interface MacroData {
+  carbs: number;
+  protein: number;
+  fat: number;
+}
+
+// Nutrients tracked beyond the three macros; see NUTRIENTS in nutrients.ts
+export type NutrientKey = 'fiber' | 'sugar' | 'addedSugar' | 'sodium' | 'saturatedFat';
+
+// Amounts in each nutrient's unit. A missing key means the amount is unknown, which is not the same as zero.
+export type NutrientData = Partial<Record<NutrientKey, number>>;
+
+// Optional daily limit or target per nutrient
+export type NutrientGoals = Partial<Record<NutrientKey, number>>;
+
+// One food or drink within a meal, as estimated by the AI
+export interface MealItem {
+  name: string;
+  portion: number; // Estimated amount, in `unit`
+  unit: string; // 'g', 'ml' or a count such as 'slice'
+  calories: number;
+  macros: MacroData;
+  nutrients?: NutrientData;
+  drinkMl?: number; // Volume drunk, set only on drinks; soups, oils and sauces in ml don't count
+}
+
+// How sure the AI was about an estimate, with a plausible calorie range
+export interface EstimateConfidence {
+  level: 'low' | 'medium' | 'high';
+  caloriesLow: number;
+  caloriesHigh: number;
+}
+
+// A meal logged while offline, waiting to be estimated
+export interface PendingEstimate {
+  text: string; // What the user typed; empty for a photo on its own
+  image?: string; // Resized photo as a data URL
+  error?: string; // Set when estimation failed for a reason retrying won't fix
+}
+
+// Which recipe, and which edit of it, an entry was logged from
+export interface RecipeRef {
+  id: string;
+  version: number;
+}
+
+export type MealSlot = 'breakfast' | 'lunch' | 'dinner' | 'snack';
+
+// Optional share of the daily goal set aside for each meal slot, in percent
+export type SlotBudgets = Partial<Record<MealSlot, number>>;
+
+export interface LogEntry {
+  id: string;
+  text: string;
+  calories: number;
+  macros: MacroData;
+  nutrients?: NutrientData; // Entries logged before nutrients were tracked have none known
+  timestamp: number;
+  items?: MealItem[]; // When present, calories and macros are the sum of the items
+  confidence?: EstimateConfidence; // Only on AI estimates the user hasn't corrected
+  pending?: PendingEstimate; // Calories and macros are 0 until this is estimated
+  recipe?: RecipeRef; // Nutrition is copied at logging time, so later recipe edits don't change it
+  slot?: MealSlot; // Set when chosen by the user; otherwise the slot follows from the timestamp
+}
+
+// A workout or activity, with the calories it burned
+export interface ExerciseEntry {
+  id: string;
+  name: string;
+  durationMinutes: number;
+  calories: number; // Estimated burn
+  timestamp: number;
+  activityId?: string; // Set when the burn was worked out from the MET table; see exercise.ts
+}
+
+// A drink of water; other drinks count toward hydration through their meal items
+export interface WaterEntry {
+  id: string;
+  amountMl: number;
+  timestamp: number;
+}
+
+export type VolumeUnit = 'ml' | 'floz';
+
+// A common serving of a food, e.g. "1 medium" = 118 g
+export interface FoodServing {
+  label: string;
+  grams: number;
+}
+
+// A food from the bundled database or added by the user, with nutrition per 100 g
+export interface Food {
+  id: string;
+  name: string;
+  caloriesPer100g: number;
+  macrosPer100g: MacroData;
+  servings: FoodServing[];
+  custom?: boolean;
+}
+
+// A packaged product identified by its barcode, with nutrition per serving
+export interface Product {
+  barcode: string; // 13-digit GTIN; UPC-A codes get a leading zero
+  name: string;
+  servingLabel: string; // e.g. 'can (330 ml)'
+  caloriesPerServing: number;
+  macrosPerServing: MacroData;
+  custom?: boolean;
+}
+
+// A dish defined once as a list of ingredients and the number of servings it makes
+export interface Recipe {
+  id: string;
+  version: number; // Incremented on every edit
+  name: string;
+  ingredients: MealItem[];
+  servings: number; // Total yield
+  updatedAt: number;
+}
+
+// How a macro profile's three numbers are read
+export type MacroTargetMode = 'percent' | 'grams' | 'gramsPerKg';
+
+// Ideal macro split: a share of calories, fixed daily grams, or grams per kg of bodyweight
+export interface MacroProfile {
+  id: string;
+  name: string;
+  description?: string;
+  mode: MacroTargetMode;
+  carbs: number;
+  protein: number;
+  fat: number;
+  bodyweightKg?: number; // Only used by 'gramsPerKg' profiles
+}
+
+export type ActivityLevel = 'sedentary' | 'light' | 'moderate' | 'active' | 'veryActive';
+
+// What the goal setup wizard asks for, saved so the goal can be recalculated later
+export interface BodyStats {
+  sex: 'male' | 'female';
+  age: number; // Years
+  heightCm: number;
+  weightKg: number;
+  activityLevel: ActivityLevel;
+  weeklyChangeKg: number; // Target rate of change; negative to lose weight
+}
+
+// A named kind of day with its own calorie goal, e.g. "Training day"
+export interface DayType {
+  id: string;
+  name: string;
+  dailyGoal: number;
+  profileId?: string; // Macro profile for these days; the selected profile when omitted
+}
+
+// Which days use which day type. Days with none use the base daily goal and profile.
+export interface GoalSchedule {
+  dayTypes: DayType[];
+  weekdays: Partial<Record<number, string>>; // Weekday (1 = Monday … 7 = Sunday) to day type id
+  overrides: Record<string, string>; // YYYY-MM-DD to day type id, for one-off days
+}
+
+// Notifies at `notifyAt` if nothing has been logged since `after`, e.g. "no entry since 13:00"
+export interface LogReminder {
+  id: string;
+  label: string;
+  after: string; // HH:mm
+  notifyAt: string; // HH:mm
+  enabled: boolean;
+}
+
+export interface ReminderSettings {
+  reminders: LogReminder[];
+  summary: { enabled: boolean; time: string }; // Evening summary of the day, at HH:mm
+  quietHours: { enabled: boolean; start: string; end: string }; // HH:mm; may span midnight
+}
+
+// One weigh-in; at most one per day
+export interface WeightEntry {
+  date: string; // YYYY-MM-DD
+  weightKg: number;
+}
+
+// New interface for daily history entries
+export interface DailyHistoryEntry {
+  date: string; // Format: YYYY-MM-DD
+  totalCalories: number;
+  mealLog: LogEntry[];
+  exerciseLog?: ExerciseEntry[]; // Missing for days archived before exercise was tracked
+  waterLog?: WaterEntry[]; // Missing for days archived before water was tracked
+  dailyGoalAtTheTime: number; // Store the goal active for that day
+  profileAtTheTime?: MacroProfile; // Copy of the macro profile active that day; missing for older days
+  timeZone?: string; // IANA zone the day was logged in; missing for days archived by older versions
+}
+
+// The day today's log belongs to
+export interface CurrentDay {
+  date: string; // Format: YYYY-MM-DD
+  timeZone: string;
+}
+
+// Result returned by /api/estimate
+export interface NutritionEstimate {
+  calories: number;
+  macros: MacroData;
+  nutrients: NutrientData;
+  items: MealItem[];
+  confidence: EstimateConfidence;
+}
+
+// Result returned by /api/describe
+export interface MealDescription {
+  description: string | null;
+}
+
+// The signed-in user, returned by the /api/auth routes
+export interface AccountUser {
+  username: string;
+}
+
+// Result returned by /api/auth/session
+export interface AccountSession {
+  user: AccountUser | null; // Null when signed out
+}
+
+// Returned by every write to /api/account; the account's revision after the change
+export interface AccountRevision {
+  revision: number;
+}
+
+// Result returned by GET /api/account/history
+export interface AccountHistory {
+  days: DailyHistoryEntry[];
+}
+
+// Error body returned by every /api route
+export interface ApiError {
+  error: string;
+}
@@ -0,0 +1,254 @@
+// Runtime shape checks for data read back from storage or imported files
+import {
+  BodyStats,
+  CurrentDay,
+  DailyHistoryEntry,
+  DayType,
+  EstimateConfidence,
+  ExerciseEntry,
+  Food,
+  FoodServing,
+  GoalSchedule,
+  LogEntry,
+  LogReminder,
+  MacroData,
+  MacroProfile,
+  MacroTargetMode,
+  MealItem,
+  MealSlot,
+  NutrientData,
+  NutrientGoals,
+  PendingEstimate,
+  Product,
+  Recipe,
+  RecipeRef,
+  ReminderSettings,
+  SlotBudgets,
+  VolumeUnit,
+  WaterEntry,
+  WeightEntry,
+} from './types';
+import { NUTRIENTS } from './nutrients';
+import { ACTIVITY_LEVELS } from './energy';
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const isDateKey = (value: unknown): value is string =>
+  typeof value === 'string' && DATE_KEY_PATTERN.test(value);
+
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const isTimeOfDay = (value: unknown): value is string =>
+  typeof value === 'string' && TIME_OF_DAY_PATTERN.test(value);
+
+export const isDailyGoal = (value: unknown): value is number =>
+  isFiniteNumber(value) && value > 0;
+
+export const isMacroData = (value: unknown): value is MacroData =>
+  isRecord(value) &&
+  isFiniteNumber(value.carbs) &&
+  isFiniteNumber(value.protein) &&
+  isFiniteNumber(value.fat);
+
+const isNutrientKey = (value: string) => NUTRIENTS.some((nutrient) => nutrient.key === value);
+
+// Non-negative amounts for known nutrients; missing keys are unknown amounts
+export const isNutrientData = (value: unknown): value is NutrientData =>
+  isRecord(value) &&
+  Object.entries(value).every(([key, amount]) => isNutrientKey(key) && isFiniteNumber(amount) && amount >= 0);
+
+export const isNutrientGoals = (value: unknown): value is NutrientGoals =>
+  isRecord(value) &&
+  Object.entries(value).every(([key, amount]) => isNutrientKey(key) && isFiniteNumber(amount) && amount > 0);
+
+export const isMealItem = (value: unknown): value is MealItem =>
+  isRecord(value) &&
+  typeof value.name === 'string' &&
+  isFiniteNumber(value.portion) &&
+  typeof value.unit === 'string' &&
+  isFiniteNumber(value.calories) &&
+  isMacroData(value.macros) &&
+  (value.nutrients === undefined || isNutrientData(value.nutrients)) &&
+  (value.drinkMl === undefined || (isFiniteNumber(value.drinkMl) && value.drinkMl >= 0));
+
+export const CONFIDENCE_LEVELS: EstimateConfidence['level'][] = ['low', 'medium', 'high'];
+
+export const isEstimateConfidence = (value: unknown): value is EstimateConfidence =>
+  isRecord(value) &&
+  CONFIDENCE_LEVELS.includes(value.level as EstimateConfidence['level']) &&
+  isFiniteNumber(value.caloriesLow) &&
+  isFiniteNumber(value.caloriesHigh);
+
+export const isPendingEstimate = (value: unknown): value is PendingEstimate =>
+  isRecord(value) &&
+  typeof value.text === 'string' &&
+  (value.image === undefined || typeof value.image === 'string') &&
+  (value.error === undefined || typeof value.error === 'string');
+
+export const isRecipeRef = (value: unknown): value is RecipeRef =>
+  isRecord(value) && typeof value.id === 'string' && isFiniteNumber(value.version);
+
+export const MEAL_SLOTS: MealSlot[] = ['breakfast', 'lunch', 'dinner', 'snack'];
+
+export const isMealSlot = (value: unknown): value is MealSlot => MEAL_SLOTS.includes(value as MealSlot);
+
+// Percentages for known slots only, adding up to at most the whole goal
+export const isSlotBudgets = (value: unknown): value is SlotBudgets =>
+  isRecord(value) &&
+  Object.entries(value).every(([slot, percent]) => isMealSlot(slot) && isFiniteNumber(percent) && percent >= 0) &&
+  Object.values(value).reduce<number>((total, percent) => total + (percent as number), 0) <= 100;
+
+export const isLogEntry = (value: unknown): value is LogEntry =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.text === 'string' &&
+  isFiniteNumber(value.calories) &&
+  isMacroData(value.macros) &&
+  (value.nutrients === undefined || isNutrientData(value.nutrients)) &&
+  isFiniteNumber(value.timestamp) &&
+  (value.items === undefined || (Array.isArray(value.items) && value.items.every(isMealItem))) &&
+  (value.confidence === undefined || isEstimateConfidence(value.confidence)) &&
+  (value.pending === undefined || isPendingEstimate(value.pending)) &&
+  (value.recipe === undefined || isRecipeRef(value.recipe)) &&
+  (value.slot === undefined || isMealSlot(value.slot));
+
+const MACRO_TARGET_MODES: MacroTargetMode[] = ['percent', 'grams', 'gramsPerKg'];
+
+export const isMacroProfile = (value: unknown): value is MacroProfile =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  (value.description === undefined || typeof value.description === 'string') &&
+  MACRO_TARGET_MODES.includes(value.mode as MacroTargetMode) &&
+  isMacroData(value) &&
+  (value.bodyweightKg === undefined || (isFiniteNumber(value.bodyweightKg) && value.bodyweightKg > 0));
+
+export const isBodyStats = (value: unknown): value is BodyStats =>
+  isRecord(value) &&
+  (value.sex === 'male' || value.sex === 'female') &&
+  isFiniteNumber(value.age) &&
+  value.age > 0 &&
+  isFiniteNumber(value.heightCm) &&
+  value.heightCm > 0 &&
+  isFiniteNumber(value.weightKg) &&
+  value.weightKg > 0 &&
+  ACTIVITY_LEVELS.some((option) => option.level === value.activityLevel) &&
+  isFiniteNumber(value.weeklyChangeKg);
+
+export const isDayType = (value: unknown): value is DayType =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  isDailyGoal(value.dailyGoal) &&
+  (value.profileId === undefined || typeof value.profileId === 'string');
+
+export const isGoalSchedule = (value: unknown): value is GoalSchedule =>
+  isRecord(value) &&
+  Array.isArray(value.dayTypes) &&
+  value.dayTypes.every(isDayType) &&
+  isRecord(value.weekdays) &&
+  Object.entries(value.weekdays).every(
+    ([weekday, dayTypeId]) => /^[1-7]$/.test(weekday) && typeof dayTypeId === 'string'
+  ) &&
+  isRecord(value.overrides) &&
+  Object.entries(value.overrides).every(([date, dayTypeId]) => isDateKey(date) && typeof dayTypeId === 'string');
+
+export const isLogReminder = (value: unknown): value is LogReminder =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.label === 'string' &&
+  isTimeOfDay(value.after) &&
+  isTimeOfDay(value.notifyAt) &&
+  typeof value.enabled === 'boolean';
+
+export const isReminderSettings = (value: unknown): value is ReminderSettings =>
+  isRecord(value) &&
+  Array.isArray(value.reminders) &&
+  value.reminders.every(isLogReminder) &&
+  isRecord(value.summary) &&
+  typeof value.summary.enabled === 'boolean' &&
+  isTimeOfDay(value.summary.time) &&
+  isRecord(value.quietHours) &&
+  typeof value.quietHours.enabled === 'boolean' &&
+  isTimeOfDay(value.quietHours.start) &&
+  isTimeOfDay(value.quietHours.end);
+
+export const isWeightEntry = (value: unknown): value is WeightEntry =>
+  isRecord(value) && isDateKey(value.date) && isFiniteNumber(value.weightKg) && value.weightKg > 0;
+
+export const isExerciseEntry = (value: unknown): value is ExerciseEntry =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  isFiniteNumber(value.durationMinutes) &&
+  value.durationMinutes >= 0 &&
+  isFiniteNumber(value.calories) &&
+  value.calories >= 0 &&
+  isFiniteNumber(value.timestamp) &&
+  (value.activityId === undefined || typeof value.activityId === 'string');
+
+export const isWaterEntry = (value: unknown): value is WaterEntry =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  isFiniteNumber(value.amountMl) &&
+  value.amountMl > 0 &&
+  isFiniteNumber(value.timestamp);
+
+export const VOLUME_UNITS: VolumeUnit[] = ['ml', 'floz'];
+
+export const isVolumeUnit = (value: unknown): value is VolumeUnit => VOLUME_UNITS.includes(value as VolumeUnit);
+
+export const isDailyHistoryEntry = (value: unknown): value is DailyHistoryEntry =>
+  isRecord(value) &&
+  isDateKey(value.date) &&
+  isFiniteNumber(value.totalCalories) &&
+  isFiniteNumber(value.dailyGoalAtTheTime) &&
+  (value.profileAtTheTime === undefined || isMacroProfile(value.profileAtTheTime)) &&
+  (value.timeZone === undefined || typeof value.timeZone === 'string') &&
+  Array.isArray(value.mealLog) &&
+  value.mealLog.every(isLogEntry) &&
+  (value.exerciseLog === undefined || (Array.isArray(value.exerciseLog) && value.exerciseLog.every(isExerciseEntry))) &&
+  (value.waterLog === undefined || (Array.isArray(value.waterLog) && value.waterLog.every(isWaterEntry)));
+
+export const isCurrentDay = (value: unknown): value is CurrentDay =>
+  isRecord(value) && isDateKey(value.date) && typeof value.timeZone === 'string';
+
+export const isFoodServing = (value: unknown): value is FoodServing =>
+  isRecord(value) && typeof value.label === 'string' && isFiniteNumber(value.grams) && value.grams > 0;
+
+export const isFood = (value: unknown): value is Food =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  isFiniteNumber(value.caloriesPer100g) &&
+  isMacroData(value.macrosPer100g) &&
+  Array.isArray(value.servings) &&
+  value.servings.every(isFoodServing) &&
+  (value.custom === undefined || typeof value.custom === 'boolean');
+
+export const isProduct = (value: unknown): value is Product =>
+  isRecord(value) &&
+  typeof value.barcode === 'string' &&
+  /^\d{13}$/.test(value.barcode) &&
+  typeof value.name === 'string' &&
+  typeof value.servingLabel === 'string' &&
+  isFiniteNumber(value.caloriesPerServing) &&
+  isMacroData(value.macrosPerServing) &&
+  (value.custom === undefined || typeof value.custom === 'boolean');
+
+export const isRecipe = (value: unknown): value is Recipe =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  isFiniteNumber(value.version) &&
+  typeof value.name === 'string' &&
+  Array.isArray(value.ingredients) &&
+  value.ingredients.every(isMealItem) &&
+  isFiniteNumber(value.servings) &&
+  value.servings > 0 &&
+  isFiniteNumber(value.updatedAt);
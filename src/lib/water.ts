@@ -0,0 +1,53 @@
+// Hydration: water logged directly plus the volume of drinks in logged meals,
+// shown in the user's preferred unit
+import { LogEntry, VolumeUnit, WaterEntry } from './types';
+import { isRecord } from './validators';
+
+export const DEFAULT_WATER_GOAL_ML = 2000;
+
+const ML_PER_FL_OZ = 29.5735;
+
+export const VOLUME_UNIT_LABELS: Record<VolumeUnit, string> = { ml: 'ml', floz: 'fl oz' };
+
+// Quick-add amounts in each unit, roughly a glass, a can and a bottle
+export const QUICK_ADD_AMOUNTS: Record<VolumeUnit, number[]> = {
+  ml: [250, 330, 500],
+  floz: [8, 12, 16],
+};
+
+export const toDisplayVolume = (ml: number, unit: VolumeUnit): number =>
+  unit === 'floz' ? Math.round((ml / ML_PER_FL_OZ) * 10) / 10 : Math.round(ml);
+
+export const fromDisplayVolume = (amount: number, unit: VolumeUnit): number =>
+  Math.round(unit === 'floz' ? amount * ML_PER_FL_OZ : amount);
+
+export const formatVolume = (ml: number, unit: VolumeUnit): string =>
+  `${toDisplayVolume(ml, unit)} ${VOLUME_UNIT_LABELS[unit]}`;
+
+export const sumWaterMl = (waterLog: WaterEntry[]): number =>
+  waterLog.reduce((sum, entry) => sum + entry.amountMl, 0);
+
+// Volume of the drinks in logged meals: only items the estimate marked as drinks
+export const getMealHydrationMl = (entries: LogEntry[]): number =>
+  entries.reduce(
+    (sum, entry) => sum + (entry.items ?? []).reduce((itemSum, item) => itemSum + (item.drinkMl ?? 0), 0),
+    0
+  );
+
+// Before items were marked as drinks, every item in ml counted towards hydration. Mark
+// those items of a stored entry as drinks so totals already shown don't change.
+export const withLegacyDrinkVolumes = <T>(entry: T): T =>
+  isRecord(entry) && Array.isArray(entry.items)
+    ? ({
+        ...entry,
+        items: entry.items.map((item: unknown) =>
+          isRecord(item) && item.unit === 'ml' && item.drinkMl === undefined && typeof item.portion === 'number'
+            ? { ...item, drinkMl: item.portion }
+            : item
+        ),
+      } as T)
+    : entry;
+
+// Everything drunk in a day, water and other drinks together
+export const getHydrationMl = (mealLog: LogEntry[], waterLog: WaterEntry[]): number =>
+  Math.round(sumWaterMl(waterLog) + getMealHydrationMl(mealLog));
@@ -0,0 +1,98 @@
+// Weight log: a smoothed trend through the weigh-ins, and an estimate of actual
+// maintenance calories from logged intake against how the trend moved
+import { DateTime } from 'luxon';
+import { BodyStats, DailyHistoryEntry, WeightEntry } from './types';
+import { getGoalForChange, KCAL_PER_KG } from './energy';
+
+// Share of each day's difference from the trend that the trend moves by; smaller is smoother
+const TREND_SMOOTHING = 0.1;
+
+const ESTIMATE_WINDOW_DAYS = 28; // How far back the maintenance estimate looks
+const MIN_LOGGED_DAYS = 14; // Days with intake logged needed in the window
+const MIN_TREND_SPAN_DAYS = 14; // Days between the first and last weigh-in used
+const MIN_GOAL_ADJUSTMENT = 50; // Smaller suggested changes to the goal aren't worth making
+
+export interface WeightTrendPoint extends WeightEntry {
+  trendKg: number;
+}
+
+export interface MaintenanceEstimate {
+  maintenance: number; // kcal a day that would keep weight steady
+  averageIntake: number;
+  weeklyChangeKg: number; // How fast the trend moved over the period
+  days: number; // Length of the period the estimate covers
+}
+
+const daysBetween = (from: string, to: string): number =>
+  DateTime.fromISO(to).diff(DateTime.fromISO(from), 'days').days;
+
+// Insert or replace the weigh-in for a day, keeping the log sorted by date
+export const upsertWeightEntry = (log: WeightEntry[], entry: WeightEntry): WeightEntry[] =>
+  [...log.filter((existing) => existing.date !== entry.date), entry].sort((a, b) => a.date.localeCompare(b.date));
+
+// The most recent weigh-in, or null if there are none
+export const getLatestWeightKg = (log: WeightEntry[]): number | null =>
+  log.length > 0 ? log.reduce((latest, entry) => (entry.date > latest.date ? entry : latest)).weightKg : null;
+
+// Exponential moving average of the weigh-ins, oldest first. Gaps between weigh-ins
+// count as that many days of smoothing, so the trend doesn't jump after a break.
+export const getWeightTrend = (log: WeightEntry[]): WeightTrendPoint[] => {
+  const sorted = [...log].sort((a, b) => a.date.localeCompare(b.date));
+  const points: WeightTrendPoint[] = [];
+  sorted.forEach((entry, index) => {
+    if (index === 0) {
+      points.push({ ...entry, trendKg: entry.weightKg });
+      return;
+    }
+    const previous = points[index - 1];
+    const weight = 1 - Math.pow(1 - TREND_SMOOTHING, Math.max(1, daysBetween(previous.date, entry.date)));
+    const trendKg = previous.trendKg + weight * (entry.weightKg - previous.trendKg);
+    points.push({ ...entry, trendKg: Math.round(trendKg * 100) / 100 });
+  });
+  return points;
+};
+
+// Estimate maintenance calories from the last few weeks: average intake, corrected
+// for the energy the trend says was gained or lost. Null until there's enough data.
+export const estimateMaintenance = (
+  history: Pick<DailyHistoryEntry, 'date' | 'totalCalories'>[],
+  log: WeightEntry[],
+  today: string
+): MaintenanceEstimate | null => {
+  const windowStart = DateTime.fromISO(today).minus({ days: ESTIMATE_WINDOW_DAYS }).toISODate();
+  const trend = getWeightTrend(log).filter((point) => point.date >= windowStart && point.date < today);
+  if (trend.length < 2) return null;
+  const first = trend[0];
+  const last = trend[trend.length - 1];
+  const days = daysBetween(first.date, last.date);
+  if (days < MIN_TREND_SPAN_DAYS) return null;
+
+  // Days with nothing logged are skipped rather than counted as fasting
+  const loggedDays = history.filter(
+    (day) => day.date >= first.date && day.date <= last.date && day.totalCalories > 0
+  );
+  if (loggedDays.length < MIN_LOGGED_DAYS) return null;
+  const averageIntake = loggedDays.reduce((sum, day) => sum + day.totalCalories, 0) / loggedDays.length;
+  const changeKg = last.trendKg - first.trendKg;
+  return {
+    maintenance: Math.round(averageIntake - (changeKg * KCAL_PER_KG) / days),
+    averageIntake: Math.round(averageIntake),
+    weeklyChangeKg: Math.round(((changeKg * 7) / days) * 100) / 100,
+    days,
+  };
+};
+
+// A new daily goal for the target rate of change given the estimated maintenance,
+// or null if it's close enough to the current goal
+export const suggestAdaptiveGoal = (
+  estimate: MaintenanceEstimate,
+  dailyGoal: number,
+  bodyStats: BodyStats | null
+): number | null => {
+  const { dailyGoal: suggested } = getGoalForChange(
+    estimate.maintenance,
+    bodyStats?.weeklyChangeKg ?? 0,
+    bodyStats?.sex
+  );
+  return Math.abs(suggested - dailyGoal) >= MIN_GOAL_ADJUSTMENT ? suggested : null;
+};